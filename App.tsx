@@ -1,14 +1,41 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useRef } from "react";
 import { Icons } from "./components/Icons";
 import { NotificationToast } from "./components/NotificationToast";
+import { AuditReportService } from "./services/auditReport";
+import { CorruptPackageError } from "./services/errors";
 import { ExcelService } from "./services/excelService";
-import { ExcelProperties, Notification } from "./types";
+import { ExcelWorkerClient } from "./services/excelWorkerClient";
+import { FileDropService } from "./services/fileDrop";
+import {
+  BatchFile,
+  ExcelProperties,
+  Notification,
+  PackageIssue,
+  ProgressCallback,
+  ProgressInfo,
+  ProtectionChange,
+  ProtectionReport,
+  RepairReport,
+  RepairResult,
+  UnprotectOptions,
+} from "./types";
+import { BatchPanel } from "./components/BatchPanel";
+import { DocumentInspector } from "./components/DocumentInspector";
 import { Footer } from "./components/Footer";
 import { FilePropertiesDisplay } from "./components/FilePropertiesDisplay";
 import { PropertiesEditor } from "./components/PropertiesEditor";
+import { ProtectEditor } from "./components/ProtectEditor";
+import { PasswordCheckPanel } from "./components/PasswordCheckPanel";
+import { PackageDiffPanel } from "./components/PackageDiffPanel";
+import { PackageIssuesPanel } from "./components/PackageIssuesPanel";
+import { PasswordPromptPanel } from "./components/PasswordPromptPanel";
+import { ProtectionReportPanel } from "./components/ProtectionReportPanel";
+import { RepairPromptPanel } from "./components/RepairPromptPanel";
+import { RepairReportPanel } from "./components/RepairReportPanel";
+import { UnprotectOptionsPanel } from "./components/UnprotectOptionsPanel";
 import saveAs from "file-saver";
 
-type AppTab = "unprotect" | "properties";
+type AppTab = "unprotect" | "protect" | "inspect" | "properties";
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<AppTab>("unprotect");
@@ -18,12 +45,31 @@ export default function App() {
   const [wasProtected, setWasProtected] = useState<boolean | null>(null);
   const [originalFileName, setOriginalFileName] = useState<string>("");
   const [processStep, setProcessStep] = useState<string>("");
+  const [processProgress, setProcessProgress] = useState<ProgressInfo | null>(
+    null,
+  );
   const [isDragging, setIsDragging] = useState(false);
-  const [showLegacyError, setShowLegacyError] = useState(false);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
+  // The file as uploaded; differs from currentFile once it was decrypted
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [encryptedFile, setEncryptedFile] = useState<File | null>(null);
+  const [damagedFile, setDamagedFile] = useState<File | null>(null);
+  const [repairReport, setRepairReport] = useState<RepairReport | null>(null);
+  const [batchFiles, setBatchFiles] = useState<BatchFile[] | null>(null);
   const [fileProperties, setFileProperties] = useState<ExcelProperties | null>(
     null,
   );
+  const [originalProperties, setOriginalProperties] =
+    useState<ExcelProperties | null>(null);
+  const [protectionChanges, setProtectionChanges] = useState<
+    ProtectionChange[]
+  >([]);
+  const [protectionReport, setProtectionReport] =
+    useState<ProtectionReport | null>(null);
+  const [packageIssues, setPackageIssues] = useState<PackageIssue[]>([]);
+  const [unprotectOptions, setUnprotectOptions] = useState<UnprotectOptions>(
+    {},
+  );
 
   const addNotification = useCallback(
     (type: Notification["type"], message: string) => {
@@ -38,55 +84,259 @@ export default function App() {
     setNotifications((prev) => prev.filter((n) => n.id !== id));
   }, []);
 
-  // Common file processor
-  const processFile = async (file: File) => {
+  // Aborts the worker of the task shown in the processing state
+  const abortRef = useRef<AbortController | null>(null);
+
+  const trackProgress: ProgressCallback = (step, progress) => {
+    setProcessStep(step);
+    setProcessProgress(progress ?? null);
+  };
+
+  const startTask = (step: string) => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    setIsProcessing(true);
+    setProcessStep(step);
+    setProcessProgress(null);
+    return abortRef.current.signal;
+  };
+
+  const finishTask = () => {
+    abortRef.current = null;
+    setIsProcessing(false);
+    setProcessStep("");
+    setProcessProgress(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Cancelling is not a failure, so it only gets an info toast
+  const notifyError = (error: any, fallback: string) => {
+    if (ExcelWorkerClient.isAbortError(error)) {
+      addNotification("info", "Processing cancelled.");
+    } else {
+      addNotification("error", error.message || fallback);
+    }
+  };
+
+  // Common file processor: inspects the file before anything is removed.
+  // `repair` is the report of a file that was already repaired.
+  const processFile = async (
+    file: File,
+    uploaded: File = file,
+    repair: RepairReport | null = null,
+  ) => {
     setProcessedFile(null);
     setWasProtected(null);
-    setShowLegacyError(false);
-    setCurrentFile(file);
+    setCurrentFile(null);
+    setUploadedFile(uploaded);
+    setEncryptedFile(null);
+    setDamagedFile(null);
+    setRepairReport(repair);
     setFileProperties(null);
+    setOriginalProperties(null);
+    setProtectionChanges([]);
+    setPackageIssues([]);
+    setProtectionReport(null);
 
     const lowerName = file.name.toLowerCase();
 
-    // Specific handling for legacy .xls files
-    if (lowerName.endsWith(".xls")) {
-      setOriginalFileName(file.name);
-      setShowLegacyError(true);
+    const isLegacy = ExcelService.isLegacyExcelFile(lowerName);
+
+    if (!isLegacy && !ExcelService.isModernExcelFile(lowerName)) {
+      addNotification(
+        "error",
+        "Please upload a valid Excel file (.xlsx, .xlsm, .xltx, .xltm, .xlam or .xls).",
+      );
       return;
     }
 
-    if (!lowerName.endsWith(".xlsx")) {
-      addNotification("error", "Please upload a valid Excel file (.xlsx).");
+    setOriginalFileName(file.name);
+    const signal = startTask("Starting upload...");
+
+    try {
+      // "Password to Open": ask for the password before anything else
+      if (
+        !isLegacy &&
+        (await ExcelWorkerClient.run(
+          "isEncrypted",
+          [file],
+          trackProgress,
+          signal,
+        ))
+      ) {
+        setEncryptedFile(file);
+        return;
+      }
+
+      setCurrentFile(file);
+
+      // Extract properties immediately (legacy files keep theirs untouched)
+      if (!isLegacy) {
+        const props = await ExcelWorkerClient.run(
+          "getProperties",
+          [file],
+          trackProgress,
+          signal,
+        );
+        setFileProperties(props);
+        setOriginalProperties(props);
+      }
+
+      const report = await ExcelWorkerClient.run(
+        "inspectFile",
+        [file],
+        trackProgress,
+        signal,
+      );
+      setProtectionReport(report);
+      // Preselect everything that is protected
+      setUnprotectOptions({
+        workbook: !!report.workbook,
+        sheets: report.sheets
+          .filter((s) => s.protection || s.protectedRanges.length > 0)
+          .map((s) => s.path),
+        protectedRanges: true,
+        unhideSheets: [],
+        vbaProject: false,
+        fileSharing: true,
+        unlockCells: false,
+        revealFormulas: false,
+      });
+    } catch (error: any) {
+      // A package JSZip cannot open gets a chance to be repaired (once)
+      if (!isLegacy && !repair && error instanceof CorruptPackageError) {
+        setDamagedFile(file);
+      } else {
+        notifyError(error, "An unexpected error occurred.");
+      }
+      setCurrentFile(null);
+      setFileProperties(null);
+    } finally {
+      finishTask();
+    }
+  };
+
+  const handleDecrypt = async (password: string) => {
+    if (!encryptedFile) return;
+
+    const signal = startTask("Decrypting workbook...");
+    let decrypted: File;
+    try {
+      decrypted = await ExcelWorkerClient.run(
+        "decryptFile",
+        [encryptedFile, password],
+        trackProgress,
+        signal,
+      );
+    } catch (error: any) {
+      notifyError(error, "The file could not be decrypted.");
+      finishTask();
       return;
     }
 
-    setOriginalFileName(file.name);
-    setIsProcessing(true);
-    setProcessStep("Starting upload...");
+    addNotification(
+      "info",
+      "Workbook decrypted. The downloaded copy will open without a password.",
+    );
+    await processFile(decrypted, encryptedFile);
+  };
 
+  const handleRepair = async () => {
+    if (!damagedFile) return;
+
+    const signal = startTask("Scanning for readable parts...");
+    let result: RepairResult;
+    try {
+      result = await ExcelWorkerClient.run(
+        "repairFile",
+        [damagedFile],
+        trackProgress,
+        signal,
+      );
+    } catch (error: any) {
+      notifyError(error, "The file could not be repaired.");
+      finishTask();
+      return;
+    }
+
+    const lost = result.report.lostParts.length;
+    addNotification(
+      lost > 0 ? "info" : "success",
+      lost > 0
+        ? `File repaired; ${lost} part(s) could not be recovered.`
+        : "File repaired without losses.",
+    );
+    await processFile(result.file, uploadedFile ?? damagedFile, result.report);
+  };
+
+  const handleUnprotect = async () => {
+    if (!currentFile) return;
+
+    const signal = startTask("Starting...");
     const loadingId = addNotification("loading", "Processing your file...");
 
     try {
-      // Extract properties immediately
-      const props = await ExcelService.getProperties(file);
-      setFileProperties(props);
-
-      const { blob, wasProtected } = await ExcelService.unprotectFile(
-        file,
-        (step) => {
-          setProcessStep(step);
-        },
+      const {
+        blob,
+        wasProtected,
+        protectedRangesRemoved,
+        sheetsUnhidden,
+        vbaProjectUnlocked,
+        fileSharingRemoved,
+        cellFormatsUnlocked,
+        formulasRevealed,
+        changes,
+        report,
+      } = await ExcelWorkerClient.run(
+        "unprotectFile",
+        [currentFile, unprotectOptions],
+        trackProgress,
+        signal,
       );
 
       setProcessedFile(blob);
       setWasProtected(wasProtected);
+      setProtectionChanges(changes);
+      setProtectionReport(report);
       removeNotification(loadingId);
 
+      const plural = (n: number, noun: string) =>
+        `${n} ${noun}${n === 1 ? "" : "s"}`;
+      const extras = [
+        protectedRangesRemoved > 0 &&
+          `removed ${plural(protectedRangesRemoved, "protected range")}`,
+        sheetsUnhidden > 0 && `unhid ${plural(sheetsUnhidden, "sheet")}`,
+        vbaProjectUnlocked && "unlocked the VBA project",
+        fileSharingRemoved && "cleared the password to modify",
+        cellFormatsUnlocked > 0 &&
+          `unlocked ${plural(cellFormatsUnlocked, "cell format")}`,
+        formulasRevealed > 0 &&
+          `revealed formulas in ${plural(formulasRevealed, "cell format")}`,
+      ].filter(Boolean);
+
       if (wasProtected) {
         addNotification(
           "success",
-          "Protection detected and removed successfully.",
+          extras.length > 0
+            ? `Protection detected and removed successfully (${extras.join(", ")}).`
+            : "Protection detected and removed successfully.",
         );
+      } else if (extras.length > 0) {
+        const summary = extras.join(", ");
+        addNotification(
+          "success",
+          `${summary.charAt(0).toUpperCase()}${summary.slice(1)}.`,
+        );
+      } else if (
+        report.workbook ||
+        report.fileSharing ||
+        report.vbaProject?.isLocked ||
+        report.sheets.some((s) => s.protection || s.protectedRanges.length)
+      ) {
+        addNotification("info", "No protection was selected for removal.");
       } else {
         addNotification(
           "info",
@@ -95,27 +345,55 @@ export default function App() {
       }
     } catch (error: any) {
       removeNotification(loadingId);
-      addNotification(
-        "error",
-        error.message || "An unexpected error occurred.",
-      );
+      notifyError(error, "An unexpected error occurred.");
       setProcessedFile(null);
       setWasProtected(null);
     } finally {
-      setIsProcessing(false);
-      setProcessStep("");
+      finishTask();
     }
   };
 
+  // Several files or a folder are unprotected as a batch; a single file
+  // goes through the inspection step first.
+  const handleFiles = async (files: BatchFile[]) => {
+    if (files.length === 1 && !files[0].path.includes("/")) {
+      await processFile(files[0].file);
+      return;
+    }
+
+    // Excel's "~$" owner files sit next to open workbooks in shared folders
+    const excelFiles = files.filter(
+      ({ file }) =>
+        !file.name.startsWith("~$") &&
+        (ExcelService.isModernExcelFile(file.name) ||
+          ExcelService.isLegacyExcelFile(file.name)),
+    );
+    if (excelFiles.length === 0) {
+      addNotification(
+        "error",
+        "No Excel files (.xlsx, .xlsm, .xltx, .xltm, .xlam or .xls) were found.",
+      );
+      return;
+    }
+    if (excelFiles.length < files.length) {
+      addNotification(
+        "info",
+        `Skipped ${files.length - excelFiles.length} file(s) that are not Excel workbooks.`,
+      );
+    }
+    resetUnprotect();
+    setBatchFiles(excelFiles);
+  };
+
   const handleFileUpload = async (
     event: React.ChangeEvent<HTMLInputElement>,
   ) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      await processFile(file);
-    }
+    const files: File[] = Array.from(event.target.files ?? []);
     // Reset input so same file can be selected again later if needed
     event.target.value = "";
+    if (files.length > 0) {
+      await handleFiles(files.map((file) => ({ file, path: file.name })));
+    }
   };
 
   const onDragOver = useCallback((e: React.DragEvent) => {
@@ -128,41 +406,139 @@ export default function App() {
     setIsDragging(false);
   }, []);
 
-  const onDrop = useCallback((e: React.DragEvent) => {
+  const onDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files?.[0];
-    if (file) {
-      processFile(file);
+    const files = await FileDropService.collect(e.dataTransfer);
+    if (files.length > 0) {
+      handleFiles(files);
     }
   }, []);
 
+  // Keep the original extension so macro-enabled files and templates stay so
+  const getOutputName = () => {
+    const ext = ExcelService.getExtension(originalFileName);
+    const nameWithoutExt = originalFileName.slice(0, -ext.length);
+    const suffix = wasProtected ? "unlocked" : "processed";
+    return `${nameWithoutExt}_${suffix}${ext}`;
+  };
+
+  // The downloaded file, with any pending property edits applied, and the
+  // problems found when it was re-opened. It is kept so the audit report
+  // hashes exactly the bytes that were downloaded.
+  const downloadRef = useRef<{
+    source: Blob;
+    props: ExcelProperties | null;
+    blob: Blob;
+    issues: PackageIssue[];
+  } | null>(null);
+
+  const getDownload = async () => {
+    const cached = downloadRef.current;
+    if (cached?.source === processedFile && cached.props === fileProperties) {
+      return cached;
+    }
+    const blob = fileProperties
+      ? await ExcelWorkerClient.run("updateProperties", [
+          processedFile!,
+          fileProperties,
+        ])
+      : processedFile!;
+    // Only ZIP packages are rebuilt part by part; .xls output is not checked
+    const issues = ExcelService.isModernExcelFile(currentFile!.name)
+      ? await ExcelWorkerClient.run("validatePackage", [currentFile!, blob])
+      : [];
+    downloadRef.current = {
+      source: processedFile!,
+      props: fileProperties,
+      blob,
+      issues,
+    };
+    return downloadRef.current;
+  };
+
   const handleDownload = async () => {
     if (!processedFile) return;
 
-    const nameWithoutExt = originalFileName.replace(/\.xlsx$/i, "");
-    const suffix = wasProtected ? "unlocked" : "processed";
-    const newName = `${nameWithoutExt}_${suffix}.xlsx`;
-
-    // Apply any pending property edits before downloading
-    let finalBlob = processedFile;
-    if (fileProperties) {
-      try {
-        finalBlob = await ExcelService.updateProperties(
-          processedFile,
-          fileProperties,
-        );
-      } catch (error: any) {
-        addNotification(
-          "error",
-          "Failed to apply properties: " + error.message,
-        );
-        return;
-      }
+    const newName = getOutputName();
+    let download: Awaited<ReturnType<typeof getDownload>>;
+    try {
+      download = await getDownload();
+    } catch (error: any) {
+      addNotification("error", "Failed to prepare the file: " + error.message);
+      return;
+    }
+
+    setPackageIssues(download.issues);
+    if (download.issues.some((issue) => issue.severity === "error")) {
+      addNotification(
+        "error",
+        "The processed file failed validation and was not downloaded.",
+      );
+      return;
     }
 
-    saveAs(finalBlob, newName);
-    addNotification("success", `Downloaded ${newName}`);
+    saveAs(download.blob, newName);
+    addNotification(
+      download.issues.length > 0 ? "info" : "success",
+      download.issues.length > 0
+        ? `Downloaded ${newName} with ${download.issues.length} warning(s).`
+        : `Downloaded ${newName}`,
+    );
+  };
+
+  const handleDownloadReport = async (format: "json" | "html") => {
+    if (!processedFile || !uploadedFile) return;
+
+    try {
+      const report = await AuditReportService.create({
+        input: uploadedFile,
+        output: (await getDownload()).blob,
+        outputName: getOutputName(),
+        passwordToOpenRemoved: await ExcelWorkerClient.run("isEncrypted", [
+          uploadedFile,
+        ]),
+        protectionsFound: protectionReport,
+        protectionsRemoved: protectionChanges,
+        originalProps: originalProperties,
+        editedProps: fileProperties,
+      });
+      const content =
+        format === "json"
+          ? AuditReportService.toJson(report)
+          : AuditReportService.toHtml(report);
+      const ext = ExcelService.getExtension(originalFileName);
+      const reportName = `${originalFileName.slice(0, -ext.length)}_audit.${format}`;
+      saveAs(
+        new Blob([content], {
+          type: format === "json" ? "application/json" : "text/html",
+        }),
+        reportName,
+      );
+      addNotification("success", `Downloaded ${reportName}`);
+    } catch (error: any) {
+      addNotification(
+        "error",
+        "Failed to create the audit report: " + error.message,
+      );
+    }
+  };
+
+  const resetUnprotect = () => {
+    setProcessedFile(null);
+    setOriginalFileName("");
+    setWasProtected(null);
+    setCurrentFile(null);
+    setUploadedFile(null);
+    setEncryptedFile(null);
+    setDamagedFile(null);
+    setRepairReport(null);
+    setFileProperties(null);
+    setOriginalProperties(null);
+    setProtectionChanges([]);
+    setPackageIssues([]);
+    setProtectionReport(null);
+    setBatchFiles(null);
   };
 
   const handleSaveProperties = async (newProps: ExcelProperties) => {
@@ -178,6 +554,18 @@ export default function App() {
       icon: <Icons.Unlock className="w-4 h-4" />,
       description: "Remove sheet & workbook protection",
     },
+    {
+      id: "protect" as AppTab,
+      label: "Protect",
+      icon: <Icons.Lock className="w-4 h-4" />,
+      description: "Lock sheets & workbook with a password",
+    },
+    {
+      id: "inspect" as AppTab,
+      label: "Inspect & Clean",
+      icon: <Icons.FileSearch className="w-4 h-4" />,
+      description: "Find & remove hidden and personal content",
+    },
     {
       id: "properties" as AppTab,
       label: "Edit Properties",
@@ -212,6 +600,16 @@ export default function App() {
                 Unlock your spreadsheets <br />
                 <span className="text-brand-600">in seconds.</span>
               </>
+            ) : activeTab === "protect" ? (
+              <>
+                Lock them again <br />
+                <span className="text-brand-600">when you are done.</span>
+              </>
+            ) : activeTab === "inspect" ? (
+              <>
+                Check before you share <br />
+                <span className="text-brand-600">what is hidden inside.</span>
+              </>
             ) : (
               <>
                 Edit file properties <br />
@@ -222,7 +620,11 @@ export default function App() {
           <p className="mt-5 max-w-xl mx-auto text-xl text-slate-500">
             {activeTab === "unprotect"
               ? "Remove sheet and workbook protection instantly. Secure, client-side processing means your data never leaves your browser."
-              : "View and modify Excel file metadata for both .xlsx and .xls files. Everything happens locally in your browser."}
+              : activeTab === "protect"
+                ? "Apply workbook and sheet protection with Excel's own SHA-512 password hashing, right in your browser."
+                : activeTab === "inspect"
+                  ? "Find comments, hidden sheets, external links and other content you may not want to send, and strip it locally in your browser."
+                  : "View and modify Excel file metadata for both .xlsx and .xls files. Everything happens locally in your browser."}
           </p>
         </div>
 
@@ -253,119 +655,154 @@ export default function App() {
             {activeTab === "unprotect" && (
               <>
                 {/* Upload Area */}
-                {!processedFile && !isProcessing && !showLegacyError && (
-                  <div className="w-full">
-                    <label
-                      htmlFor="file-upload"
-                      className={`group relative flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-300 ${
-                        isDragging
-                          ? "border-brand-500 bg-brand-50 scale-[1.02] shadow-lg"
-                          : "border-slate-300 bg-slate-50 hover:bg-brand-50 hover:border-brand-300"
-                      }`}
-                      onDragOver={onDragOver}
-                      onDragEnter={onDragOver}
-                      onDragLeave={onDragLeave}
-                      onDrop={onDrop}
-                    >
-                      <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                        <div
-                          className={`p-4 rounded-full shadow-sm mb-4 transition-transform duration-300 ${
-                            isDragging
-                              ? "bg-brand-100 scale-110"
-                              : "bg-white group-hover:scale-110"
-                          }`}
-                        >
-                          <Icons.Upload
-                            className={`w-8 h-8 ${isDragging ? "text-brand-600" : "text-brand-500"}`}
-                          />
+                {!currentFile &&
+                  !encryptedFile &&
+                  !damagedFile &&
+                  !batchFiles &&
+                  !isProcessing && (
+                    <div className="w-full">
+                      <label
+                        htmlFor="file-upload"
+                        className={`group relative flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-300 ${
+                          isDragging
+                            ? "border-brand-500 bg-brand-50 scale-[1.02] shadow-lg"
+                            : "border-slate-300 bg-slate-50 hover:bg-brand-50 hover:border-brand-300"
+                        }`}
+                        onDragOver={onDragOver}
+                        onDragEnter={onDragOver}
+                        onDragLeave={onDragLeave}
+                        onDrop={onDrop}
+                      >
+                        <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                          <div
+                            className={`p-4 rounded-full shadow-sm mb-4 transition-transform duration-300 ${
+                              isDragging
+                                ? "bg-brand-100 scale-110"
+                                : "bg-white group-hover:scale-110"
+                            }`}
+                          >
+                            <Icons.Upload
+                              className={`w-8 h-8 ${isDragging ? "text-brand-600" : "text-brand-500"}`}
+                            />
+                          </div>
+                          <p
+                            className={`mb-2 text-lg font-medium ${isDragging ? "text-brand-700" : "text-slate-700"}`}
+                          >
+                            {isDragging
+                              ? "Drop files or a folder here"
+                              : "Click to upload or drag and drop"}
+                          </p>
+                          <p
+                            className={`text-sm ${isDragging ? "text-brand-600" : "text-slate-500"}`}
+                          >
+                            Excel files (.xlsx, .xlsm, .xltx, .xltm, .xlam,
+                            .xls) • several at once or a whole folder
+                          </p>
                         </div>
-                        <p
-                          className={`mb-2 text-lg font-medium ${isDragging ? "text-brand-700" : "text-slate-700"}`}
-                        >
-                          {isDragging
-                            ? "Drop file here"
-                            : "Click to upload or drag and drop"}
-                        </p>
-                        <p
-                          className={`text-sm ${isDragging ? "text-brand-600" : "text-slate-500"}`}
-                        >
-                          Modern Excel files (.xlsx)
+                        <input
+                          id="file-upload"
+                          type="file"
+                          multiple
+                          className="hidden"
+                          accept={[
+                            ...ExcelService.MODERN_EXTENSIONS,
+                            ".xls",
+                          ].join(",")}
+                          onChange={handleFileUpload}
+                        />
+                      </label>
+                      <div className="mt-6 flex items-start space-x-3 text-sm text-slate-500 bg-blue-50 p-4 rounded-lg border border-blue-100">
+                        <Icons.ShieldAlert className="w-5 h-5 text-blue-600 flex-shrink-0" />
+                        <p>
+                          <strong>Note:</strong> This tool removes{" "}
+                          <em>Sheet Protection</em> and{" "}
+                          <em>Workbook Structure Protection</em>. <br />
+                          Modern <strong>.xlsx</strong>-based files and legacy{" "}
+                          <strong>.xls</strong> workbooks are edited in place,
+                          so your formatting and macros are preserved perfectly.
                         </p>
                       </div>
-                      <input
-                        id="file-upload"
-                        type="file"
-                        className="hidden"
-                        accept=".xlsx,.xls"
-                        onChange={handleFileUpload}
-                      />
-                    </label>
-                    <div className="mt-6 flex items-start space-x-3 text-sm text-slate-500 bg-blue-50 p-4 rounded-lg border border-blue-100">
-                      <Icons.ShieldAlert className="w-5 h-5 text-blue-600 flex-shrink-0" />
-                      <p>
-                        <strong>Note:</strong> This tool removes{" "}
-                        <em>Sheet Protection</em> and{" "}
-                        <em>Workbook Structure Protection</em>. <br />
-                        Only <strong>.xlsx</strong> files are supported to
-                        ensure your formatting is preserved perfectly.
-                      </p>
                     </div>
-                  </div>
+                  )}
+
+                {/* Batch State (several files or a folder) */}
+                {batchFiles && (
+                  <BatchPanel
+                    files={batchFiles}
+                    onReset={resetUnprotect}
+                    addNotification={addNotification}
+                  />
                 )}
 
-                {/* Legacy Format Instruction State */}
-                {showLegacyError && (
-                  <div className="bg-orange-50 border border-orange-200 rounded-xl p-6 text-left animate-in fade-in slide-in-from-bottom-4">
-                    <div className="flex items-start mb-4">
-                      <div className="p-2 bg-orange-100 rounded-lg mr-3">
-                        <Icons.AlertCircle className="w-6 h-6 text-orange-600" />
-                      </div>
-                      <div>
-                        <h3 className="text-lg font-bold text-orange-900">
-                          Legacy File Detected (.xls)
-                        </h3>
-                        <p className="text-orange-800 mt-1">
-                          We noticed you uploaded{" "}
-                          <strong>{originalFileName}</strong>. To prevent
-                          formatting loss, we only support modern{" "}
-                          <strong>.xlsx</strong> files.
-                        </p>
-                      </div>
-                    </div>
+                {/* Password to Open State */}
+                {encryptedFile && !isProcessing && (
+                  <PasswordPromptPanel
+                    fileName={originalFileName}
+                    onSubmit={handleDecrypt}
+                    onCancel={resetUnprotect}
+                  />
+                )}
+
+                {/* Damaged Package State */}
+                {damagedFile && !isProcessing && (
+                  <RepairPromptPanel
+                    fileName={originalFileName}
+                    onRepair={handleRepair}
+                    onCancel={resetUnprotect}
+                  />
+                )}
 
-                    <div className="bg-white rounded-lg p-4 border border-orange-100 shadow-sm">
-                      <h4 className="font-semibold text-slate-900 mb-3">
-                        How to fix this (takes 30 seconds):
-                      </h4>
-                      <ol className="list-decimal list-inside space-y-2 text-slate-700 text-sm">
-                        <li>
-                          Open your file in <strong>Excel</strong>.
-                        </li>
-                        <li>
-                          Click on <strong>File {">"} Save As</strong>.
-                        </li>
-                        <li>
-                          Select <strong>Excel Workbook (*.xlsx)</strong> from
-                          the format dropdown.
-                        </li>
-                        <li>
-                          Upload the new <strong>.xlsx</strong> file here.
-                        </li>
-                      </ol>
+                {/* Inspection State (dry run, nothing removed yet) */}
+                {protectionReport && !processedFile && !isProcessing && (
+                  <div className="text-center py-6 animate-in fade-in duration-500">
+                    <div className="inline-flex items-center justify-center w-20 h-20 bg-brand-50 rounded-full mb-6">
+                      <Icons.ShieldAlert className="w-10 h-10 text-brand-600" />
                     </div>
+                    <h2 className="text-2xl font-bold text-slate-900 mb-2">
+                      Inspection Complete
+                    </h2>
+                    <p className="text-slate-600 mb-8 max-w-lg mx-auto">
+                      Review the protection found in{" "}
+                      <span className="font-semibold text-slate-900">
+                        {originalFileName}
+                      </span>{" "}
+                      below. Nothing has been removed yet.
+                    </p>
 
-                    <button
-                      onClick={() => setShowLegacyError(false)}
-                      className="mt-6 w-full py-3 bg-white border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
-                    >
-                      Try Again
-                    </button>
+                    <UnprotectOptionsPanel
+                      report={protectionReport}
+                      options={unprotectOptions}
+                      onChange={setUnprotectOptions}
+                    />
+
+                    {currentFile &&
+                      (protectionReport.workbook ||
+                        protectionReport.sheets.some((s) => s.protection)) && (
+                        <PasswordCheckPanel file={currentFile} />
+                      )}
+
+                    <div className="flex flex-col sm:flex-row justify-center gap-4">
+                      <button
+                        onClick={handleUnprotect}
+                        className="inline-flex items-center justify-center px-8 py-4 border border-transparent text-lg font-medium rounded-lg text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 shadow-lg hover:shadow-xl transition-all"
+                      >
+                        <Icons.Unlock className="w-5 h-5 mr-2" />
+                        Remove Protection
+                      </button>
+
+                      <button
+                        onClick={resetUnprotect}
+                        className="inline-flex items-center justify-center px-8 py-4 border border-slate-300 text-lg font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 transition-all"
+                      >
+                        Choose Another File
+                      </button>
+                    </div>
                   </div>
                 )}
 
                 {/* Processing State */}
                 {isProcessing && (
-                  <div className="flex flex-col items-center justify-center h-64">
+                  <div className="flex flex-col items-center justify-center min-h-64 py-6">
                     <div className="relative w-24 h-24 mb-6">
                       <div className="absolute inset-0 border-4 border-slate-100 rounded-full"></div>
                       <div className="absolute inset-0 border-4 border-brand-500 rounded-full border-t-transparent animate-spin"></div>
@@ -377,6 +814,32 @@ export default function App() {
                     <p className="text-slate-500 animate-pulse">
                       {processStep}
                     </p>
+                    {processProgress && processProgress.total > 0 && (
+                      <div className="w-64 mt-4">
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-brand-500 rounded-full transition-all duration-300"
+                            style={{
+                              width: `${Math.round((processProgress.done / processProgress.total) * 100)}%`,
+                            }}
+                          ></div>
+                        </div>
+                        <p className="mt-1 text-xs text-slate-400 text-right">
+                          {Math.round(
+                            (processProgress.done / processProgress.total) *
+                              100,
+                          )}
+                          %
+                        </p>
+                      </div>
+                    )}
+                    <button
+                      onClick={handleCancel}
+                      className="mt-6 inline-flex items-center px-6 py-2 border border-slate-300 text-sm font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 transition-all"
+                    >
+                      <Icons.X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </button>
                   </div>
                 )}
 
@@ -427,21 +890,59 @@ export default function App() {
                       </button>
 
                       <button
-                        onClick={() => {
-                          setProcessedFile(null);
-                          setOriginalFileName("");
-                          setWasProtected(null);
-                          setCurrentFile(null);
-                          setFileProperties(null);
-                        }}
+                        onClick={resetUnprotect}
                         className="inline-flex items-center justify-center px-8 py-4 border border-slate-300 text-lg font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 transition-all"
                       >
                         Process Another File
                       </button>
                     </div>
+
+                    <div className="mt-4 flex items-center justify-center gap-3 text-sm text-slate-500">
+                      <span>Audit report:</span>
+                      <button
+                        onClick={() => handleDownloadReport("html")}
+                        className="inline-flex items-center font-medium text-brand-600 hover:text-brand-700"
+                      >
+                        <Icons.Download className="w-4 h-4 mr-1" />
+                        HTML
+                      </button>
+                      <button
+                        onClick={() => handleDownloadReport("json")}
+                        className="inline-flex items-center font-medium text-brand-600 hover:text-brand-700"
+                      >
+                        <Icons.Download className="w-4 h-4 mr-1" />
+                        JSON
+                      </button>
+                    </div>
                   </div>
                 )}
 
+                {/* What was salvaged from a damaged upload */}
+                {repairReport && currentFile && !isProcessing && (
+                  <RepairReportPanel report={repairReport} />
+                )}
+
+                {/* Validation problems of the last download attempt */}
+                {processedFile && !isProcessing && packageIssues.length > 0 && (
+                  <PackageIssuesPanel issues={packageIssues} />
+                )}
+
+                {/* Changed parts, compared with the uploaded package */}
+                {processedFile &&
+                  currentFile &&
+                  !isProcessing &&
+                  ExcelService.isModernExcelFile(currentFile.name) && (
+                    <PackageDiffPanel
+                      original={currentFile}
+                      processed={processedFile}
+                    />
+                  )}
+
+                {/* Protection Report (inline in unprotect tab) */}
+                {protectionReport && !isProcessing && (
+                  <ProtectionReportPanel report={protectionReport} />
+                )}
+
                 {/* File Properties Display (inline in unprotect tab) */}
                 {currentFile && fileProperties && (
                   <FilePropertiesDisplay
@@ -453,6 +954,16 @@ export default function App() {
               </>
             )}
 
+            {/* === PROTECT TAB === */}
+            {activeTab === "protect" && (
+              <ProtectEditor addNotification={addNotification} />
+            )}
+
+            {/* === INSPECT TAB === */}
+            {activeTab === "inspect" && (
+              <DocumentInspector addNotification={addNotification} />
+            )}
+
             {/* === PROPERTIES TAB === */}
             {activeTab === "properties" && (
               <PropertiesEditor addNotification={addNotification} />
@@ -0,0 +1,367 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { EncryptedFileError } from "../services/errors";
+import { ExcelService } from "../services/excelService";
+import { PackageRepairService } from "../services/packageRepair";
+import { ExcelProperties, ProtectionReport, UnprotectOptions } from "../types";
+
+// Exit codes let scripts tell the outcomes apart without parsing output
+const EXIT_PROTECTED = 0; // Protection found (and removed by "unlock")
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_NOT_PROTECTED = 3;
+const EXIT_ENCRYPTED = 4; // "Password to Open" missing or wrong
+
+const USAGE = `Usage:
+  excel-unprotect unlock <file> [-o <out>] [--password <pw>] [--vba] [--unhide]
+                          [--unlock-cells] [--reveal-formulas] [--repair] [--json]
+  excel-unprotect inspect <file> [--repair] [--json]
+  excel-unprotect props get <file> [--json]
+  excel-unprotect props set <file> <name>=<value>... [-o <out>]
+
+Options:
+  -o, --output           Output path (default: <name>_unlocked<ext> or <name>_edited<ext>)
+  -p, --password         Password to open an encrypted workbook
+      --vba              Also unlock the VBA project
+      --unhide           Also unhide hidden and very hidden sheets
+      --unlock-cells     Also unlock every locked cell format
+      --reveal-formulas  Also clear "hidden" from every cell format
+      --repair           Salvage the readable parts of a damaged or truncated file first
+      --json             Print machine-readable JSON
+  -v, --verbose          Print progress to stderr
+
+Exit codes:
+  0  protection found (unlock: removed)   3  not protected
+  1  error                                4  encrypted: password missing or wrong
+  2  usage error`;
+
+// Property names accepted by "props set" and how their values are parsed
+const PROPERTY_TYPES: Record<
+  Exclude<keyof ExcelProperties, "custom">,
+  "string" | "date" | "boolean"
+> = {
+  title: "string",
+  subject: "string",
+  creator: "string",
+  keywords: "string",
+  description: "string",
+  lastModifiedBy: "string",
+  created: "date",
+  modified: "date",
+  category: "string",
+  contentStatus: "string",
+  company: "string",
+  manager: "string",
+  revision: "string",
+  version: "string",
+  programName: "string",
+  lastPrinted: "date",
+  scale: "boolean",
+  linksDirty: "boolean",
+  language: "string",
+};
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  output?: string;
+  password?: string;
+  vba: boolean;
+  unhide: boolean;
+  unlockCells: boolean;
+  revealFormulas: boolean;
+  repair: boolean;
+  json: boolean;
+  verbose: boolean;
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const loadFile = async (path: string): Promise<File> =>
+  new File([await readFile(path)], basename(path));
+
+const saveBlob = async (blob: Blob, path: string) =>
+  writeFile(path, new Uint8Array(await blob.arrayBuffer()));
+
+const defaultOutput = (input: string, suffix: string) => {
+  const ext = ExcelService.getExtension(input);
+  return `${input.slice(0, input.length - ext.length)}_${suffix}${ext}`;
+};
+
+const isProtected = (report: ProtectionReport) =>
+  !!report.workbook ||
+  !!report.fileSharing ||
+  !!report.vbaProject?.isLocked ||
+  report.sheets.some((s) => s.protection || s.protectedRanges.length > 0);
+
+// Decrypts "Password to Open" workbooks when a password was given
+const openFile = async (
+  path: string,
+  options: CliOptions,
+  onProgress: (step: string) => void,
+): Promise<File> => {
+  const file = await loadFile(path);
+  if (!(await ExcelService.isEncrypted(file))) return file;
+  if (options.password === undefined) {
+    throw new EncryptedFileError(
+      `${path} is encrypted with a "Password to Open"; pass --password.`,
+    );
+  }
+  return ExcelService.decryptFile(file, options.password, onProgress);
+};
+
+// With --repair, modern files are rebuilt from their readable parts; what
+// was lost goes to stderr so --json output stays unchanged.
+const openForProcessing = async (
+  path: string,
+  options: CliOptions,
+  onProgress: (step: string) => void,
+): Promise<File> => {
+  const file = await openFile(path, options, onProgress);
+  if (!options.repair || !ExcelService.isModernExcelFile(file.name)) {
+    return file;
+  }
+  const { file: repaired, report } = await PackageRepairService.repair(
+    file,
+    onProgress,
+  );
+  log(`Repaired: ${report.recoveredParts.length} part(s) recovered`);
+  for (const part of report.rebuiltParts) log(`  rebuilt: ${part}`);
+  for (const part of report.lostParts) log(`  lost:    ${part}`);
+  return repaired;
+};
+
+const printReport = (report: ProtectionReport) => {
+  console.log(`Workbook structure: ${report.workbook ? "protected" : "-"}`);
+  console.log(`Password to modify: ${report.fileSharing ? "set" : "-"}`);
+  if (report.vbaProject) {
+    console.log(
+      `VBA project:        ${report.vbaProject.error ? `unreadable (${report.vbaProject.error})` : report.vbaProject.isLocked ? "locked" : "-"}`,
+    );
+  }
+  if (report.cellProtection) {
+    const { formats, locked, hidden } = report.cellProtection;
+    console.log(
+      `Cell formats:       ${locked} of ${formats} locked, ${hidden} hiding formulas`,
+    );
+  }
+  for (const sheet of report.sheets) {
+    const notes = [
+      sheet.protection ? "protected" : "not protected",
+      sheet.protectedRanges.length > 0 &&
+        `${sheet.protectedRanges.length} protected range(s)`,
+      sheet.state !== "visible" && sheet.state,
+    ].filter(Boolean);
+    console.log(`Sheet "${sheet.name}": ${notes.join(", ")}`);
+  }
+};
+
+const unlock = async (
+  input: string,
+  options: CliOptions,
+  onProgress: (step: string) => void,
+): Promise<number> => {
+  const file = await openForProcessing(input, options, onProgress);
+
+  const unprotectOptions: UnprotectOptions = {
+    vbaProject: options.vba,
+    unlockCells: options.unlockCells,
+    revealFormulas: options.revealFormulas,
+  };
+  if (options.unhide) {
+    const report = await ExcelService.inspectFile(file, onProgress);
+    unprotectOptions.unhideSheets = report.sheets
+      .filter((s) => s.state !== "visible")
+      .map((s) => s.path);
+  }
+  const { blob, report, ...result } = await ExcelService.unprotectFile(
+    file,
+    onProgress,
+    unprotectOptions,
+  );
+
+  const output = options.output ?? defaultOutput(input, "unlocked");
+  await saveBlob(blob, output);
+  if (options.json) {
+    console.log(JSON.stringify({ output, ...result, report }, null, 2));
+  } else {
+    console.log(
+      result.wasProtected
+        ? `Protection removed: ${output}`
+        : `No protection found; saved a copy to ${output}`,
+    );
+  }
+  return result.wasProtected ? EXIT_PROTECTED : EXIT_NOT_PROTECTED;
+};
+
+const inspect = async (
+  input: string,
+  options: CliOptions,
+  onProgress: (step: string) => void,
+): Promise<number> => {
+  const file = await openForProcessing(input, options, onProgress);
+
+  const report = await ExcelService.inspectFile(file, onProgress);
+  if (options.json) console.log(JSON.stringify(report, null, 2));
+  else printReport(report);
+  return isProtected(report) ? EXIT_PROTECTED : EXIT_NOT_PROTECTED;
+};
+
+const parseAssignments = (assignments: string[]): ExcelProperties => {
+  const props: Record<string, string | Date | boolean> = {};
+  for (const assignment of assignments) {
+    const eq = assignment.indexOf("=");
+    const name = assignment.slice(0, eq);
+    const value = assignment.slice(eq + 1);
+    const type = PROPERTY_TYPES[name as keyof typeof PROPERTY_TYPES];
+    if (eq === -1 || !type) {
+      throw new UsageError(
+        `Expected <name>=<value> with one of: ${Object.keys(PROPERTY_TYPES).join(", ")}`,
+      );
+    }
+    if (type === "date") {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new UsageError(
+          `${name} must be a date, e.g. 2024-01-31T09:00:00Z`,
+        );
+      }
+      props[name] = date;
+    } else if (type === "boolean") {
+      if (value !== "true" && value !== "false") {
+        throw new UsageError(`${name} must be true or false`);
+      }
+      props[name] = value === "true";
+    } else {
+      props[name] = value;
+    }
+  }
+  return props as ExcelProperties;
+};
+
+const properties = async (
+  action: string | undefined,
+  input: string,
+  assignments: string[],
+  options: CliOptions,
+): Promise<number> => {
+  if (!ExcelService.isModernExcelFile(input)) {
+    throw new Error(
+      "The command line reads and edits properties of .xlsx-based files only.",
+    );
+  }
+  const file = await openFile(input, options, () => {});
+
+  if (action === "get") {
+    const props = await ExcelService.getProperties(file);
+    if (options.json) {
+      console.log(JSON.stringify(props, null, 2));
+    } else {
+      const format = (value: unknown) =>
+        value instanceof Date ? value.toISOString() : String(value);
+      const { custom = [], ...builtIn } = props;
+      for (const [name, value] of Object.entries(builtIn)) {
+        if (value === undefined) continue;
+        console.log(`${name}: ${format(value)}`);
+      }
+      for (const property of custom) {
+        console.log(
+          `custom "${property.name}" (${property.type}): ${format(property.value)}`,
+        );
+      }
+    }
+    return 0;
+  }
+
+  if (action === "set") {
+    if (assignments.length === 0) {
+      throw new UsageError("props set needs at least one <name>=<value>.");
+    }
+    const blob = await ExcelService.updateProperties(
+      file,
+      parseAssignments(assignments),
+    );
+    const output = options.output ?? defaultOutput(input, "edited");
+    await saveBlob(blob, output);
+    console.log(`Properties updated: ${output}`);
+    return 0;
+  }
+
+  throw new UsageError(`Unknown props action "${action ?? ""}".`);
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      password: { type: "string", short: "p" },
+      vba: { type: "boolean", default: false },
+      unhide: { type: "boolean", default: false },
+      "unlock-cells": { type: "boolean", default: false },
+      "reveal-formulas": { type: "boolean", default: false },
+      repair: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      verbose: { type: "boolean", short: "v", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_USAGE;
+  }
+
+  const options: CliOptions = {
+    output: values.output,
+    password: values.password,
+    vba: values.vba!,
+    unhide: values.unhide!,
+    unlockCells: values["unlock-cells"]!,
+    revealFormulas: values["reveal-formulas"]!,
+    repair: values.repair!,
+    json: values.json!,
+    verbose: values.verbose!,
+  };
+  const onProgress = options.verbose ? log : () => {};
+
+  switch (command) {
+    case "unlock":
+    case "inspect": {
+      if (rest.length !== 1) throw new UsageError(`${command} takes one file.`);
+      return command === "unlock"
+        ? unlock(rest[0], options, onProgress)
+        : inspect(rest[0], options, onProgress);
+    }
+    case "props": {
+      const [action, input, ...assignments] = rest;
+      if (!input) throw new UsageError("props needs an action and a file.");
+      return properties(action, input, assignments, options);
+    }
+    default:
+      throw new UsageError(`Unknown command "${command}".`);
+  }
+};
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: any) => {
+    log(`Error: ${error.message}`);
+    if (
+      error instanceof UsageError ||
+      error.code?.startsWith("ERR_PARSE_ARGS")
+    ) {
+      log(`\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else if (error instanceof EncryptedFileError) {
+      // Also raised for encrypted .xls files and wrong passwords
+      process.exitCode = EXIT_ENCRYPTED;
+    } else {
+      process.exitCode = EXIT_ERROR;
+    }
+  },
+);
@@ -0,0 +1,321 @@
+import React, { useEffect, useRef, useState } from "react";
+import JSZip from "jszip";
+import saveAs from "file-saver";
+import { Icons } from "./Icons";
+import { BatchFile, BatchItem, BatchStatus } from "../types";
+import { AuditReportService } from "../services/auditReport";
+import { ExcelService } from "../services/excelService";
+import { ExcelWorkerClient } from "../services/excelWorkerClient";
+import { PackageValidatorService } from "../services/packageValidator";
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: "Queued",
+  processing: "Processing...",
+  unlocked: "Protected • unlocked",
+  notProtected: "Not protected",
+  failed: "Failed",
+};
+
+const STATUS_COLORS: Record<BatchStatus, string> = {
+  queued: "text-slate-400",
+  processing: "text-brand-600",
+  unlocked: "text-orange-600",
+  notProtected: "text-green-600",
+  failed: "text-red-600",
+};
+
+interface BatchPanelProps {
+  files: BatchFile[];
+  onReset: () => void;
+  addNotification: (
+    type: "success" | "error" | "info" | "loading",
+    message: string,
+  ) => string;
+}
+
+// Same naming as single downloads; folder paths are kept for the ZIP
+const getOutputPath = (item: BatchItem) => {
+  const ext = ExcelService.getExtension(item.path);
+  const suffix = item.status === "unlocked" ? "unlocked" : "processed";
+  return `${item.path.slice(0, item.path.length - ext.length)}_${suffix}${ext}`;
+};
+
+const getReportPath = (item: BatchItem, format: "json" | "html") => {
+  const ext = ExcelService.getExtension(item.path);
+  return `${item.path.slice(0, item.path.length - ext.length)}_audit.${format}`;
+};
+
+// The batch applies the default options to the files as uploaded, so
+// nothing is decrypted and no properties are edited
+const createReport = async (item: BatchItem, format: "json" | "html") => {
+  const report = await AuditReportService.create({
+    input: item.file,
+    output: item.blob!,
+    outputName: getOutputPath(item).split("/").pop()!,
+    passwordToOpenRemoved: false,
+    protectionsFound: item.report ?? null,
+    protectionsRemoved: item.changes ?? [],
+    originalProps: null,
+    editedProps: null,
+  });
+  return format === "json"
+    ? new Blob([AuditReportService.toJson(report)], {
+        type: "application/json",
+      })
+    : new Blob([AuditReportService.toHtml(report)], { type: "text/html" });
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  files,
+  onReset,
+  addNotification,
+}) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Unprotects the files one at a time, each with the default options
+  // (workbook, every sheet, protected ranges and password to modify).
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const queue: BatchItem[] = files.map((f) => ({ ...f, status: "queued" }));
+    const update = (index: number, changes: Partial<BatchItem>) => {
+      if (controller.signal.aborted) return;
+      queue[index] = { ...queue[index], ...changes };
+      setItems([...queue]);
+    };
+
+    const run = async () => {
+      setItems([...queue]);
+      setIsRunning(true);
+      for (let i = 0; i < queue.length; i++) {
+        if (controller.signal.aborted) break;
+        update(i, { status: "processing" });
+        try {
+          const result = await ExcelWorkerClient.run(
+            "unprotectFile",
+            [queue[i].file, {}],
+            undefined,
+            controller.signal,
+          );
+          // Same check as a single download; .xls output is not checked
+          const issues = ExcelService.isModernExcelFile(queue[i].file.name)
+            ? await ExcelWorkerClient.run(
+                "validatePackage",
+                [queue[i].file, result.blob],
+                undefined,
+                controller.signal,
+              )
+            : [];
+          const errors = issues.filter((issue) => issue.severity === "error");
+          if (errors.length > 0) {
+            update(i, {
+              status: "failed",
+              error: `Failed validation: ${errors
+                .map((issue) => PackageValidatorService.describe(issue))
+                .join("; ")}`,
+            });
+            continue;
+          }
+          update(i, {
+            status: result.wasProtected ? "unlocked" : "notProtected",
+            blob: result.blob,
+            issues,
+            report: result.report,
+            changes: result.changes,
+          });
+        } catch (error: any) {
+          if (ExcelWorkerClient.isAbortError(error)) break;
+          update(i, {
+            status: "failed",
+            error: error.message || "An unexpected error occurred.",
+          });
+        }
+      }
+      if (!controller.signal.aborted) setIsRunning(false);
+    };
+    run();
+
+    return () => controller.abort();
+  }, [files]);
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setItems((prev) =>
+      prev.map((item) =>
+        item.status === "queued" || item.status === "processing"
+          ? { ...item, status: "failed", error: "Cancelled" }
+          : item,
+      ),
+    );
+    setIsRunning(false);
+  };
+
+  const done = items.filter((i) => i.blob);
+  const count = (status: BatchStatus) =>
+    items.filter((i) => i.status === status).length;
+  const finished = items.length - count("queued") - count("processing");
+
+  const handleDownload = (item: BatchItem) => {
+    if (!item.blob) return;
+    const name = getOutputPath(item).split("/").pop()!;
+    saveAs(item.blob, name);
+  };
+
+  const handleDownloadReport = async (
+    item: BatchItem,
+    format: "json" | "html",
+  ) => {
+    try {
+      const name = getReportPath(item, format).split("/").pop()!;
+      saveAs(await createReport(item, format), name);
+    } catch (error: any) {
+      addNotification(
+        "error",
+        "Failed to create the audit report: " + error.message,
+      );
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const zip = new JSZip();
+      // Each workbook comes with its audit report
+      for (const item of done) {
+        zip.file(getOutputPath(item), item.blob!);
+        zip.file(getReportPath(item, "json"), await createReport(item, "json"));
+      }
+      // The workbooks are ZIP packages already, so they are only stored
+      const archive = await zip.generateAsync({
+        type: "blob",
+        compression: "STORE",
+      });
+      saveAs(archive, "unlocked_workbooks.zip");
+      addNotification("success", `Downloaded ${done.length} files as a ZIP.`);
+    } catch (error: any) {
+      addNotification("error", "Failed to create the ZIP: " + error.message);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="animate-in fade-in duration-500">
+      <div className="flex justify-between items-end mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">
+            {isRunning ? "Processing Files" : "Batch Complete"}
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">
+            {finished} of {items.length} processed • {count("unlocked")}{" "}
+            unlocked • {count("notProtected")} not protected • {count("failed")}{" "}
+            failed
+          </p>
+        </div>
+        {isRunning && (
+          <button
+            onClick={handleCancel}
+            className="inline-flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 transition-colors"
+          >
+            <Icons.X className="w-4 h-4 mr-2" />
+            Cancel
+          </button>
+        )}
+      </div>
+
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-6">
+        <div
+          className="h-full bg-brand-500 rounded-full transition-all duration-300"
+          style={{
+            width: `${items.length ? Math.round((finished / items.length) * 100) : 0}%`,
+          }}
+        ></div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden text-left">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b border-slate-200 text-left text-slate-500">
+            <tr>
+              <th className="px-4 py-3 font-medium">File</th>
+              <th className="px-4 py-3 font-medium">Result</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {items.map((item) => (
+              <tr key={item.path}>
+                <td className="px-4 py-3 text-slate-800 font-medium break-all">
+                  {item.path}
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`font-medium ${STATUS_COLORS[item.status]}`}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                  {item.error && (
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {item.error}
+                    </p>
+                  )}
+                  {item.issues?.map((issue, i) => (
+                    <p key={i} className="text-xs text-amber-700 mt-0.5">
+                      {PackageValidatorService.describe(issue)}
+                    </p>
+                  ))}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {item.blob && (
+                    <div className="inline-flex flex-col items-end gap-1">
+                      <button
+                        onClick={() => handleDownload(item)}
+                        className="inline-flex items-center text-brand-600 hover:text-brand-700 font-medium"
+                      >
+                        <Icons.Download className="w-4 h-4 mr-1" />
+                        Download
+                      </button>
+                      <span className="text-xs text-slate-500">
+                        Audit report:{" "}
+                        <button
+                          onClick={() => handleDownloadReport(item, "html")}
+                          className="font-medium text-brand-600 hover:text-brand-700"
+                        >
+                          HTML
+                        </button>{" "}
+                        <button
+                          onClick={() => handleDownloadReport(item, "json")}
+                          className="font-medium text-brand-600 hover:text-brand-700"
+                        >
+                          JSON
+                        </button>
+                      </span>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-center gap-4 mt-8">
+        <button
+          onClick={handleDownloadAll}
+          disabled={isRunning || isZipping || done.length === 0}
+          className="inline-flex items-center justify-center px-8 py-4 border border-transparent text-lg font-medium rounded-lg text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 shadow-lg hover:shadow-xl disabled:opacity-50 transition-all"
+        >
+          <Icons.Download className="w-5 h-5 mr-2" />
+          {isZipping ? "Creating ZIP..." : "Download All (.zip)"}
+        </button>
+
+        <button
+          onClick={onReset}
+          className="inline-flex items-center justify-center px-8 py-4 border border-slate-300 text-lg font-medium rounded-lg text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-slate-500 transition-all"
+        >
+          Process Other Files
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useState, useCallback } from "react";
+import saveAs from "file-saver";
+import { Icons } from "./Icons";
+import { InspectorCategory, InspectorFinding } from "../types";
+import { ExcelService } from "../services/excelService";
+import { ExcelWorkerClient } from "../services/excelWorkerClient";
+import { PackageValidatorService } from "../services/packageValidator";
+
+// In the order of Excel's Document Inspector, with what cleaning does
+const CATEGORIES: {
+  id: InspectorCategory;
+  label: string;
+  action: string;
+}[] = [
+  {
+    id: "comments",
+    label: "Comments and notes",
+    action: "Removed with their authors",
+  },
+  {
+    id: "hiddenRowsColumns",
+    label: "Hidden rows and columns",
+    action: "Their cells are deleted; formulas using them return errors",
+  },
+  {
+    id: "hiddenSheets",
+    label: "Hidden sheets",
+    action: "Deleted with their data; formulas using them return errors",
+  },
+  {
+    id: "hiddenNames",
+    label: "Hidden names",
+    action: "Deleted; formulas using them return #NAME?",
+  },
+  { id: "customXml", label: "Custom XML data", action: "Removed" },
+  {
+    id: "externalLinks",
+    label: "External links",
+    action: "Removed; formulas keep their last values",
+  },
+  { id: "thumbnail", label: "Thumbnail", action: "Removed" },
+  { id: "printerSettings", label: "Printer settings", action: "Removed" },
+];
+
+interface DocumentInspectorProps {
+  addNotification: (
+    type: "success" | "error" | "info" | "loading",
+    message: string,
+  ) => string;
+}
+
+export const DocumentInspector: React.FC<DocumentInspectorProps> = ({
+  addNotification,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [findings, setFindings] = useState<InspectorFinding[] | null>(null);
+  const [selected, setSelected] = useState<InspectorCategory[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [processStep, setProcessStep] = useState("");
+
+  const handleFile = async (f: File) => {
+    if (!ExcelService.isModernExcelFile(f.name)) {
+      addNotification(
+        "error",
+        "Please upload a modern Excel file (.xlsx, .xlsm, .xltx, .xltm or .xlam).",
+      );
+      return;
+    }
+
+    setFile(f);
+    setIsLoading(true);
+
+    try {
+      const found = await ExcelWorkerClient.run("inspectDocument", [f]);
+      setFindings(found);
+      // Preselect every category that was found
+      setSelected(
+        CATEGORIES.map((c) => c.id).filter((id) =>
+          found.some((finding) => finding.category === id),
+        ),
+      );
+    } catch (error: any) {
+      addNotification("error", "Failed to inspect workbook: " + error.message);
+      setFile(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (f) await handleFile(f);
+    e.target.value = "";
+  };
+
+  const onDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const onDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  }, []);
+
+  const onDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const f = e.dataTransfer.files?.[0];
+    if (f) handleFile(f);
+  }, []);
+
+  const handleCleanAndDownload = async () => {
+    if (!file || selected.length === 0) return;
+    setIsCleaning(true);
+
+    try {
+      const { blob, cleaned, formulasConverted } = await ExcelWorkerClient.run(
+        "cleanDocument",
+        [file, selected],
+        setProcessStep,
+      );
+
+      const issues = await ExcelWorkerClient.run("validatePackage", [
+        file,
+        blob,
+      ]);
+      const error = issues.find((issue) => issue.severity === "error");
+      if (error) {
+        addNotification(
+          "error",
+          "The cleaned file failed validation and was not downloaded: " +
+            PackageValidatorService.describe(error),
+        );
+        return;
+      }
+
+      const ext = ExcelService.getExtension(file.name);
+      const baseName = file.name.slice(0, -ext.length);
+      const newName = `${baseName}_cleaned${ext}`;
+
+      saveAs(blob, newName);
+      addNotification(
+        "success",
+        formulasConverted > 0
+          ? `Cleaned ${cleaned.length} item(s) and replaced ${formulasConverted} linked formula(s) with their values. Downloaded ${newName}.`
+          : `Cleaned ${cleaned.length} item(s). Downloaded ${newName}.`,
+      );
+    } catch (error: any) {
+      addNotification(
+        "error",
+        "Failed to clean the workbook: " + error.message,
+      );
+    } finally {
+      setIsCleaning(false);
+      setProcessStep("");
+    }
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setFindings(null);
+    setSelected([]);
+  };
+
+  // Upload state
+  if (!file) {
+    return (
+      <div className="w-full">
+        <label
+          htmlFor="inspect-file-upload"
+          className={`group relative flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-300 ${
+            isDragging
+              ? "border-brand-500 bg-brand-50 scale-[1.02] shadow-lg"
+              : "border-slate-300 bg-slate-50 hover:bg-brand-50 hover:border-brand-300"
+          }`}
+          onDragOver={onDragOver}
+          onDragEnter={onDragOver}
+          onDragLeave={onDragLeave}
+          onDrop={onDrop}
+        >
+          <div className="flex flex-col items-center justify-center pt-5 pb-6">
+            <div
+              className={`p-4 rounded-full shadow-sm mb-4 transition-transform duration-300 ${
+                isDragging
+                  ? "bg-brand-100 scale-110"
+                  : "bg-white group-hover:scale-110"
+              }`}
+            >
+              <Icons.Upload
+                className={`w-8 h-8 ${isDragging ? "text-brand-600" : "text-brand-500"}`}
+              />
+            </div>
+            <p
+              className={`mb-2 text-lg font-medium ${isDragging ? "text-brand-700" : "text-slate-700"}`}
+            >
+              {isDragging
+                ? "Drop file here"
+                : "Click to upload or drag and drop"}
+            </p>
+            <p
+              className={`text-sm ${isDragging ? "text-brand-600" : "text-slate-500"}`}
+            >
+              Modern Excel files (.xlsx, .xlsm, .xltx, .xltm, .xlam)
+            </p>
+          </div>
+          <input
+            id="inspect-file-upload"
+            type="file"
+            className="hidden"
+            accept={ExcelService.MODERN_EXTENSIONS.join(",")}
+            onChange={handleUpload}
+          />
+        </label>
+        <div className="mt-6 flex items-start space-x-3 text-sm text-slate-500 bg-blue-50 p-4 rounded-lg border border-blue-100">
+          <Icons.FileSearch className="w-5 h-5 text-blue-600 flex-shrink-0" />
+          <p>
+            <strong>Inspect &amp; Clean:</strong> Find comments, hidden rows,
+            columns, sheets and names, custom XML, external links, thumbnails
+            and printer settings before you share a workbook, then remove the
+            ones you choose.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Loading state
+  if (isLoading || !findings) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64">
+        <div className="relative w-24 h-24 mb-6">
+          <div className="absolute inset-0 border-4 border-slate-100 rounded-full"></div>
+          <div className="absolute inset-0 border-4 border-brand-500 rounded-full border-t-transparent animate-spin"></div>
+          <Icons.FileSpreadsheet className="absolute inset-0 m-auto w-8 h-8 text-slate-400" />
+        </div>
+        <h3 className="text-xl font-semibold text-slate-800 mb-2">
+          Inspecting Workbook
+        </h3>
+        <p className="text-slate-500 animate-pulse">
+          Looking for hidden content...
+        </p>
+      </div>
+    );
+  }
+
+  // Findings state
+  return (
+    <div>
+      {/* File info bar */}
+      <div className="flex items-center justify-between mb-6 bg-slate-50 rounded-lg p-4 border border-slate-200">
+        <div className="flex items-center space-x-3">
+          <Icons.FileSpreadsheet className="w-8 h-8 text-brand-500" />
+          <div>
+            <p className="font-semibold text-slate-800">{file.name}</p>
+            <p className="text-sm text-slate-500">
+              {findings.length} item{findings.length === 1 ? "" : "s"} found
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleReset}
+          className="text-sm text-slate-500 hover:text-slate-700 underline"
+        >
+          Change file
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">
+            Inspect &amp; Clean
+          </h3>
+          <button
+            onClick={handleCleanAndDownload}
+            disabled={isCleaning || selected.length === 0}
+            className="inline-flex items-center px-5 py-2.5 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 disabled:opacity-50 transition-all"
+          >
+            {isCleaning ? (
+              <>
+                <div className="animate-spin -ml-1 mr-2 h-4 w-4 text-white border-2 border-white rounded-full border-t-transparent"></div>
+                {processStep || "Cleaning..."}
+              </>
+            ) : (
+              <>
+                <Icons.Eraser className="-ml-1 mr-2 h-4 w-4" />
+                Clean &amp; Download
+              </>
+            )}
+          </button>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {CATEGORIES.map((category) => {
+            const items = findings.filter((f) => f.category === category.id);
+            const found = items.length > 0;
+            return (
+              <div key={category.id} className="px-6 py-3">
+                <label
+                  className={`flex items-center ${found ? "cursor-pointer" : "opacity-50"}`}
+                >
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                    checked={found && selected.includes(category.id)}
+                    disabled={!found}
+                    onChange={(e) =>
+                      setSelected(
+                        e.target.checked
+                          ? [...selected, category.id]
+                          : selected.filter((id) => id !== category.id),
+                      )
+                    }
+                  />
+                  <span className="ml-3 text-sm font-medium text-slate-800">
+                    {category.label}
+                  </span>
+                  <span className="ml-2 text-xs text-slate-400">
+                    {found ? category.action : "None found"}
+                  </span>
+                </label>
+                {found && (
+                  <ul className="mt-1 ml-7 space-y-0.5 text-sm">
+                    {items.map((item, i) => (
+                      <li key={i}>
+                        <div className="flex gap-3">
+                          <span className="font-mono text-slate-700 break-all">
+                            {item.location}
+                          </span>
+                          <span className="text-slate-500 break-all">
+                            {item.detail}
+                          </span>
+                        </div>
+                        {item.warning && (
+                          <p className="text-xs text-amber-700 mt-0.5">
+                            {item.warning}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -15,6 +15,14 @@ import {
   Github,
   Linkedin,
   Instagram,
+  Lock,
+  ShieldCheck,
+  ChevronRight,
+  FileDiff,
+  FileSearch,
+  Eraser,
+  Plus,
+  Trash2,
 } from "lucide-react";
 
 export const Icons = {
@@ -33,4 +41,12 @@ export const Icons = {
   Github,
   Linkedin,
   Instagram,
+  Lock,
+  ShieldCheck,
+  ChevronRight,
+  FileDiff,
+  FileSearch,
+  Eraser,
+  Plus,
+  Trash: Trash2,
 };
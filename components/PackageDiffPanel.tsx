@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { Icons } from "./Icons";
+import { DiffLine, PartDiff } from "../types";
+import { ExcelWorkerClient } from "../services/excelWorkerClient";
+
+const STATUS_LABELS: Record<PartDiff["status"], string> = {
+  modified: "Modified",
+  added: "Added",
+  removed: "Removed",
+};
+
+const LINE_STYLES: Record<DiffLine["type"], string> = {
+  context: "text-slate-600",
+  removed: "bg-red-50 text-red-700",
+  added: "bg-green-50 text-green-700",
+  gap: "text-slate-400 italic",
+};
+
+const LINE_MARKERS: Record<DiffLine["type"], string> = {
+  context: " ",
+  removed: "-",
+  added: "+",
+  gap: "…",
+};
+
+interface PackageDiffPanelProps {
+  original: Blob;
+  processed: Blob;
+}
+
+// Lists every part of the package that differs after processing, with the
+// removed and added XML tags of each.
+export const PackageDiffPanel: React.FC<PackageDiffPanelProps> = ({
+  original,
+  processed,
+}) => {
+  const [diffs, setDiffs] = useState<PartDiff[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setDiffs(null);
+    setError(null);
+    ExcelWorkerClient.run(
+      "comparePackages",
+      [original, processed],
+      undefined,
+      controller.signal,
+    ).then(
+      (result) => {
+        setDiffs(result);
+        // A handful of parts are opened right away
+        setExpanded(
+          new Set(result.length <= 3 ? result.map((d) => d.path) : []),
+        );
+      },
+      (err: any) => {
+        if (!ExcelWorkerClient.isAbortError(err)) {
+          setError(err.message || "The files could not be compared.");
+        }
+      },
+    );
+    return () => controller.abort();
+  }, [original, processed]);
+
+  const toggle = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const describeChange = (diff: PartDiff) => {
+    if (!diff.isXml) {
+      return `${diff.originalSize.toLocaleString()} → ${diff.processedSize.toLocaleString()} bytes`;
+    }
+    if (diff.truncated) return "Too many changes to list";
+    return `−${diff.removed} +${diff.added}`;
+  };
+
+  const renderLines = (diff: PartDiff) => {
+    if (!diff.isXml) {
+      return (
+        <p className="px-4 py-3 text-sm text-slate-500">
+          Binary part; only its size is compared.
+        </p>
+      );
+    }
+    if (diff.truncated) {
+      return (
+        <p className="px-4 py-3 text-sm text-slate-500">
+          This part changed in too many places to show every change.
+        </p>
+      );
+    }
+    if (diff.lines.length === 0) {
+      return (
+        <p className="px-4 py-3 text-sm text-slate-500">
+          Only whitespace or encoding changed.
+        </p>
+      );
+    }
+    return (
+      <pre className="text-xs font-mono overflow-x-auto py-2">
+        {diff.lines.map((line, i) => (
+          <div
+            key={i}
+            className={`px-4 whitespace-pre-wrap break-all ${LINE_STYLES[line.type]}`}
+          >
+            <span className="select-none mr-2">{LINE_MARKERS[line.type]}</span>
+            {line.text}
+          </div>
+        ))}
+      </pre>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden mt-8 max-w-2xl mx-auto text-left">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+        <h3 className="flex items-center text-lg font-bold text-slate-800">
+          <Icons.FileDiff className="w-5 h-5 mr-2 text-brand-600" />
+          Changes Made
+        </h3>
+        <span className="text-sm text-slate-500">
+          {diffs ? `${diffs.length} part(s) changed` : ""}
+        </span>
+      </div>
+
+      {error && <p className="p-6 text-sm text-red-600">{error}</p>}
+
+      {!diffs && !error && (
+        <div className="flex items-center p-6 text-sm text-slate-500">
+          <Icons.Loader className="w-4 h-4 mr-2 animate-spin" />
+          Comparing with the original file...
+        </div>
+      )}
+
+      {diffs && diffs.length === 0 && (
+        <p className="p-6 text-sm text-slate-500">
+          The processed file is identical to the original.
+        </p>
+      )}
+
+      {diffs && diffs.length > 0 && (
+        <div className="divide-y divide-slate-100">
+          {diffs.map((diff) => (
+            <div key={diff.path}>
+              <button
+                onClick={() => toggle(diff.path)}
+                className="w-full flex items-center px-6 py-3 text-sm hover:bg-slate-50 transition-colors"
+              >
+                <Icons.ChevronRight
+                  className={`w-4 h-4 mr-2 text-slate-400 transition-transform ${
+                    expanded.has(diff.path) ? "rotate-90" : ""
+                  }`}
+                />
+                <span className="font-mono text-slate-800 break-all text-left">
+                  {diff.path}
+                </span>
+                <span className="ml-auto pl-4 flex-shrink-0 text-xs text-slate-500">
+                  {STATUS_LABELS[diff.status]} • {describeChange(diff)}
+                </span>
+              </button>
+              {expanded.has(diff.path) && (
+                <div className="border-t border-slate-100 bg-slate-50/50">
+                  {renderLines(diff)}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from "react";
+import { Icons } from "./Icons";
+import { PackageIssue } from "../types";
+
+interface PackageIssuesPanelProps {
+  issues: PackageIssue[];
+}
+
+// Problems found when the output package was re-opened before download
+export const PackageIssuesPanel: React.FC<PackageIssuesPanelProps> = ({
+  issues,
+}) => {
+  const hasErrors = issues.some((issue) => issue.severity === "error");
+
+  return (
+    <div
+      className={`rounded-xl border shadow-sm overflow-hidden mt-8 max-w-2xl mx-auto text-left ${
+        hasErrors ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"
+      }`}
+    >
+      <div className="px-6 py-4 flex items-start">
+        <Icons.AlertCircle
+          className={`w-5 h-5 mr-3 mt-0.5 flex-shrink-0 ${
+            hasErrors ? "text-red-600" : "text-amber-600"
+          }`}
+        />
+        <div>
+          <h3 className="font-bold text-slate-800">
+            {hasErrors
+              ? "The processed file failed validation"
+              : "The processed file has warnings"}
+          </h3>
+          <p className="text-sm text-slate-600 mt-1">
+            {hasErrors
+              ? "Excel would likely refuse to open it, so it was not downloaded."
+              : "Excel should still open it. Problems marked as pre-existing were already in the uploaded file."}
+          </p>
+        </div>
+      </div>
+      <ul className="border-t border-black/5 divide-y divide-black/5 text-sm">
+        {issues.map((issue, i) => (
+          <li key={i} className="px-6 py-2 flex items-baseline gap-3">
+            <span
+              className={`text-xs font-semibold uppercase flex-shrink-0 ${
+                issue.severity === "error" ? "text-red-700" : "text-amber-700"
+              }`}
+            >
+              {issue.severity}
+            </span>
+            <span className="text-slate-700">
+              {issue.part && (
+                <span className="font-mono break-all">{issue.part}: </span>
+              )}
+              {issue.message}
+              {issue.preexisting && (
+                <span className="text-slate-500"> (pre-existing)</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import { Icons } from "./Icons";
+import { PasswordCheck, PasswordCheckResult, PasswordMatch } from "../types";
+import { ExcelWorkerClient } from "../services/excelWorkerClient";
+
+const MATCH_LABELS: Record<PasswordMatch, string> = {
+  match: "Password matches",
+  noMatch: "Does not match",
+  noPassword: "No password set",
+  unsupported: "Algorithm not supported",
+};
+
+interface PasswordCheckPanelProps {
+  file: File;
+}
+
+export const PasswordCheckPanel: React.FC<PasswordCheckPanelProps> = ({
+  file,
+}) => {
+  const [password, setPassword] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const [processStep, setProcessStep] = useState("");
+  const [result, setResult] = useState<PasswordCheckResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      setResult(
+        await ExcelWorkerClient.run(
+          "verifyPassword",
+          [file, password],
+          setProcessStep,
+        ),
+      );
+    } catch (err: any) {
+      setResult(null);
+      setError(err.message || "The password could not be checked.");
+    } finally {
+      setIsChecking(false);
+      setProcessStep("");
+    }
+  };
+
+  const renderCheck = (check: PasswordCheck) => (
+    <div key={check.path} className="flex items-center py-1">
+      {check.result === "match" || check.result === "noPassword" ? (
+        <Icons.CheckCircle className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" />
+      ) : (
+        <Icons.AlertCircle
+          className={`w-4 h-4 mr-2 flex-shrink-0 ${check.result === "noMatch" ? "text-red-500" : "text-slate-400"}`}
+        />
+      )}
+      <span className="text-sm font-medium text-slate-800">{check.name}</span>
+      <span className="ml-2 text-xs text-slate-400">
+        {[
+          MATCH_LABELS[check.result],
+          check.result !== "noPassword" &&
+            (check.algorithmName || "Legacy hash"),
+        ]
+          .filter(Boolean)
+          .join(" • ")}
+      </span>
+    </div>
+  );
+
+  const checks = result
+    ? [...(result.workbook ? [result.workbook] : []), ...result.sheets]
+    : [];
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden mb-8 max-w-2xl mx-auto text-left">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-200">
+        <h3 className="text-lg font-bold text-slate-800">Check a Password</h3>
+        <p className="text-sm text-slate-500">
+          Confirm a known or guessed password before removing protection.
+        </p>
+      </div>
+      <div className="p-6">
+        <form onSubmit={handleCheck} className="flex gap-3">
+          <input
+            type="password"
+            autoComplete="off"
+            placeholder="Password"
+            className="flex-1 text-sm text-slate-800 border border-slate-200 rounded-md px-3 py-1.5 h-9 focus:ring-brand-500 focus:border-brand-500 focus:outline-none"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={isChecking}
+            className="inline-flex items-center px-4 h-9 border border-slate-300 text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-50 transition-colors"
+          >
+            {isChecking ? (
+              <>
+                <div className="animate-spin -ml-1 mr-2 h-4 w-4 border-2 border-slate-400 rounded-full border-t-transparent"></div>
+                {processStep || "Checking..."}
+              </>
+            ) : (
+              "Check"
+            )}
+          </button>
+        </form>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        {result && (
+          <div className="mt-4">
+            {checks.length > 0 ? (
+              checks.map(renderCheck)
+            ) : (
+              <p className="text-sm text-slate-500">
+                No password-protected parts were found.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
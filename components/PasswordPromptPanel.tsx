@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import { Icons } from "./Icons";
+
+interface PasswordPromptPanelProps {
+  fileName: string;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export const PasswordPromptPanel: React.FC<PasswordPromptPanelProps> = ({
+  fileName,
+  onSubmit,
+  onCancel,
+}) => {
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(password);
+  };
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-xl p-6 text-left animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-start mb-4">
+        <div className="p-2 bg-orange-100 rounded-lg mr-3">
+          <Icons.Lock className="w-6 h-6 text-orange-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-orange-900">
+            Password Required
+          </h3>
+          <p className="text-orange-800 mt-1">
+            <strong>{fileName}</strong> is encrypted with a "Password to Open".
+            Enter the password to decrypt it. The copy you download will open
+            without a password.
+          </p>
+        </div>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg p-4 border border-orange-100 shadow-sm flex gap-3"
+      >
+        <input
+          type="password"
+          autoFocus
+          autoComplete="off"
+          placeholder="Password to open"
+          className="flex-1 text-sm text-slate-800 border border-slate-200 rounded-md px-3 py-2 focus:ring-brand-500 focus:border-brand-500 focus:outline-none"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <button
+          type="submit"
+          className="inline-flex items-center px-5 py-2 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 transition-all"
+        >
+          <Icons.Unlock className="-ml-1 mr-2 h-4 w-4" />
+          Decrypt
+        </button>
+      </form>
+
+      <button
+        onClick={onCancel}
+        className="mt-6 w-full py-3 bg-white border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+      >
+        Choose Another File
+      </button>
+    </div>
+  );
+};
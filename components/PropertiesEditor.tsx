@@ -2,8 +2,106 @@ import React, { useState, useCallback, useEffect } from "react";
 import * as XLSX from "xlsx";
 import saveAs from "file-saver";
 import { Icons } from "./Icons";
-import { ExcelProperties } from "../types";
+import { CustomProperty, CustomPropertyType, ExcelProperties } from "../types";
 import { ExcelService } from "../services/excelService";
+import { ExcelWorkerClient } from "../services/excelWorkerClient";
+import { PackageValidatorService } from "../services/packageValidator";
+
+// Names SheetJS gives the built-in .xls properties. It reads user-defined
+// properties into the same object, so anything else is a custom property.
+const XLS_BUILT_IN_PROPERTIES = new Set([
+  "CodePage",
+  "Title",
+  "Subject",
+  "Author",
+  "Keywords",
+  "Comments",
+  "Template",
+  "LastAuthor",
+  "RevNumber",
+  "Revision",
+  "EditTime",
+  "LastPrinted",
+  "CreatedDate",
+  "ModifiedDate",
+  "PageCount",
+  "WordCount",
+  "CharCount",
+  "Thumbnail",
+  "Application",
+  "DocSecurity",
+  "Category",
+  "PresentationFormat",
+  "ByteCount",
+  "LineCount",
+  "ParagraphCount",
+  "SlideCount",
+  "NoteCount",
+  "HiddenCount",
+  "MultimediaClipCount",
+  "ScaleCrop",
+  "HeadingPairs",
+  "TitlesOfParts",
+  "Manager",
+  "Company",
+  "LinksUpToDate",
+  "CharacterCount",
+  "SharedDoc",
+  "HyperlinksChanged",
+  "AppVersion",
+  "DigSig",
+  "ContentType",
+  "ContentStatus",
+  "Language",
+  "Version",
+  "Locale",
+  "Behavior",
+  "SystemIdentifier",
+  "FMTID",
+  "_PID_LINKBASE",
+  "_PID_HLINKS",
+  "Worksheets",
+  "SheetNames",
+  "NamedRanges",
+  "DefinedNames",
+  "Chartsheets",
+  "ChartNames",
+]);
+
+const CUSTOM_TYPE_LABELS: Record<CustomPropertyType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Yes or no",
+};
+
+// Carries a value over when its type changes; values that do not convert
+// fall back to a default
+const convertCustomValue = (
+  value: CustomProperty["value"],
+  type: CustomPropertyType,
+): CustomProperty["value"] => {
+  switch (type) {
+    case "number":
+      return typeof value === "number" ||
+        (typeof value === "string" && value.trim() !== "" && !isNaN(+value))
+        ? Number(value)
+        : 0;
+    case "date": {
+      if (value instanceof Date) return value;
+      const date = new Date(String(value));
+      return typeof value === "string" && !isNaN(date.getTime())
+        ? date
+        : new Date();
+    }
+    case "boolean":
+      return typeof value === "string"
+        ? /^(true|yes|1)$/i.test(value.trim())
+        : value === true || value === 1;
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+};
 
 interface PropertiesEditorProps {
   addNotification: (
@@ -25,7 +123,10 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
 
   const handleFile = async (f: File) => {
     const lowerName = f.name.toLowerCase();
-    if (!lowerName.endsWith(".xlsx") && !lowerName.endsWith(".xls")) {
+    if (
+      !ExcelService.isModernExcelFile(lowerName) &&
+      !lowerName.endsWith(".xls")
+    ) {
       addNotification("error", "Please upload an Excel file (.xlsx or .xls).");
       return;
     }
@@ -44,6 +145,20 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
         const p = wb.Props || {};
         const cp = wb.Custprops || {};
 
+        const custom: CustomProperty[] = [];
+        for (const [name, value] of Object.entries(cp)) {
+          if (XLS_BUILT_IN_PROPERTIES.has(name)) continue;
+          if (value instanceof Date) {
+            custom.push({ name, type: "date", value });
+          } else if (typeof value === "number") {
+            custom.push({ name, type: "number", value });
+          } else if (typeof value === "boolean") {
+            custom.push({ name, type: "boolean", value });
+          } else if (typeof value === "string") {
+            custom.push({ name, type: "text", value });
+          }
+        }
+
         props = {
           title: p.Title,
           subject: p.Subject,
@@ -62,10 +177,11 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
           programName: p.Application,
           lastPrinted: p.LastPrinted ? new Date(p.LastPrinted) : undefined,
           language: p.Language,
+          custom,
         };
       } else {
         // Use existing JSZip approach for .xlsx files
-        props = await ExcelService.getProperties(f);
+        props = await ExcelWorkerClient.run("getProperties", [f]);
       }
 
       setEditedProps(props);
@@ -109,8 +225,60 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
     setEditedProps((prev) => ({ ...prev, [field]: value }));
   };
 
+  const customProps = editedProps.custom ?? [];
+
+  const updateCustomProp = (index: number, changes: Partial<CustomProperty>) =>
+    handleChange(
+      "custom",
+      customProps.map((prop, i) =>
+        i === index ? { ...prop, ...changes } : prop,
+      ),
+    );
+
+  // Null when every custom property can be saved
+  const findCustomPropError = (): string | null => {
+    const names = new Set<string>();
+    for (const prop of customProps) {
+      const name = prop.name.trim();
+      if (!name) return "Every custom property needs a name.";
+      if (names.has(name.toLowerCase())) {
+        return `There is more than one custom property named "${name}".`;
+      }
+      names.add(name.toLowerCase());
+      if (isXls && XLS_BUILT_IN_PROPERTIES.has(name)) {
+        return `"${name}" is the name of a built-in property.`;
+      }
+      if (
+        prop.type === "number" &&
+        (String(prop.value).trim() === "" || !isFinite(Number(prop.value)))
+      ) {
+        return `Custom property "${name}" needs a number.`;
+      }
+      if (
+        prop.type === "date" &&
+        !(prop.value instanceof Date && !isNaN(prop.value.getTime()))
+      ) {
+        return `Custom property "${name}" needs a date.`;
+      }
+    }
+    return null;
+  };
+
   const handleSaveAndDownload = async () => {
     if (!file) return;
+
+    const customError = findCustomPropError();
+    if (customError) {
+      addNotification("error", customError);
+      return;
+    }
+    // Numbers are kept as typed while editing
+    const custom = editedProps.custom?.map((prop) => ({
+      ...prop,
+      name: prop.name.trim(),
+      value: convertCustomValue(prop.value, prop.type),
+    }));
+
     setIsSaving(true);
 
     try {
@@ -139,6 +307,15 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
         wb.Props.Application = editedProps.programName || "";
         wb.Props.Language = editedProps.language || "";
 
+        // SheetJS writes Custprops entries missing from Props as
+        // user-defined properties, so the old ones are dropped from Props
+        for (const name of Object.keys(wb.Props)) {
+          if (!XLS_BUILT_IN_PROPERTIES.has(name)) delete wb.Props[name];
+        }
+        wb.Custprops = Object.fromEntries(
+          (custom ?? []).map((prop) => [prop.name, prop.value]),
+        );
+
         // Write back as .xls (BIFF8)
         const wbout = XLSX.write(wb, { bookType: "xls", type: "array" });
         outputBlob = new Blob([wbout], {
@@ -146,11 +323,27 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
         });
       } else {
         // Use existing JSZip approach for .xlsx
-        outputBlob = await ExcelService.updateProperties(file, editedProps);
+        outputBlob = await ExcelWorkerClient.run("updateProperties", [
+          file,
+          { ...editedProps, custom },
+        ]);
+        const issues = await ExcelWorkerClient.run("validatePackage", [
+          file,
+          outputBlob,
+        ]);
+        const error = issues.find((issue) => issue.severity === "error");
+        if (error) {
+          addNotification(
+            "error",
+            "The edited file failed validation and was not downloaded: " +
+              PackageValidatorService.describe(error),
+          );
+          return;
+        }
       }
 
-      const ext = lowerName.endsWith(".xls") ? ".xls" : ".xlsx";
-      const baseName = file.name.replace(/\.(xlsx|xls)$/i, "");
+      const ext = ExcelService.getExtension(file.name);
+      const baseName = file.name.slice(0, -ext.length);
       const newName = `${baseName}_edited${ext}`;
 
       saveAs(outputBlob, newName);
@@ -235,6 +428,108 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
     </div>
   );
 
+  const inputClass =
+    "text-sm text-slate-800 border border-slate-200 rounded-md px-3 py-1.5 h-8 focus:ring-brand-500 focus:border-brand-500 focus:outline-none";
+
+  const renderCustomValue = (prop: CustomProperty, index: number) => {
+    switch (prop.type) {
+      case "date": {
+        const date = prop.value as Date;
+        return (
+          <input
+            type="datetime-local"
+            className={`flex-1 min-w-0 ${inputClass}`}
+            value={toDatetimeLocal(isNaN(date.getTime()) ? undefined : date)}
+            onChange={(e) =>
+              updateCustomProp(index, { value: new Date(e.target.value) })
+            }
+          />
+        );
+      }
+      case "boolean":
+        return (
+          <select
+            className={`flex-1 min-w-0 ${inputClass}`}
+            value={prop.value ? "true" : "false"}
+            onChange={(e) =>
+              updateCustomProp(index, { value: e.target.value === "true" })
+            }
+          >
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        );
+      default:
+        return (
+          <input
+            type={prop.type === "number" ? "number" : "text"}
+            className={`flex-1 min-w-0 ${inputClass}`}
+            placeholder="Value"
+            value={String(prop.value)}
+            onChange={(e) => updateCustomProp(index, { value: e.target.value })}
+          />
+        );
+    }
+  };
+
+  const renderCustomRows = () => (
+    <>
+      {customProps.map((prop, index) => (
+        <div key={index} className="flex py-2 items-center gap-2">
+          <input
+            type="text"
+            className={`w-1/3 ${inputClass}`}
+            placeholder="Name"
+            value={prop.name}
+            onChange={(e) => updateCustomProp(index, { name: e.target.value })}
+          />
+          <select
+            className={`w-28 ${inputClass}`}
+            value={prop.type}
+            onChange={(e) => {
+              const type = e.target.value as CustomPropertyType;
+              updateCustomProp(index, {
+                type,
+                value: convertCustomValue(prop.value, type),
+              });
+            }}
+          >
+            {Object.entries(CUSTOM_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {renderCustomValue(prop, index)}
+          <button
+            onClick={() =>
+              handleChange(
+                "custom",
+                customProps.filter((_, i) => i !== index),
+              )
+            }
+            className="p-1.5 text-slate-400 hover:text-red-600 rounded-md"
+            title="Delete property"
+          >
+            <Icons.Trash className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() =>
+          handleChange("custom", [
+            ...customProps,
+            { name: "", type: "text", value: "" },
+          ])
+        }
+        className="inline-flex items-center mt-1 text-sm font-medium text-brand-600 hover:text-brand-700"
+      >
+        <Icons.Plus className="w-4 h-4 mr-1" />
+        Add property
+      </button>
+    </>
+  );
+
   const renderReadOnlyRow = (
     label: string,
     value: string | undefined | null,
@@ -304,7 +599,7 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
             id="props-file-upload"
             type="file"
             className="hidden"
-            accept=".xlsx,.xls"
+            accept={[...ExcelService.MODERN_EXTENSIONS, ".xls"].join(",")}
             onChange={handleUpload}
           />
         </label>
@@ -418,6 +713,8 @@ export const PropertiesEditor: React.FC<PropertiesEditorProps> = ({
             </>,
           )}
 
+          {renderSection("Custom", renderCustomRows())}
+
           {renderSection(
             "File",
             <>
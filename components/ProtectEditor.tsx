@@ -0,0 +1,413 @@
+import React, { useState, useCallback } from "react";
+import saveAs from "file-saver";
+import { Icons } from "./Icons";
+import { ProtectionReport } from "../types";
+import { ExcelService } from "../services/excelService";
+import { ExcelWorkerClient } from "../services/excelWorkerClient";
+import { PackageValidatorService } from "../services/packageValidator";
+
+// Wording of Excel's "Protect Sheet" dialog
+const ACTION_LABELS: Record<string, string> = {
+  selectLockedCells: "Select locked cells",
+  selectUnlockedCells: "Select unlocked cells",
+  formatCells: "Format cells",
+  formatColumns: "Format columns",
+  formatRows: "Format rows",
+  insertColumns: "Insert columns",
+  insertRows: "Insert rows",
+  insertHyperlinks: "Insert hyperlinks",
+  deleteColumns: "Delete columns",
+  deleteRows: "Delete rows",
+  sort: "Sort",
+  autoFilter: "Use AutoFilter",
+  pivotTables: "Use PivotTable & PivotChart",
+  objects: "Edit objects",
+  scenarios: "Edit scenarios",
+};
+
+interface ProtectEditorProps {
+  addNotification: (
+    type: "success" | "error" | "info" | "loading",
+    message: string,
+  ) => string;
+}
+
+export const ProtectEditor: React.FC<ProtectEditorProps> = ({
+  addNotification,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ProtectionReport | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [processStep, setProcessStep] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [lockWorkbook, setLockWorkbook] = useState(true);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [allowedActions, setAllowedActions] = useState<string[]>(
+    ExcelService.DEFAULT_ALLOWED_ACTIONS,
+  );
+
+  const handleFile = async (f: File) => {
+    if (!ExcelService.isModernExcelFile(f.name)) {
+      addNotification(
+        "error",
+        "Please upload a modern Excel file (.xlsx, .xlsm, .xltx, .xltm or .xlam).",
+      );
+      return;
+    }
+
+    setFile(f);
+    setIsLoading(true);
+
+    try {
+      const inspected = await ExcelWorkerClient.run("inspectFile", [f]);
+      setReport(inspected);
+      setSelectedSheets(inspected.sheets.map((s) => s.path));
+    } catch (error: any) {
+      addNotification("error", "Failed to read workbook: " + error.message);
+      setFile(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (f) await handleFile(f);
+    e.target.value = "";
+  };
+
+  const onDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const onDragLeave = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  }, []);
+
+  const onDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const f = e.dataTransfer.files?.[0];
+    if (f) handleFile(f);
+  }, []);
+
+  const toggle = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter((v) => v !== value);
+
+  const passwordsMatch = password === confirmPassword;
+  const canProtect =
+    passwordsMatch && (lockWorkbook || selectedSheets.length > 0);
+
+  const handleProtectAndDownload = async () => {
+    if (!file || !canProtect) return;
+    setIsSaving(true);
+
+    try {
+      const { blob, workbookProtected, sheetsProtected } =
+        await ExcelWorkerClient.run(
+          "protectFile",
+          [
+            file,
+            {
+              password,
+              workbook: lockWorkbook,
+              sheets: selectedSheets,
+              allowedActions,
+            },
+          ],
+          setProcessStep,
+        );
+
+      const issues = await ExcelWorkerClient.run("validatePackage", [
+        file,
+        blob,
+      ]);
+      const error = issues.find((issue) => issue.severity === "error");
+      if (error) {
+        addNotification(
+          "error",
+          "The protected file failed validation and was not downloaded: " +
+            PackageValidatorService.describe(error),
+        );
+        return;
+      }
+
+      const ext = ExcelService.getExtension(file.name);
+      const baseName = file.name.slice(0, -ext.length);
+      const newName = `${baseName}_protected${ext}`;
+
+      saveAs(blob, newName);
+      const parts = [
+        workbookProtected && "the workbook structure",
+        sheetsProtected > 0 &&
+          `${sheetsProtected} sheet${sheetsProtected === 1 ? "" : "s"}`,
+      ].filter(Boolean);
+      addNotification(
+        "success",
+        `Protected ${parts.join(" and ")}. Downloaded ${newName}.`,
+      );
+    } catch (error: any) {
+      addNotification("error", "Failed to apply protection: " + error.message);
+    } finally {
+      setIsSaving(false);
+      setProcessStep("");
+    }
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setReport(null);
+    setPassword("");
+    setConfirmPassword("");
+    setLockWorkbook(true);
+    setSelectedSheets([]);
+    setAllowedActions(ExcelService.DEFAULT_ALLOWED_ACTIONS);
+  };
+
+  const renderCheckbox = (
+    key: string,
+    label: string,
+    hint: string,
+    checked: boolean,
+    onToggle: (checked: boolean) => void,
+  ) => (
+    <label key={key} className="flex items-center py-1.5 cursor-pointer">
+      <input
+        type="checkbox"
+        className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+        checked={checked}
+        onChange={(e) => onToggle(e.target.checked)}
+      />
+      <span className="ml-3 text-sm font-medium text-slate-800">{label}</span>
+      <span className="ml-2 text-xs text-slate-400">{hint}</span>
+    </label>
+  );
+
+  const renderPasswordRow = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+  ) => (
+    <div className="flex py-2 items-start">
+      <label className="w-1/3 text-slate-500 text-sm mt-1">{label}</label>
+      <div className="w-2/3">
+        <input
+          type="password"
+          autoComplete="new-password"
+          className="w-full text-sm text-slate-800 border border-slate-200 rounded-md px-3 py-1.5 h-8 focus:ring-brand-500 focus:border-brand-500 focus:outline-none"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      </div>
+    </div>
+  );
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <div className="mb-5">
+      <h4 className="text-brand-600 font-semibold border-b border-brand-100 mb-2 pb-1 text-sm uppercase tracking-wider">
+        {title}
+      </h4>
+      <div className="space-y-1">{children}</div>
+    </div>
+  );
+
+  // Upload state
+  if (!file) {
+    return (
+      <div className="w-full">
+        <label
+          htmlFor="protect-file-upload"
+          className={`group relative flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-300 ${
+            isDragging
+              ? "border-brand-500 bg-brand-50 scale-[1.02] shadow-lg"
+              : "border-slate-300 bg-slate-50 hover:bg-brand-50 hover:border-brand-300"
+          }`}
+          onDragOver={onDragOver}
+          onDragEnter={onDragOver}
+          onDragLeave={onDragLeave}
+          onDrop={onDrop}
+        >
+          <div className="flex flex-col items-center justify-center pt-5 pb-6">
+            <div
+              className={`p-4 rounded-full shadow-sm mb-4 transition-transform duration-300 ${
+                isDragging
+                  ? "bg-brand-100 scale-110"
+                  : "bg-white group-hover:scale-110"
+              }`}
+            >
+              <Icons.Upload
+                className={`w-8 h-8 ${isDragging ? "text-brand-600" : "text-brand-500"}`}
+              />
+            </div>
+            <p
+              className={`mb-2 text-lg font-medium ${isDragging ? "text-brand-700" : "text-slate-700"}`}
+            >
+              {isDragging
+                ? "Drop file here"
+                : "Click to upload or drag and drop"}
+            </p>
+            <p
+              className={`text-sm ${isDragging ? "text-brand-600" : "text-slate-500"}`}
+            >
+              Modern Excel files (.xlsx, .xlsm, .xltx, .xltm, .xlam)
+            </p>
+          </div>
+          <input
+            id="protect-file-upload"
+            type="file"
+            className="hidden"
+            accept={ExcelService.MODERN_EXTENSIONS.join(",")}
+            onChange={handleUpload}
+          />
+        </label>
+        <div className="mt-6 flex items-start space-x-3 text-sm text-slate-500 bg-blue-50 p-4 rounded-lg border border-blue-100">
+          <Icons.Lock className="w-5 h-5 text-blue-600 flex-shrink-0" />
+          <p>
+            <strong>Protect:</strong> Lock the workbook structure and your
+            sheets again with a password. Hashes are generated exactly like
+            Excel does (SHA-512, random salt, 100,000 spins).
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Loading state
+  if (isLoading || !report) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64">
+        <div className="relative w-24 h-24 mb-6">
+          <div className="absolute inset-0 border-4 border-slate-100 rounded-full"></div>
+          <div className="absolute inset-0 border-4 border-brand-500 rounded-full border-t-transparent animate-spin"></div>
+          <Icons.FileSpreadsheet className="absolute inset-0 m-auto w-8 h-8 text-slate-400" />
+        </div>
+        <h3 className="text-xl font-semibold text-slate-800 mb-2">
+          Reading Workbook
+        </h3>
+        <p className="text-slate-500 animate-pulse">Listing sheets...</p>
+      </div>
+    );
+  }
+
+  // Editor state
+  return (
+    <div>
+      {/* File info bar */}
+      <div className="flex items-center justify-between mb-6 bg-slate-50 rounded-lg p-4 border border-slate-200">
+        <div className="flex items-center space-x-3">
+          <Icons.FileSpreadsheet className="w-8 h-8 text-brand-500" />
+          <div>
+            <p className="font-semibold text-slate-800">{file.name}</p>
+            <p className="text-sm text-slate-500">
+              {report.sheets.length} sheet
+              {report.sheets.length === 1 ? "" : "s"}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleReset}
+          className="text-sm text-slate-500 hover:text-slate-700 underline"
+        >
+          Change file
+        </button>
+      </div>
+
+      {/* Protection form */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Apply Protection</h3>
+          <button
+            onClick={handleProtectAndDownload}
+            disabled={isSaving || !canProtect}
+            className="inline-flex items-center px-5 py-2.5 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 disabled:opacity-50 transition-all"
+          >
+            {isSaving ? (
+              <>
+                <div className="animate-spin -ml-1 mr-2 h-4 w-4 text-white border-2 border-white rounded-full border-t-transparent"></div>
+                {processStep || "Protecting..."}
+              </>
+            ) : (
+              <>
+                <Icons.Lock className="-ml-1 mr-2 h-4 w-4" />
+                Protect &amp; Download
+              </>
+            )}
+          </button>
+        </div>
+        <div className="p-6">
+          {renderSection(
+            "Password",
+            <>
+              {renderPasswordRow("Password", password, setPassword)}
+              {renderPasswordRow(
+                "Confirm password",
+                confirmPassword,
+                setConfirmPassword,
+              )}
+              {!passwordsMatch && (
+                <p className="text-sm text-red-600">
+                  The passwords do not match.
+                </p>
+              )}
+              {passwordsMatch && !password && (
+                <p className="text-sm text-slate-400">
+                  Leave empty to protect without a password.
+                </p>
+              )}
+            </>,
+          )}
+
+          {renderSection(
+            "Workbook",
+            renderCheckbox(
+              "workbook",
+              "Protect workbook structure",
+              report.workbook ? "Replaces the existing protection" : "",
+              lockWorkbook,
+              setLockWorkbook,
+            ),
+          )}
+
+          {renderSection(
+            "Sheets",
+            report.sheets.map((sheet) =>
+              renderCheckbox(
+                sheet.path,
+                sheet.name,
+                sheet.protection
+                  ? "Replaces the existing protection"
+                  : sheet.path,
+                selectedSheets.includes(sheet.path),
+                (checked) =>
+                  setSelectedSheets(
+                    toggle(selectedSheets, sheet.path, checked),
+                  ),
+              ),
+            ),
+          )}
+
+          {renderSection(
+            "Allow all users of the sheets to",
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6">
+              {Object.keys(ACTION_LABELS).map((action) =>
+                renderCheckbox(
+                  action,
+                  ACTION_LABELS[action],
+                  "",
+                  allowedActions.includes(action),
+                  (checked) =>
+                    setAllowedActions(toggle(allowedActions, action, checked)),
+                ),
+              )}
+            </div>,
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React from "react";
+import { ProtectionDetails, ProtectionReport, SheetKind } from "../types";
+import { Icons } from "./Icons";
+
+const SHEET_KIND_LABELS: Record<SheetKind, string> = {
+  worksheet: "Worksheet",
+  chartsheet: "Chart sheet",
+  dialogsheet: "Dialog sheet",
+  macrosheet: "Macro sheet",
+};
+
+interface ProtectionReportPanelProps {
+  report: ProtectionReport;
+}
+
+export const ProtectionReportPanel: React.FC<ProtectionReportPanelProps> = ({
+  report,
+}) => {
+  const protectedSheets = report.sheets.filter((s) => s.protection);
+
+  const describeHash = (details: ProtectionDetails) => {
+    if (details.algorithmName) {
+      const parts = [details.algorithmName];
+      if (details.spinCount !== undefined) {
+        parts.push(`${details.spinCount.toLocaleString()} spins`);
+      }
+      parts.push(details.hasSalt ? "salted" : "no salt");
+      return parts.join(" • ");
+    }
+    if (details.legacyPassword) {
+      return `Legacy password hash (${details.legacyPassword})`;
+    }
+    return "No password";
+  };
+
+  const renderRow = (label: string, value: React.ReactNode) => (
+    <div className="flex py-1">
+      <div className="w-1/3 text-slate-500 text-sm">{label}</div>
+      <div className="w-2/3 text-slate-800 text-sm font-medium break-words">
+        {value}
+      </div>
+    </div>
+  );
+
+  const renderSection = (
+    title: string,
+    subtitle: string,
+    isProtected: boolean,
+    children?: React.ReactNode,
+  ) => (
+    <div className="mb-4">
+      <h4 className="flex items-center text-brand-600 font-semibold border-b border-brand-100 mb-2 pb-1 text-sm">
+        {isProtected ? (
+          <Icons.Lock className="w-4 h-4 mr-2 text-orange-500" />
+        ) : (
+          <Icons.ShieldCheck className="w-4 h-4 mr-2 text-green-500" />
+        )}
+        <span>{title}</span>
+        <span className="ml-2 text-xs font-normal text-slate-400">
+          {subtitle}
+        </span>
+      </h4>
+      {children && <div className="space-y-1">{children}</div>}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden mt-8 max-w-2xl mx-auto text-left">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+        <h3 className="text-lg font-bold text-slate-800">Protection Report</h3>
+        <span className="text-sm text-slate-500">
+          {protectedSheets.length} of {report.sheets.length} sheets protected
+        </span>
+      </div>
+      <div className="p-6">
+        {renderSection(
+          "Workbook",
+          "xl/workbook.xml",
+          !!report.workbook,
+          report.workbook && (
+            <>
+              {renderRow("Hash", describeHash(report.workbook))}
+              {renderRow(
+                "Locks",
+                [
+                  report.workbook.lockStructure && "Structure",
+                  report.workbook.lockWindows && "Windows",
+                  report.workbook.lockRevision && "Revisions",
+                ]
+                  .filter(Boolean)
+                  .join(", ") || "None",
+              )}
+            </>
+          ),
+        )}
+
+        {report.fileSharing &&
+          renderSection(
+            "File Sharing",
+            "Read-only recommended / password to modify",
+            true,
+            <>
+              {renderRow(
+                "Password to modify",
+                report.fileSharing.hasHash || report.fileSharing.legacyPassword
+                  ? describeHash(report.fileSharing)
+                  : "None",
+              )}
+              {renderRow(
+                "Read-only recommended",
+                report.fileSharing.readOnlyRecommended ? "Yes" : "No",
+              )}
+              {report.fileSharing.userName &&
+                renderRow("Reserved by", report.fileSharing.userName)}
+            </>,
+          )}
+
+        {report.vbaProject &&
+          renderSection(
+            "VBA Project",
+            report.vbaProject.path,
+            report.vbaProject.isLocked,
+            report.vbaProject.error
+              ? renderRow("Not inspected", report.vbaProject.error)
+              : report.vbaProject.isLocked &&
+                  renderRow(
+                    "Lock",
+                    report.vbaProject.hasPassword
+                      ? "Locked for viewing with a password"
+                      : "Locked for viewing",
+                  ),
+          )}
+
+        {report.sheets.map((sheet) => (
+          <React.Fragment key={sheet.path}>
+            {renderSection(
+              sheet.name,
+              [
+                SHEET_KIND_LABELS[sheet.kind],
+                sheet.state === "hidden" && "Hidden",
+                sheet.state === "veryHidden" && "Very hidden",
+                sheet.path,
+              ]
+                .filter(Boolean)
+                .join(" • "),
+              !!sheet.protection || sheet.protectedRanges.length > 0,
+              (sheet.protection || sheet.protectedRanges.length > 0) && (
+                <>
+                  {sheet.protection && (
+                    <>
+                      {renderRow("Hash", describeHash(sheet.protection))}
+                      {renderRow(
+                        "Allowed actions",
+                        sheet.protection.allowedActions.join(", ") || "None",
+                      )}
+                    </>
+                  )}
+                  {sheet.protectedRanges.map((range, i) => (
+                    <React.Fragment key={i}>
+                      {renderRow(
+                        `Protected range ${range.name || i + 1}`,
+                        `${range.sqref} • ${describeHash(range)}${
+                          range.hasSecurityDescriptor
+                            ? " • security descriptor"
+                            : ""
+                        }`,
+                      )}
+                    </React.Fragment>
+                  ))}
+                </>
+              ),
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
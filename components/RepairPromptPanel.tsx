@@ -0,0 +1,46 @@
+import React from "react";
+import { Icons } from "./Icons";
+
+interface RepairPromptPanelProps {
+  fileName: string;
+  onRepair: () => void;
+  onCancel: () => void;
+}
+
+export const RepairPromptPanel: React.FC<RepairPromptPanelProps> = ({
+  fileName,
+  onRepair,
+  onCancel,
+}) => (
+  <div className="bg-orange-50 border border-orange-200 rounded-xl p-6 text-left animate-in fade-in slide-in-from-bottom-4">
+    <div className="flex items-start mb-4">
+      <div className="p-2 bg-orange-100 rounded-lg mr-3">
+        <Icons.AlertCircle className="w-6 h-6 text-orange-600" />
+      </div>
+      <div>
+        <h3 className="text-lg font-bold text-orange-900">File Is Damaged</h3>
+        <p className="text-orange-800 mt-1">
+          <strong>{fileName}</strong> could not be opened. This usually means
+          the download or email attachment was cut off. We can try to recover
+          every part that is still readable and rebuild the rest of the package
+          structure; anything that cannot be recovered will be listed.
+        </p>
+      </div>
+    </div>
+
+    <button
+      onClick={onRepair}
+      className="w-full inline-flex items-center justify-center py-3 border border-transparent font-medium rounded-lg shadow-sm text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 transition-all"
+    >
+      <Icons.Sparkles className="-ml-1 mr-2 h-4 w-4" />
+      Attempt Repair
+    </button>
+
+    <button
+      onClick={onCancel}
+      className="mt-3 w-full py-3 bg-white border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-50 transition-colors"
+    >
+      Choose Another File
+    </button>
+  </div>
+);
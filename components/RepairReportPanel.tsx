@@ -0,0 +1,65 @@
+import React from "react";
+import { Icons } from "./Icons";
+import { RepairReport } from "../types";
+
+interface RepairReportPanelProps {
+  report: RepairReport;
+}
+
+// What the repair of a damaged upload recovered, regenerated and lost
+export const RepairReportPanel: React.FC<RepairReportPanelProps> = ({
+  report,
+}) => {
+  const hasLosses = report.lostParts.length > 0;
+
+  return (
+    <div
+      className={`rounded-xl border shadow-sm overflow-hidden mt-8 max-w-2xl mx-auto text-left ${
+        hasLosses
+          ? "bg-amber-50 border-amber-200"
+          : "bg-green-50 border-green-200"
+      }`}
+    >
+      <div className="px-6 py-4 flex items-start">
+        <Icons.Sparkles
+          className={`w-5 h-5 mr-3 mt-0.5 flex-shrink-0 ${
+            hasLosses ? "text-amber-600" : "text-green-600"
+          }`}
+        />
+        <div>
+          <h3 className="font-bold text-slate-800">
+            {hasLosses
+              ? "Repaired with some parts lost"
+              : "Repaired without losses"}
+          </h3>
+          <p className="text-sm text-slate-600 mt-1">
+            {report.recoveredParts.length} part(s) recovered
+            {report.rebuiltParts.length > 0 &&
+              `, ${report.rebuiltParts.length} rebuilt`}
+            . Check the downloaded copy in Excel before relying on it.
+          </p>
+        </div>
+      </div>
+      {(hasLosses || report.rebuiltParts.length > 0) && (
+        <ul className="border-t border-black/5 divide-y divide-black/5 text-sm">
+          {report.lostParts.map((part) => (
+            <li key={`lost-${part}`} className="px-6 py-2 flex gap-3">
+              <span className="text-xs font-semibold uppercase text-amber-700 w-14 flex-shrink-0">
+                Lost
+              </span>
+              <span className="font-mono text-slate-700 break-all">{part}</span>
+            </li>
+          ))}
+          {report.rebuiltParts.map((part) => (
+            <li key={`rebuilt-${part}`} className="px-6 py-2 flex gap-3">
+              <span className="text-xs font-semibold uppercase text-slate-500 w-14 flex-shrink-0">
+                Rebuilt
+              </span>
+              <span className="font-mono text-slate-700 break-all">{part}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React from "react";
+import { ProtectionReport, UnprotectOptions } from "../types";
+
+interface UnprotectOptionsPanelProps {
+  report: ProtectionReport;
+  options: UnprotectOptions;
+  onChange: (options: UnprotectOptions) => void;
+}
+
+export const UnprotectOptionsPanel: React.FC<UnprotectOptionsPanelProps> = ({
+  report,
+  options,
+  onChange,
+}) => {
+  const selectedSheets = options.sheets || [];
+  const protectedSheets = report.sheets.filter(
+    (s) => s.protection || s.protectedRanges.length > 0,
+  );
+  const hiddenSheets = report.sheets.filter((s) => s.state !== "visible");
+  const unhideSheets = options.unhideSheets || [];
+  const rangeCount = report.sheets.reduce(
+    (n, s) => n + s.protectedRanges.length,
+    0,
+  );
+  const cells = report.cellProtection;
+
+  const toggleSheet = (path: string, checked: boolean) => {
+    onChange({
+      ...options,
+      sheets: checked
+        ? [...selectedSheets, path]
+        : selectedSheets.filter((p) => p !== path),
+    });
+  };
+
+  const setAllSheets = (checked: boolean) => {
+    onChange({
+      ...options,
+      sheets: checked ? protectedSheets.map((s) => s.path) : [],
+    });
+  };
+
+  const renderCheckbox = (
+    key: string,
+    label: string,
+    hint: string,
+    checked: boolean,
+    disabled: boolean,
+    onToggle: (checked: boolean) => void,
+  ) => (
+    <label
+      key={key}
+      className={`flex items-center py-1.5 ${disabled ? "opacity-50" : "cursor-pointer"}`}
+    >
+      <input
+        type="checkbox"
+        className="h-4 w-4 rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onToggle(e.target.checked)}
+      />
+      <span className="ml-3 text-sm font-medium text-slate-800">{label}</span>
+      <span className="ml-2 text-xs text-slate-400">{hint}</span>
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden mb-8 max-w-2xl mx-auto text-left">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+        <h3 className="text-lg font-bold text-slate-800">What to Unprotect</h3>
+        {protectedSheets.length > 1 && (
+          <button
+            onClick={() =>
+              setAllSheets(selectedSheets.length < protectedSheets.length)
+            }
+            className="text-sm text-slate-500 hover:text-slate-700 underline"
+          >
+            {selectedSheets.length < protectedSheets.length
+              ? "Select all sheets"
+              : "Clear sheets"}
+          </button>
+        )}
+      </div>
+      <div className="p-6">
+        <div className="mb-4">
+          <h4 className="text-brand-600 font-semibold border-b border-brand-100 mb-2 pb-1 text-sm">
+            Workbook
+          </h4>
+          {renderCheckbox(
+            "workbook",
+            "Workbook structure protection",
+            report.workbook ? "" : "Not protected",
+            !!report.workbook && (options.workbook ?? true),
+            !report.workbook,
+            (checked) => onChange({ ...options, workbook: checked }),
+          )}
+          {report.fileSharing &&
+            renderCheckbox(
+              "fileSharing",
+              "Read-only recommendation & password to modify",
+              report.fileSharing.userName
+                ? `Reserved by ${report.fileSharing.userName}`
+                : "",
+              options.fileSharing ?? true,
+              false,
+              (checked) => onChange({ ...options, fileSharing: checked }),
+            )}
+          {hiddenSheets.map((sheet) =>
+            renderCheckbox(
+              `unhide:${sheet.path}`,
+              `Unhide "${sheet.name}"`,
+              sheet.state === "veryHidden"
+                ? "Very hidden (cannot be unhidden in Excel)"
+                : "Hidden",
+              unhideSheets.includes(sheet.path),
+              false,
+              (checked) =>
+                onChange({
+                  ...options,
+                  unhideSheets: checked
+                    ? [...unhideSheets, sheet.path]
+                    : unhideSheets.filter((p) => p !== sheet.path),
+                }),
+            ),
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-brand-600 font-semibold border-b border-brand-100 mb-2 pb-1 text-sm">
+            Sheets
+          </h4>
+          {report.sheets.map((sheet) => {
+            const isProtected = protectedSheets.includes(sheet);
+            return renderCheckbox(
+              sheet.path,
+              sheet.name,
+              isProtected ? sheet.path : "Not protected",
+              isProtected && selectedSheets.includes(sheet.path),
+              !isProtected,
+              (checked) => toggleSheet(sheet.path, checked),
+            );
+          })}
+        </div>
+
+        {(rangeCount > 0 || report.vbaProject || cells) && (
+          <div className="mt-4">
+            <h4 className="text-brand-600 font-semibold border-b border-brand-100 mb-2 pb-1 text-sm">
+              Also Remove
+            </h4>
+            {rangeCount > 0 &&
+              renderCheckbox(
+                "protectedRanges",
+                "Protected ranges (allow-edit ranges)",
+                `${rangeCount} found`,
+                options.protectedRanges ?? true,
+                false,
+                (checked) => onChange({ ...options, protectedRanges: checked }),
+              )}
+            {report.vbaProject &&
+              renderCheckbox(
+                "vbaProject",
+                "Unlock VBA project",
+                report.vbaProject.error
+                  ? "Could not be read"
+                  : report.vbaProject.isLocked
+                    ? report.vbaProject.path
+                    : "Not protected",
+                report.vbaProject.isLocked && !!options.vbaProject,
+                !report.vbaProject.isLocked,
+                (checked) => onChange({ ...options, vbaProject: checked }),
+              )}
+            {cells &&
+              renderCheckbox(
+                "unlockCells",
+                "Unlock all cells",
+                `${cells.locked} of ${cells.formats} cell formats locked`,
+                cells.locked > 0 && !!options.unlockCells,
+                cells.locked === 0,
+                (checked) => onChange({ ...options, unlockCells: checked }),
+              )}
+            {cells &&
+              renderCheckbox(
+                "revealFormulas",
+                "Reveal hidden formulas",
+                cells.hidden > 0 ? `${cells.hidden} found` : "None hidden",
+                cells.hidden > 0 && !!options.revealFormulas,
+                cells.hidden === 0,
+                (checked) => onChange({ ...options, revealFormulas: checked }),
+              )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
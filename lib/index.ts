@@ -0,0 +1,199 @@
+/**
+ * Library entry point: the ExcelService operations over raw bytes, usable in
+ * Node.js (20+), browsers and workers alike. Failures about the input are
+ * thrown as the typed errors exported below.
+ */
+
+import { CompoundFile } from "../services/compoundFile";
+import { EncryptedPackageService } from "../services/encryptedPackage";
+import { UnsupportedFormatError } from "../services/errors";
+import { ExcelService } from "../services/excelService";
+import { PackageRepairService } from "../services/packageRepair";
+import {
+  ExcelProperties,
+  PasswordCheckResult,
+  ProgressCallback,
+  ProtectOptions,
+  ProtectResult,
+  ProtectionReport,
+  RepairReport,
+  UnprotectOptions,
+  UnprotectResult,
+} from "../types";
+
+export {
+  CorruptPackageError,
+  EncryptedFileError,
+  ExcelFileError,
+  IncorrectPasswordError,
+  InvalidPropertyError,
+  UnsupportedFormatError,
+} from "../services/errors";
+export type {
+  CellProtectionInfo,
+  CustomProperty,
+  CustomPropertyType,
+  ExcelProperties,
+  FileSharingInfo,
+  PasswordCheck,
+  PasswordCheckResult,
+  PasswordMatch,
+  ProgressCallback,
+  ProgressInfo,
+  ProtectedRangeInfo,
+  ProtectionChange,
+  ProtectionChangeKind,
+  ProtectionDetails,
+  ProtectionReport,
+  ProtectOptions,
+  RepairReport,
+  SheetKind,
+  SheetProtectionInfo,
+  SheetReport,
+  SheetState,
+  UnprotectOptions,
+  VbaProjectInfo,
+  WorkbookProtectionInfo,
+} from "../types";
+
+export type BinaryInput = Uint8Array | ArrayBuffer;
+
+export interface LibraryOptions {
+  onProgress?: ProgressCallback;
+}
+
+export type UnprotectOutput = Omit<UnprotectResult, "blob"> & {
+  data: Uint8Array;
+};
+
+export type ProtectOutput = Omit<ProtectResult, "blob"> & { data: Uint8Array };
+
+export interface RepairOutput {
+  data: Uint8Array;
+  report: RepairReport;
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b]; // "PK"
+
+const toBytes = (data: BinaryInput): Uint8Array =>
+  data instanceof Uint8Array ? data : new Uint8Array(data);
+
+const fromBlob = async (blob: Blob): Promise<Uint8Array> =>
+  new Uint8Array(await blob.arrayBuffer());
+
+// ExcelService picks the format from the file name, so the name is derived
+// from the signature: a ZIP package, an encrypted package or a BIFF8 .xls.
+const toFile = (data: BinaryInput): File => {
+  const bytes = toBytes(data);
+  let name: string;
+  if (ZIP_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    name = "workbook.xlsx";
+  } else if (CompoundFile.hasSignature(bytes)) {
+    name = EncryptedPackageService.isEncryptedPackage(bytes)
+      ? "workbook.xlsx"
+      : "workbook.xls";
+  } else {
+    throw new UnsupportedFormatError(
+      "The data is neither an Excel package (.xlsx, .xlsm, ...) nor an Excel 97-2003 workbook.",
+    );
+  }
+  return new File([bytes], name);
+};
+
+const toModernFile = (data: BinaryInput): File => {
+  const file = toFile(data);
+  if (ExcelService.isLegacyExcelFile(file.name)) {
+    throw new UnsupportedFormatError(
+      "Properties can only be read and written in .xlsx-based workbooks.",
+    );
+  }
+  return file;
+};
+
+/** True for workbooks encrypted with a "Password to Open". */
+export const isEncrypted = (data: BinaryInput): Promise<boolean> =>
+  ExcelService.isEncrypted(toFile(data));
+
+/** Decrypts a "Password to Open" workbook into its plain package. */
+export const decrypt = async (
+  data: BinaryInput,
+  password: string,
+  { onProgress }: LibraryOptions = {},
+): Promise<Uint8Array> =>
+  fromBlob(await ExcelService.decryptFile(toFile(data), password, onProgress));
+
+/** Reports the protection found without changing anything. */
+export const inspect = (
+  data: BinaryInput,
+  { onProgress }: LibraryOptions = {},
+): Promise<ProtectionReport> =>
+  ExcelService.inspectFile(toFile(data), onProgress);
+
+/**
+ * Removes protection; `changes` lists every removal made. Encrypted
+ * workbooks need `options.password`.
+ */
+export const unprotect = async (
+  data: BinaryInput,
+  { onProgress = () => {}, ...options }: UnprotectOptions & LibraryOptions = {},
+): Promise<UnprotectOutput> => {
+  const { blob, ...result } = await ExcelService.unprotectFile(
+    toFile(data),
+    onProgress,
+    options,
+  );
+  return { ...result, data: await fromBlob(blob) };
+};
+
+/** Protects the workbook structure and the selected sheets. */
+export const protect = async (
+  data: BinaryInput,
+  { onProgress = () => {}, ...options }: ProtectOptions & LibraryOptions,
+): Promise<ProtectOutput> => {
+  const { blob, ...result } = await ExcelService.protectFile(
+    toFile(data),
+    onProgress,
+    options,
+  );
+  return { ...result, data: await fromBlob(blob) };
+};
+
+/**
+ * Salvages the readable parts of a damaged or truncated package and
+ * regenerates missing content types and relationships.
+ */
+export const repair = async (
+  data: BinaryInput,
+  { onProgress }: LibraryOptions = {},
+): Promise<RepairOutput> => {
+  const file = toFile(data);
+  if (ExcelService.isLegacyExcelFile(file.name)) {
+    throw new UnsupportedFormatError(
+      "Only .xlsx-based workbooks can be repaired.",
+    );
+  }
+  const result = await PackageRepairService.repair(file, onProgress);
+  return { data: await fromBlob(result.file), report: result.report };
+};
+
+/** Checks a password against the workbook and each protected sheet. */
+export const verifyPassword = (
+  data: BinaryInput,
+  password: string,
+  { onProgress }: LibraryOptions = {},
+): Promise<PasswordCheckResult> =>
+  ExcelService.verifyPassword(toFile(data), password, onProgress);
+
+export const getProperties = (data: BinaryInput): Promise<ExcelProperties> =>
+  ExcelService.getProperties(toModernFile(data));
+
+/**
+ * Writes the given core and extended properties; others are kept. `custom`
+ * replaces the user-defined properties, creating or rewriting
+ * docProps/custom.xml.
+ */
+export const setProperties = async (
+  data: BinaryInput,
+  props: ExcelProperties,
+): Promise<Uint8Array> =>
+  fromBlob(await ExcelService.updateProperties(toModernFile(data), props));
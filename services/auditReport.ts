@@ -0,0 +1,262 @@
+import {
+  AuditFileInfo,
+  AuditReport,
+  ExcelProperties,
+  PropertyChange,
+  ProtectionChange,
+  ProtectionChangeKind,
+  ProtectionReport,
+} from "../types";
+
+// Same labels as the properties panels
+const PROPERTY_LABELS: Record<
+  Exclude<keyof ExcelProperties, "custom">,
+  string
+> = {
+  title: "Title",
+  subject: "Subject",
+  creator: "Authors",
+  keywords: "Tags",
+  description: "Comments",
+  lastModifiedBy: "Last saved by",
+  created: "Content created",
+  modified: "Date last saved",
+  category: "Categories",
+  contentStatus: "Content status",
+  company: "Company",
+  manager: "Manager",
+  revision: "Revision number",
+  version: "Version number",
+  programName: "Program name",
+  lastPrinted: "Last printed",
+  scale: "Scale crop",
+  linksDirty: "Links need updating",
+  language: "Language",
+};
+
+const CHANGE_LABELS: Record<ProtectionChangeKind, string> = {
+  workbookProtectionRemoved: "Workbook structure protection removed",
+  sheetProtectionRemoved: "Sheet protection removed",
+  protectedRangeRemoved: "Protected range removed",
+  sheetUnhidden: "Sheet unhidden",
+  vbaProjectUnlocked: "VBA project unlocked",
+  fileSharingRemoved: "Password to modify / read-only recommendation removed",
+  cellsUnlocked: "Cell formats unlocked",
+  formulasRevealed: "Hidden formulas revealed",
+};
+
+export interface AuditInput {
+  input: File; // As uploaded (still encrypted for "Password to Open" files)
+  output: Blob;
+  outputName: string;
+  passwordToOpenRemoved: boolean;
+  protectionsFound: ProtectionReport | null;
+  protectionsRemoved: ProtectionChange[];
+  originalProps: ExcelProperties | null;
+  editedProps: ExcelProperties | null;
+}
+
+/**
+ * Builds the record kept for compliance whenever a file is processed:
+ * hashes of both files, the protection removed and the properties edited.
+ */
+export class AuditReportService {
+  static async create(audit: AuditInput): Promise<AuditReport> {
+    return {
+      generatedAt: new Date().toISOString(),
+      input: await this.describeFile(audit.input, audit.input.name),
+      output: await this.describeFile(audit.output, audit.outputName),
+      passwordToOpenRemoved: audit.passwordToOpenRemoved,
+      protectionsFound: audit.protectionsFound,
+      protectionsRemoved: audit.protectionsRemoved,
+      propertyChanges:
+        audit.originalProps && audit.editedProps
+          ? this.compareProperties(audit.originalProps, audit.editedProps)
+          : [],
+    };
+  }
+
+  static toJson(report: AuditReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /** A standalone page that can be printed or archived as is. */
+  static toHtml(report: AuditReport): string {
+    const e = this.escapeHtml;
+    const fileRows = (label: string, info: AuditFileInfo) => `
+      <tr><th>${label}</th><td>${e(info.name)}</td></tr>
+      <tr><th>Size</th><td>${info.size.toLocaleString("en-US")} bytes</td></tr>
+      <tr><th>SHA-256</th><td><code>${info.sha256}</code></td></tr>`;
+    const list = (items: string[], empty: string) =>
+      items.length > 0
+        ? `<ul>${items.map((item) => `<li>${e(item)}</li>`).join("")}</ul>`
+        : `<p class="none">${empty}</p>`;
+    const propertyRows = report.propertyChanges
+      .map(
+        (change) =>
+          `<tr><td>${e(change.field === "custom" ? `Custom property "${change.name}"` : PROPERTY_LABELS[change.field])}</td><td>${e(change.before ?? "—")}</td><td>${e(change.after ?? "—")}</td></tr>`,
+      )
+      .join("");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Audit report: ${e(report.input.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #1e293b; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: .25rem; }
+  table { border-collapse: collapse; width: 100%; font-size: .9rem; }
+  th, td { text-align: left; padding: .35rem .5rem; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  th { color: #64748b; font-weight: 500; width: 10rem; }
+  code { font-size: .8rem; word-break: break-all; }
+  .none { color: #64748b; }
+</style>
+</head>
+<body>
+<h1>Excel Unprotect audit report</h1>
+<p>Generated ${e(report.generatedAt)}</p>
+<h2>Files</h2>
+<table>${fileRows("Input", report.input)}${fileRows("Output", report.output)}</table>
+<h2>Protection found</h2>
+${list(this.describeProtections(report), "No protection was found.")}
+<h2>Changes made</h2>
+${list(
+  [
+    ...(report.passwordToOpenRemoved
+      ? ['"Password to Open" encryption removed']
+      : []),
+    ...report.protectionsRemoved.map((change) => this.describeChange(change)),
+  ],
+  "No protection was removed.",
+)}
+<h2>Properties changed</h2>
+${
+  propertyRows
+    ? `<table><tr><th>Property</th><th>Before</th><th>After</th></tr>${propertyRows}</table>`
+    : '<p class="none">No properties were changed.</p>'
+}
+</body>
+</html>
+`;
+  }
+
+  static describeChange(change: ProtectionChange): string {
+    const target = [change.sheet, change.detail].filter(Boolean).join(": ");
+    const where = change.path ? ` (${change.path})` : "";
+    return `${CHANGE_LABELS[change.kind]}${target ? ` — ${target}` : ""}${where}`;
+  }
+
+  private static describeProtections(report: AuditReport): string[] {
+    const items: string[] = [];
+    if (report.passwordToOpenRemoved) {
+      items.push('"Password to Open" encryption');
+    }
+    const found = report.protectionsFound;
+    if (!found) return items;
+    if (found.workbook) {
+      items.push(
+        `Workbook structure protection${found.workbook.algorithmName ? ` (${found.workbook.algorithmName})` : ""}`,
+      );
+    }
+    if (found.fileSharing) {
+      items.push("Password to modify / read-only recommendation");
+    }
+    if (found.vbaProject?.isLocked) {
+      items.push(`Locked VBA project (${found.vbaProject.path})`);
+    } else if (found.vbaProject?.error) {
+      items.push(
+        `VBA project not inspected (${found.vbaProject.path}): ${found.vbaProject.error}`,
+      );
+    }
+    if (found.cellProtection?.hidden) {
+      items.push(
+        `Hidden formulas in ${found.cellProtection.hidden} cell format(s)`,
+      );
+    }
+    for (const sheet of found.sheets) {
+      if (sheet.protection) {
+        items.push(
+          `Sheet protection — ${sheet.name}${sheet.protection.algorithmName ? ` (${sheet.protection.algorithmName})` : ""}`,
+        );
+      }
+      for (const range of sheet.protectedRanges) {
+        items.push(
+          `Protected range — ${sheet.name}: ${range.name} (${range.sqref})`,
+        );
+      }
+      if (sheet.state !== "visible") {
+        items.push(
+          `${sheet.state === "veryHidden" ? "Very hidden" : "Hidden"} sheet — ${sheet.name}`,
+        );
+      }
+    }
+    return items;
+  }
+
+  private static compareProperties(
+    original: ExcelProperties,
+    edited: ExcelProperties,
+  ): PropertyChange[] {
+    const changes: PropertyChange[] = [];
+    for (const field of Object.keys(PROPERTY_LABELS) as Exclude<
+      keyof ExcelProperties,
+      "custom"
+    >[]) {
+      const before = this.formatValue(original[field]);
+      const after = this.formatValue(edited[field]);
+      if (before !== after) changes.push({ field, before, after });
+    }
+
+    // Custom properties are matched by name; values carry their type
+    const customValue = (props: ExcelProperties, name: string) => {
+      const property = props.custom?.find((p) => p.name === name);
+      return property
+        ? `${this.formatValue(property.value) ?? ""} (${property.type})`
+        : null;
+    };
+    const names = new Set(
+      [...(original.custom ?? []), ...(edited.custom ?? [])].map((p) => p.name),
+    );
+    for (const name of names) {
+      const before = customValue(original, name);
+      const after = customValue(edited, name);
+      if (before !== after) {
+        changes.push({ field: "custom", name, before, after });
+      }
+    }
+    return changes;
+  }
+
+  private static formatValue(
+    value: string | number | Date | boolean | undefined,
+  ) {
+    if (value === undefined || value === "") return null;
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value.toISOString();
+    }
+    return String(value);
+  }
+
+  private static async describeFile(
+    blob: Blob,
+    name: string,
+  ): Promise<AuditFileInfo> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      await blob.arrayBuffer(),
+    );
+    const sha256 = Array.from(new Uint8Array(digest), (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("");
+    return { name, size: blob.size, sha256 };
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -0,0 +1,248 @@
+import { CFB } from "xlsx";
+import { CorruptPackageError, UnsupportedFormatError } from "./errors";
+
+// Minimal view of the SheetJS CFB container we rely on
+export interface CfbEntry {
+  name: string;
+  content: Uint8Array;
+  size: number;
+}
+
+export interface CfbContainer {
+  FullPaths: string[];
+  FileIndex: CfbEntry[];
+}
+
+// OLE Signature: D0 CF 11 E0 A1 B1 1A E1
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// [MS-CFB] sector markers and directory entry types
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const STORAGE_OBJECT = 1;
+const ROOT_STORAGE = 5;
+const STREAM_OBJECT = 2;
+
+// Where a stream's bytes live: its sectors and the table that chains them
+interface StreamLocation {
+  chain: number[];
+  sectorSize: number;
+  offsetOf: (sector: number) => number; // File offset of a sector
+  writeTable: (index: number, value: number) => void;
+}
+
+/**
+ * Thin wrapper over the SheetJS CFB library for reading OLE compound files
+ * (vbaProject.bin, .xls, encrypted packages). Streams are rewritten in
+ * place, so the rest of the container stays byte-for-byte identical.
+ */
+export class CompoundFile {
+  static hasSignature(header: Uint8Array): boolean {
+    return OLE_SIGNATURE.every((byte, i) => header[i] === byte);
+  }
+
+  static read(bytes: Uint8Array, description: string): CfbContainer {
+    try {
+      return CFB.read(bytes, { type: "array" });
+    } catch (e) {
+      throw new CorruptPackageError(`The ${description} could not be read.`);
+    }
+  }
+
+  /** Finds a stream by its path from the root, e.g. "/PROJECT". */
+  static findStream(cfb: CfbContainer, path: string): CfbEntry | null {
+    const entry = CFB.find(cfb, path) as CfbEntry | null;
+    if (!entry) return null;
+    // SheetJS may hand back plain number arrays depending on the input type
+    if (!(entry.content instanceof Uint8Array)) {
+      entry.content = Uint8Array.from(entry.content ?? []);
+    }
+    return entry;
+  }
+
+  /**
+   * Returns a copy of the compound file with one stream's content replaced
+   * in the sectors it already occupies. The content may not be longer than
+   * the stream; sectors a shorter stream no longer needs are freed.
+   */
+  static overwriteStream(
+    bytes: Uint8Array,
+    path: string,
+    content: Uint8Array,
+  ): Uint8Array {
+    const out = bytes.slice();
+    const view = new DataView(out.buffer);
+    if (!this.hasSignature(out) || out.length < 512) {
+      throw new CorruptPackageError("The compound file header is damaged.");
+    }
+
+    const sectorSize = 1 << view.getUint16(0x1e, true);
+    const miniSectorSize = 1 << view.getUint16(0x20, true);
+    const miniStreamCutoff = view.getUint32(0x38, true);
+    const offsetOf = (sector: number) => (sector + 1) * sectorSize;
+    const readChain = (table: number[], start: number) => {
+      const chain: number[] = [];
+      for (
+        let sector = start;
+        sector < table.length && chain.length <= table.length;
+        sector = table[sector]
+      ) {
+        chain.push(sector);
+      }
+      return chain;
+    };
+
+    // FAT sectors are listed in the header, then in the DIFAT sector chain
+    const fatSectors: number[] = [];
+    for (let i = 0; i < 109; i++)
+      fatSectors.push(view.getUint32(0x4c + i * 4, true));
+    let difat = view.getUint32(0x44, true);
+    for (
+      let n = view.getUint32(0x48, true);
+      n > 0 && difat < END_OF_CHAIN;
+      n--
+    ) {
+      const base = offsetOf(difat);
+      for (let i = 0; i < sectorSize / 4 - 1; i++) {
+        fatSectors.push(view.getUint32(base + i * 4, true));
+      }
+      difat = view.getUint32(base + sectorSize - 4, true);
+    }
+    const fatPositions: number[] = [];
+    for (const sector of fatSectors.slice(0, view.getUint32(0x2c, true))) {
+      for (let i = 0; i < sectorSize / 4; i++) {
+        fatPositions.push(offsetOf(sector) + i * 4);
+      }
+    }
+    const fat = fatPositions.map((pos) =>
+      pos + 4 <= out.length ? view.getUint32(pos, true) : FREE_SECTOR,
+    );
+
+    // Directory entries, 128 bytes each
+    const directory = readChain(fat, view.getUint32(0x30, true)).flatMap(
+      (sector) =>
+        Array.from(
+          { length: sectorSize / 128 },
+          (_, i) => offsetOf(sector) + i * 128,
+        ),
+    );
+    const nameOf = (entry: number) => {
+      const length = Math.max(0, view.getUint16(entry + 64, true) / 2 - 1);
+      let name = "";
+      for (let i = 0; i < length && i < 32; i++) {
+        name += String.fromCharCode(view.getUint16(entry + i * 2, true));
+      }
+      return name;
+    };
+    // Children of a storage form a tree through their left/right siblings
+    const findChild = (storage: number, name: string): number | null => {
+      const pending = [view.getUint32(storage + 76, true)];
+      while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (id >= directory.length) continue;
+        const entry = directory[id];
+        if (nameOf(entry).toUpperCase() === name.toUpperCase()) return entry;
+        pending.push(
+          view.getUint32(entry + 68, true),
+          view.getUint32(entry + 72, true),
+        );
+      }
+      return null;
+    };
+
+    const root = directory[0];
+    if (root === undefined || out[root + 66] !== ROOT_STORAGE) {
+      throw new CorruptPackageError("The compound file has no root entry.");
+    }
+    let entry: number | null = root;
+    for (const name of path.split("/").filter(Boolean)) {
+      if (
+        entry === null ||
+        (entry !== root && out[entry + 66] !== STORAGE_OBJECT)
+      ) {
+        entry = null;
+        break;
+      }
+      entry = findChild(entry, name);
+    }
+    if (entry === null || entry === root || out[entry + 66] !== STREAM_OBJECT) {
+      throw new CorruptPackageError(`The compound file has no ${path} stream.`);
+    }
+
+    const size = view.getUint32(entry + 120, true);
+    const start = view.getUint32(entry + 116, true);
+    if (content.length > size) {
+      throw new UnsupportedFormatError(
+        `The ${path} stream cannot grow when it is rewritten in place.`,
+      );
+    }
+    if (size >= miniStreamCutoff && content.length < miniStreamCutoff) {
+      // The stream would have to move into the mini stream
+      throw new UnsupportedFormatError(
+        `The ${path} stream cannot shrink below ${miniStreamCutoff} bytes in place.`,
+      );
+    }
+
+    let location: StreamLocation;
+    if (size >= miniStreamCutoff) {
+      location = {
+        chain: readChain(fat, start),
+        sectorSize,
+        offsetOf,
+        writeTable: (index, value) =>
+          view.setUint32(fatPositions[index], value, true),
+      };
+    } else {
+      // Mini sectors are 64-byte slices of the root's mini stream
+      const miniStream = readChain(fat, view.getUint32(root + 116, true));
+      const miniFatPositions = readChain(fat, view.getUint32(0x3c, true))
+        .slice(0, view.getUint32(0x40, true))
+        .flatMap((sector) =>
+          Array.from(
+            { length: sectorSize / 4 },
+            (_, i) => offsetOf(sector) + i * 4,
+          ),
+        );
+      const miniFat = miniFatPositions.map((pos) => view.getUint32(pos, true));
+      location = {
+        chain: readChain(miniFat, start),
+        sectorSize: miniSectorSize,
+        offsetOf: (sector) => {
+          const offset = sector * miniSectorSize;
+          return (
+            offsetOf(miniStream[Math.floor(offset / sectorSize)]) +
+            (offset % sectorSize)
+          );
+        },
+        writeTable: (index, value) =>
+          view.setUint32(miniFatPositions[index], value, true),
+      };
+    }
+
+    const needed = Math.ceil(content.length / location.sectorSize);
+    if (location.chain.length < Math.ceil(size / location.sectorSize)) {
+      throw new CorruptPackageError(`The ${path} stream is truncated.`);
+    }
+    location.chain.slice(0, needed).forEach((sector, i) => {
+      const part = content.subarray(
+        i * location.sectorSize,
+        (i + 1) * location.sectorSize,
+      );
+      const offset = location.offsetOf(sector);
+      out.fill(0, offset, offset + location.sectorSize);
+      out.set(part, offset);
+    });
+
+    // Free the sectors the shorter stream no longer uses
+    if (needed > 0) {
+      location.writeTable(location.chain[needed - 1], END_OF_CHAIN);
+    } else {
+      view.setUint32(entry + 116, END_OF_CHAIN, true);
+    }
+    for (const sector of location.chain.slice(needed)) {
+      location.writeTable(sector, FREE_SECTOR);
+    }
+    view.setUint32(entry + 120, content.length, true);
+    return out;
+  }
+}
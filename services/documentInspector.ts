@@ -0,0 +1,799 @@
+import JSZip from "jszip";
+import { UnsupportedFormatError } from "./errors";
+import { ExcelService, Relationship, SheetPart } from "./excelService";
+import { XmlElement } from "./xmlDom";
+import { XmlElementRange, XmlPart } from "./xmlPart";
+import {
+  CleanResult,
+  InspectorCategory,
+  InspectorFinding,
+  ProgressCallback,
+} from "../types";
+
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const PACKAGE_PATH = ""; // Source of the package relationships, _rels/.rels
+const WORKBOOK_PATH = "xl/workbook.xml";
+
+// External references in formulas: [1]Sheet1!A1, '[1]Q1 Sales'!A1, [1]!Name.
+// Structured references (Table1[Total]) follow a name, so they don't match.
+const EXTERNAL_REFERENCE = /(?:^|[^\w.\]])\[\d+\]/;
+
+// Ranges listed per finding before the rest is only counted
+const MAX_LISTED_RANGES = 8;
+// References to a hidden sheet listed before the rest is only counted
+const MAX_LISTED_REFERENCES = 8;
+
+// Parts opened during one scan. Edits are made on the cached XmlParts and
+// written back at the end; removed parts are deleted from the package.
+interface ScanContext {
+  zip: JSZip;
+  parts: Map<string, XmlPart | null>;
+  removedParts: Set<string>;
+  formulasConverted: number;
+  calcChainStale: boolean; // Cells it lists were removed or converted
+}
+
+const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+const isTrue = (value: string | null) => value === "1" || value === "true";
+
+/**
+ * Finds the hidden and personal content Excel's Document Inspector looks
+ * for and removes the selected categories from modern workbooks.
+ */
+export class DocumentInspectorService {
+  /** Lists the hidden and personal content without changing anything. */
+  static async inspect(
+    file: File,
+    onProgress: ProgressCallback = () => {},
+  ): Promise<InspectorFinding[]> {
+    const context = await this.open(file, onProgress);
+    return this.scan(context, onProgress, null);
+  }
+
+  /**
+   * Removes the selected categories. Like Excel's Document Inspector,
+   * hidden sheets and names are deleted and the cells of hidden rows and
+   * columns are cleared, so formulas that used them return errors once
+   * the workbook recalculates.
+   */
+  static async clean(
+    file: File,
+    categories: InspectorCategory[],
+    onProgress: ProgressCallback = () => {},
+  ): Promise<CleanResult> {
+    const context = await this.open(file, onProgress);
+    const findings = await this.scan(context, onProgress, new Set(categories));
+
+    for (const [path, part] of context.parts) {
+      if (part?.changed && !context.removedParts.has(path)) {
+        ExcelService.writePart(context.zip, path, part.toString());
+      }
+    }
+    onProgress("Repackaging Excel file...");
+    const blob = await ExcelService.generatePackage(
+      file,
+      context.zip,
+      file.type || undefined,
+    );
+
+    onProgress("Completed");
+    return {
+      blob,
+      cleaned: findings.filter((f) => categories.includes(f.category)),
+      formulasConverted: context.formulasConverted,
+    };
+  }
+
+  private static async open(
+    file: File,
+    onProgress: ProgressCallback,
+  ): Promise<ScanContext> {
+    if (!ExcelService.isModernExcelFile(file.name)) {
+      throw new UnsupportedFormatError(
+        "Only .xlsx-based workbooks can be inspected.",
+      );
+    }
+    return {
+      zip: await ExcelService.loadPackage(file, onProgress),
+      parts: new Map(),
+      removedParts: new Set(),
+      formulasConverted: 0,
+      calcChainStale: false,
+    };
+  }
+
+  /**
+   * Collects the findings of every category. When `remove` is given, the
+   * content of those categories is also removed; `null` makes it a dry run.
+   */
+  private static async scan(
+    context: ScanContext,
+    onProgress: ProgressCallback,
+    remove: Set<InspectorCategory> | null,
+  ): Promise<InspectorFinding[]> {
+    const findings: InspectorFinding[] = [];
+    const { zip } = context;
+    const removing = (category: InspectorCategory) => !!remove?.has(category);
+
+    onProgress("Analyzing workbook...");
+    const workbookPart = await this.readPart(context, WORKBOOK_PATH);
+    const sheetParts = await ExcelService.getSheetParts(
+      zip,
+      workbookPart?.doc ?? null,
+    );
+    const workbookRels =
+      (await ExcelService.readRelationships(zip, WORKBOOK_PATH)) ?? [];
+
+    // 1. External links, numbered [1], [2], ... in the order of the
+    // workbook's <externalReference> elements
+    const linkRels = workbookRels.filter((rel) => rel.type === "externalLink");
+    const linkIds = Array.from(
+      workbookPart?.doc.getElementsByTagNameNS("*", "externalReference") ?? [],
+    ).map((el) => this.getRelationshipAttribute(el)?.value);
+    linkRels.sort((a, b) => linkIds.indexOf(a.id) - linkIds.indexOf(b.id));
+    for (const rel of linkRels) {
+      const relsDoc = (
+        await this.readPart(context, ExcelService.getRelsPath(rel.path))
+      )?.doc;
+      const target = Array.from(
+        relsDoc?.getElementsByTagNameNS("*", "Relationship") ?? [],
+      )
+        .find((el) => el.getAttribute("TargetMode") === "External")
+        ?.getAttribute("Target");
+      findings.push({
+        category: "externalLinks",
+        location: rel.path,
+        detail: target ? `Links to ${target}` : "Linked workbook or DDE link",
+      });
+    }
+
+    const removedNames = new Set<number>();
+    const unlinking = linkRels.length > 0 && removing("externalLinks");
+    if (unlinking && workbookPart) {
+      onProgress("Removing external links...");
+      for (const rel of linkRels) {
+        await this.dropRelationship(context, WORKBOOK_PATH, rel.id);
+        await this.removePart(context, rel.path);
+      }
+      workbookPart.removeAll("externalReferences");
+      // Names that refer to a linked workbook would point nowhere
+      const nameRanges = workbookPart.find("definedName");
+      Array.from(
+        workbookPart.doc.getElementsByTagNameNS("*", "definedName"),
+      ).forEach((el, i) => {
+        if (EXTERNAL_REFERENCE.test(el.textContent) && nameRanges[i]) {
+          workbookPart.remove(nameRanges[i]);
+          removedNames.add(i);
+        }
+      });
+    }
+
+    // 2. Hidden sheets, with what would break when they are deleted
+    const removedSheets: number[] = [];
+    for (const part of sheetParts) {
+      if (part.state === "visible") continue;
+      const references = await this.findSheetReferences(
+        context,
+        sheetParts,
+        workbookRels,
+        part.name,
+      );
+      findings.push({
+        category: "hiddenSheets",
+        location: `Sheet "${part.name}"`,
+        detail: part.state === "veryHidden" ? "Very hidden" : "Hidden",
+        ...(references.length > 0 && {
+          warning: `Still used by ${this.formatList(references, MAX_LISTED_REFERENCES)}`,
+        }),
+      });
+      if (
+        removing("hiddenSheets") &&
+        workbookPart &&
+        part.sheetIndex !== undefined
+      ) {
+        const rel = workbookRels.find((r) => r.path === part.path);
+        if (rel) await this.dropRelationship(context, WORKBOOK_PATH, rel.id);
+        await this.removePart(context, part.path);
+        removedSheets.push(part.sheetIndex);
+      }
+    }
+    if (workbookPart && removedSheets.length > 0) {
+      ExcelService.removeSheets(workbookPart, removedSheets);
+      context.calcChainStale = true;
+    }
+
+    // 3. Hidden defined names; Excel's own (_xlnm.*) are left alone
+    if (workbookPart) {
+      const nameRanges = workbookPart.find("definedName");
+      Array.from(
+        workbookPart.doc.getElementsByTagNameNS("*", "definedName"),
+      ).forEach((el, i) => {
+        const name = el.getAttribute("name") || "";
+        if (
+          !isTrue(el.getAttribute("hidden")) ||
+          name.startsWith("_xlnm.") ||
+          removedNames.has(i)
+        ) {
+          return;
+        }
+        findings.push({
+          category: "hiddenNames",
+          location: `Name "${name}"`,
+          detail: `Refers to ${el.textContent}`,
+        });
+        if (removing("hiddenNames") && nameRanges[i]) {
+          workbookPart.remove(nameRanges[i]);
+        }
+      });
+      workbookPart.removeEmpty("definedNames");
+    }
+
+    // 4. Custom XML data stored with the workbook
+    for (const rel of workbookRels.filter((r) => r.type === "customXml")) {
+      const root = (await this.readPart(context, rel.path))?.doc
+        .documentElement;
+      findings.push({
+        category: "customXml",
+        location: rel.path,
+        detail: root?.namespaceURI
+          ? `<${root.tagName}> (${root.namespaceURI})`
+          : `<${root?.tagName ?? "?"}>`,
+      });
+      if (removing("customXml")) {
+        await this.dropRelationship(context, WORKBOOK_PATH, rel.id);
+        await this.removePart(context, rel.path);
+      }
+    }
+
+    // 5. People who wrote threaded comments
+    for (const rel of workbookRels.filter((r) => r.type === "person")) {
+      const people = Array.from(
+        (await this.readPart(context, rel.path))?.doc.getElementsByTagNameNS(
+          "*",
+          "person",
+        ) ?? [],
+      ).map((el) => el.getAttribute("displayName") || "?");
+      findings.push({
+        category: "comments",
+        location: rel.path,
+        detail: `${plural(people.length, "comment author")}: ${people.join(", ")}`,
+      });
+      if (removing("comments")) {
+        await this.dropRelationship(context, WORKBOOK_PATH, rel.id);
+        await this.removePart(context, rel.path);
+      }
+    }
+
+    // 6. Thumbnail saved with "Save Thumbnail" / "Save preview picture"
+    const packageRels =
+      (await ExcelService.readRelationships(zip, PACKAGE_PATH)) ?? [];
+    for (const rel of packageRels.filter((r) => r.type === "thumbnail")) {
+      if (!zip.file(rel.path)) continue;
+      findings.push({
+        category: "thumbnail",
+        location: rel.path,
+        detail: "Preview image of the workbook",
+      });
+      if (removing("thumbnail")) {
+        await this.dropRelationship(context, PACKAGE_PATH, rel.id);
+        await this.removePart(context, rel.path);
+      }
+    }
+
+    // 7. Per sheet: comments, hidden rows and columns, printer settings
+    // and the formulas that use external links
+    for (const [index, sheet] of sheetParts.entries()) {
+      onProgress("Scanning sheets...", {
+        done: index,
+        total: sheetParts.length,
+      });
+      if (context.removedParts.has(sheet.path)) continue;
+      const sheetPart = await this.readPart(context, sheet.path);
+      if (!sheetPart) continue;
+      const location = `Sheet "${sheet.name}"`;
+      const rels =
+        (await ExcelService.readRelationships(zip, sheet.path)) ?? [];
+
+      const notes = rels.filter((rel) => rel.type === "comments");
+      const threads = rels.filter((rel) => rel.type === "threadedComment");
+      if (notes.length > 0 || threads.length > 0) {
+        let noteCount = 0;
+        let threadCount = 0;
+        const authors = new Set<string>();
+        for (const rel of notes) {
+          const doc = (await this.readPart(context, rel.path))?.doc;
+          noteCount += doc?.getElementsByTagNameNS("*", "comment").length ?? 0;
+          for (const el of doc?.getElementsByTagNameNS("*", "author") ?? []) {
+            // Placeholder authors ("tc={...}") stand for threaded comments
+            if (!el.textContent.startsWith("tc=")) authors.add(el.textContent);
+          }
+        }
+        for (const rel of threads) {
+          const doc = (await this.readPart(context, rel.path))?.doc;
+          threadCount +=
+            doc?.getElementsByTagNameNS("*", "threadedComment").length ?? 0;
+        }
+        findings.push({
+          category: "comments",
+          location,
+          detail: [
+            noteCount > 0 && plural(noteCount, "note"),
+            threadCount > 0 && plural(threadCount, "threaded comment"),
+            authors.size > 0 && `by ${[...authors].join(", ")}`,
+          ]
+            .filter(Boolean)
+            .join(", "),
+        });
+
+        if (removing("comments")) {
+          for (const rel of [...notes, ...threads]) {
+            await this.dropRelationship(context, sheet.path, rel.id);
+            await this.removePart(context, rel.path);
+          }
+          await this.removeNoteDrawings(context, sheet.path, sheetPart, rels);
+        }
+      }
+
+      if (sheet.kind === "worksheet") {
+        // Row numbers are optional; a row without one follows the last
+        const hiddenRows: [number, number][] = [];
+        const rowRanges: XmlElementRange[] = [];
+        let rowNumber = 0;
+        for (const row of sheetPart.find("row")) {
+          rowNumber = Number(sheetPart.getAttribute(row, "r")) || rowNumber + 1;
+          if (isTrue(sheetPart.getAttribute(row, "hidden"))) {
+            hiddenRows.push([rowNumber, rowNumber]);
+            rowRanges.push(row);
+          }
+        }
+
+        const colRanges = sheetPart
+          .find("col")
+          .filter((col) => isTrue(sheetPart.getAttribute(col, "hidden")));
+        const hiddenCols = colRanges.map((col): [number, number] => [
+          Number(sheetPart.getAttribute(col, "min")) || 1,
+          Number(sheetPart.getAttribute(col, "max")) || 1,
+        ]);
+
+        if (rowRanges.length > 0 || colRanges.length > 0) {
+          findings.push({
+            category: "hiddenRowsColumns",
+            location,
+            detail: [
+              hiddenRows.length > 0 &&
+                `Rows ${this.formatRanges(hiddenRows, String)}`,
+              hiddenCols.length > 0 &&
+                `Columns ${this.formatRanges(hiddenCols, this.columnName)}`,
+            ]
+              .filter(Boolean)
+              .join("; "),
+          });
+          if (removing("hiddenRowsColumns")) {
+            this.removeHiddenCells(sheetPart, rowRanges, hiddenCols);
+            // Emptied columns are shown again; a zero width would keep
+            // them out of sight
+            for (const col of colRanges) {
+              sheetPart.removeAttribute(col, "hidden");
+              if (Number(sheetPart.getAttribute(col, "width")) === 0) {
+                sheetPart.removeAttribute(col, "width");
+                sheetPart.removeAttribute(col, "customWidth");
+              }
+            }
+            context.calcChainStale = true;
+          }
+        }
+
+        if (unlinking) this.convertLinkedFormulas(context, sheetPart);
+      }
+
+      for (const rel of rels.filter((r) => r.type === "printerSettings")) {
+        findings.push({
+          category: "printerSettings",
+          location,
+          detail: `Printer driver settings (${rel.path.split("/").pop()})`,
+        });
+        if (removing("printerSettings")) {
+          await this.dropRelationship(context, sheet.path, rel.id);
+          await this.removePart(context, rel.path);
+          this.removeRelationshipReferences(sheetPart, "pageSetup", rel.id);
+        }
+      }
+    }
+
+    // The calculation chain lists the removed and converted formula cells;
+    // Excel rebuilds it when it is missing.
+    if (context.formulasConverted > 0 || context.calcChainStale) {
+      for (const rel of workbookRels.filter((r) => r.type === "calcChain")) {
+        await this.dropRelationship(context, WORKBOOK_PATH, rel.id);
+        await this.removePart(context, rel.path);
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Deletes the hidden rows, with their cells, and the cells of the hidden
+   * columns. Formulas that shared a removed cell's formula keep their
+   * values, as they cannot be recalculated without it.
+   */
+  private static removeHiddenCells(
+    part: XmlPart,
+    hiddenRows: XmlElementRange[],
+    hiddenCols: [number, number][],
+  ) {
+    // Rows and their cells come in document order. Row numbers and column
+    // references are optional, counting on from the previous element, so
+    // the element after a removed one gets its position written out.
+    const removedRows = new Set(hiddenRows);
+    const cells = part.find("c");
+    let next = 0;
+    let rowNumber = 0;
+    let rowShifted = false;
+    for (const row of part.find("row")) {
+      const r = part.getAttribute(row, "r");
+      rowNumber = Number(r) || rowNumber + 1;
+      if (removedRows.has(row)) {
+        part.remove(row);
+        rowShifted = true;
+        continue;
+      }
+      if (!r && rowShifted) part.setAttribute(row, "r", String(rowNumber));
+      rowShifted = false;
+
+      let column = 0;
+      let cellShifted = false;
+      for (; next < cells.length && cells[next].start < row.end; next++) {
+        const cell = cells[next];
+        if (cell.start < row.start) continue; // In a removed row
+        const reference = part.getAttribute(cell, "r")?.match(/^[A-Z]+/i);
+        column = reference ? this.columnNumber(reference[0]) : column + 1;
+        if (hiddenCols.some(([min, max]) => min <= column && column <= max)) {
+          part.remove(cell);
+          cellShifted = true;
+          continue;
+        }
+        if (!reference && cellShifted) {
+          part.setAttribute(
+            cell,
+            "r",
+            `${this.columnName(column)}${rowNumber}`,
+          );
+        }
+        cellShifted = false;
+      }
+    }
+
+    const formulas = part.find("f");
+    const isShared = (f: XmlElementRange) =>
+      part.getAttribute(f, "t") === "shared";
+    const removedShared = new Set(
+      formulas
+        .filter(
+          (f) =>
+            isShared(f) &&
+            part.getAttribute(f, "ref") !== null &&
+            part.isRemoved(f),
+        )
+        .map((f) => part.getAttribute(f, "si")),
+    );
+    if (removedShared.size === 0) return;
+    for (const f of formulas) {
+      if (isShared(f) && removedShared.has(part.getAttribute(f, "si"))) {
+        part.remove(f);
+      }
+    }
+  }
+
+  /**
+   * Replaces the cell formulas that use an external link with the values
+   * they last calculated. Shared formulas go with their master formula.
+   */
+  private static convertLinkedFormulas(context: ScanContext, part: XmlPart) {
+    const ranges = part.find("f");
+    const formulas = Array.from(part.doc.getElementsByTagNameNS("*", "f"));
+    // Data validation and conditional formatting extensions use <xm:f> too
+    const isCellFormula = (el: XmlElement) =>
+      el.parentElement?.localName === "c";
+
+    const sharedIds = new Set<string>();
+    for (const el of formulas) {
+      if (isCellFormula(el) && EXTERNAL_REFERENCE.test(el.textContent)) {
+        const si = el.getAttribute("si");
+        if (el.getAttribute("t") === "shared" && si) sharedIds.add(si);
+      }
+    }
+    formulas.forEach((el, i) => {
+      if (!isCellFormula(el) || !ranges[i]) return;
+      const shared =
+        el.getAttribute("t") === "shared" &&
+        sharedIds.has(el.getAttribute("si") ?? "");
+      if (shared || EXTERNAL_REFERENCE.test(el.textContent)) {
+        part.remove(ranges[i]);
+        context.formulasConverted++;
+      }
+    });
+  }
+
+  /**
+   * Removes the legacy (VML) drawings that only hold comment boxes, with
+   * the sheet's <legacyDrawing> reference. Drawings with form controls
+   * are kept.
+   */
+  private static async removeNoteDrawings(
+    context: ScanContext,
+    sheetPath: string,
+    sheetPart: XmlPart,
+    rels: Relationship[],
+  ) {
+    for (const rel of rels.filter((r) => r.type === "vmlDrawing")) {
+      const vml = await context.zip.file(rel.path)?.async("string");
+      if (vml === undefined) continue;
+      const objectTypes = [...vml.matchAll(/ObjectType\s*=\s*"([^"]*)"/g)];
+      if (objectTypes.some(([, type]) => type !== "Note")) continue;
+
+      await this.dropRelationship(context, sheetPath, rel.id);
+      await this.removePart(context, rel.path);
+      const ranges = sheetPart.find("legacyDrawing");
+      Array.from(
+        sheetPart.doc.getElementsByTagNameNS("*", "legacyDrawing"),
+      ).forEach((el, i) => {
+        if (this.getRelationshipAttribute(el)?.value === rel.id && ranges[i]) {
+          sheetPart.remove(ranges[i]);
+        }
+      });
+    }
+  }
+
+  /**
+   * Formula cells of the visible sheets, defined names and pivot caches
+   * that refer to a sheet by name. Deleting the sheet leaves them pointing
+   * nowhere, so they are listed to warn about it.
+   */
+  private static async findSheetReferences(
+    context: ScanContext,
+    sheetParts: SheetPart[],
+    workbookRels: Relationship[],
+    sheetName: string,
+  ): Promise<string[]> {
+    // Sheet1!A1 or 'Q1 Sales'!A1, with quotes doubled inside the name
+    const escape = (text: string) =>
+      text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pattern = new RegExp(
+      `(?:^|[^\\w.'\\]])(?:${escape(sheetName)}|'${escape(sheetName.replace(/'/g, "''"))}')!`,
+      "i",
+    );
+    const references: string[] = [];
+
+    // Other hidden sheets are deleted together with this one
+    for (const sheet of sheetParts) {
+      if (sheet.state !== "visible") continue;
+      const doc = (await this.readPart(context, sheet.path))?.doc;
+      for (const el of doc?.getElementsByTagNameNS("*", "f") ?? []) {
+        if (pattern.test(el.textContent)) {
+          const cell = el.parentElement?.getAttribute("r");
+          references.push(cell ? `${sheet.name}!${cell}` : sheet.name);
+        }
+      }
+    }
+
+    // Names local to a deleted sheet are deleted with it
+    const deletedIndexes = sheetParts
+      .filter((sheet) => sheet.state !== "visible")
+      .map((sheet) => String(sheet.sheetIndex));
+    const names =
+      (await this.readPart(context, WORKBOOK_PATH))?.doc.getElementsByTagNameNS(
+        "*",
+        "definedName",
+      ) ?? [];
+    for (const el of names) {
+      if (
+        pattern.test(el.textContent) &&
+        !deletedIndexes.includes(el.getAttribute("localSheetId") ?? "")
+      ) {
+        references.push(`name "${el.getAttribute("name")}"`);
+      }
+    }
+
+    for (const rel of workbookRels) {
+      if (rel.type !== "pivotCacheDefinition") continue;
+      const doc = (await this.readPart(context, rel.path))?.doc;
+      const sources = doc?.getElementsByTagNameNS("*", "worksheetSource") ?? [];
+      if (
+        sources.some(
+          (el) =>
+            el.getAttribute("sheet")?.toLowerCase() === sheetName.toLowerCase(),
+        )
+      ) {
+        references.push(`pivot cache ${rel.path.split("/").pop()}`);
+      }
+    }
+    return references;
+  }
+
+  // Removes the r:id attribute that points at a dropped relationship
+  private static removeRelationshipReferences(
+    part: XmlPart,
+    localName: string,
+    id: string,
+  ) {
+    const ranges = part.find(localName);
+    Array.from(part.doc.getElementsByTagNameNS("*", localName)).forEach(
+      (el, i) => {
+        const attribute = this.getRelationshipAttribute(el);
+        if (attribute?.value === id && ranges[i]) {
+          part.removeAttribute(ranges[i], attribute.name);
+        }
+      },
+    );
+  }
+
+  // r:id lives in the relationships namespace, whatever its prefix is
+  private static getRelationshipAttribute(el: XmlElement) {
+    return el.attributes.find((a) => a.localName === "id" && a.namespaceURI);
+  }
+
+  private static async readPart(
+    context: ScanContext,
+    path: string,
+  ): Promise<XmlPart | null> {
+    if (!context.parts.has(path)) {
+      context.parts.set(
+        path,
+        await ExcelService.readXmlPart(context.zip, path),
+      );
+    }
+    return context.parts.get(path)!;
+  }
+
+  private static async dropRelationship(
+    context: ScanContext,
+    sourcePath: string,
+    id: string,
+  ) {
+    const relsPart = await this.readPart(
+      context,
+      ExcelService.getRelsPath(sourcePath),
+    );
+    const range = relsPart
+      ?.find("Relationship")
+      .find((rel) => relsPart.getAttribute(rel, "Id") === id);
+    if (range) relsPart!.remove(range);
+  }
+
+  /**
+   * Deletes a part with its rels file and content type override, then the
+   * parts it referred to that nothing else refers to.
+   */
+  private static async removePart(context: ScanContext, path: string) {
+    const { zip, removedParts } = context;
+    if (removedParts.has(path) || !zip.file(path)) return;
+    removedParts.add(path);
+
+    const rels = await this.readRelationships(context, path);
+    zip.remove(path);
+    zip.remove(ExcelService.getRelsPath(path));
+    // A cached rels part must not be written back
+    removedParts.add(ExcelService.getRelsPath(path));
+
+    const contentTypes = await this.readPart(context, CONTENT_TYPES_PATH);
+    const override = contentTypes
+      ?.find("Override")
+      .find(
+        (el) =>
+          contentTypes.getAttribute(el, "PartName")?.toLowerCase() ===
+          `/${path}`.toLowerCase(),
+      );
+    if (override) contentTypes!.remove(override);
+
+    for (const rel of rels) {
+      if (!(await this.isReferenced(context, rel.path))) {
+        await this.removePart(context, rel.path);
+      }
+    }
+  }
+
+  // Whether any rels file left in the package targets the part
+  private static async isReferenced(
+    context: ScanContext,
+    path: string,
+  ): Promise<boolean> {
+    for (const entry of context.zip.file(/(^|\/)_rels\/[^/]*\.rels$/)) {
+      const source = entry.name.replace(/_rels\/([^/]*)\.rels$/, "$1");
+      const rels = await this.readRelationships(context, source);
+      if (rels.some((rel) => rel.path === path)) return true;
+    }
+    return false;
+  }
+
+  // Internal relationships of a part. A rels part opened in this scan is
+  // read from the cache, so relationships already dropped there are gone.
+  private static async readRelationships(
+    context: ScanContext,
+    sourcePath: string,
+  ): Promise<Relationship[]> {
+    const relsPath = ExcelService.getRelsPath(sourcePath);
+    if (!context.parts.has(relsPath)) {
+      return (
+        (await ExcelService.readRelationships(context.zip, sourcePath)) ?? []
+      );
+    }
+    const relsPart = context.parts.get(relsPath);
+    if (!relsPart) return [];
+    const ranges = relsPart.find("Relationship");
+    return Array.from(
+      relsPart.doc.getElementsByTagNameNS("*", "Relationship"),
+    ).flatMap((el, i) => {
+      const id = el.getAttribute("Id");
+      const target = el.getAttribute("Target");
+      if (
+        !id ||
+        !target ||
+        el.getAttribute("TargetMode") === "External" ||
+        !ranges[i] ||
+        relsPart.isRemoved(ranges[i])
+      ) {
+        return [];
+      }
+      return [
+        {
+          id,
+          type: (el.getAttribute("Type") || "").split("/").pop()!,
+          path: ExcelService.resolveTarget(sourcePath, target),
+        },
+      ];
+    });
+  }
+
+  // "A, B and C", or "A, B and 3 more" past `max` items
+  private static formatList(items: string[], max: number): string {
+    const listed =
+      items.length > max
+        ? [...items.slice(0, max - 1), `${items.length - max + 1} more`]
+        : items;
+    return listed.length > 1
+      ? `${listed.slice(0, -1).join(", ")} and ${listed[listed.length - 1]}`
+      : listed[0];
+  }
+
+  // "4-6, 9, 12-14" with adjacent and overlapping ranges merged
+  private static formatRanges(
+    ranges: [number, number][],
+    format: (n: number) => string,
+  ): string {
+    const merged: [number, number][] = [];
+    for (const [min, max] of [...ranges].sort((a, b) => a[0] - b[0])) {
+      const last = merged[merged.length - 1];
+      if (last && min <= last[1] + 1) last[1] = Math.max(last[1], max);
+      else merged.push([min, max]);
+    }
+    const listed = merged
+      .slice(0, MAX_LISTED_RANGES)
+      .map(([min, max]) =>
+        min === max ? format(min) : `${format(min)}-${format(max)}`,
+      );
+    if (merged.length > MAX_LISTED_RANGES) {
+      listed.push(`${merged.length - MAX_LISTED_RANGES} more`);
+    }
+    return listed.join(", ");
+  }
+
+  // "A" -> 1, "AA" -> 27
+  private static columnNumber(name: string): number {
+    let n = 0;
+    for (const letter of name.toUpperCase()) {
+      n = n * 26 + letter.charCodeAt(0) - 64;
+    }
+    return n;
+  }
+
+  // 1 -> "A", 27 -> "AA"
+  private static columnName(n: number): string {
+    let name = "";
+    for (; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+}
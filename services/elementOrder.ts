@@ -0,0 +1,152 @@
+// Child order of the SpreadsheetML roots whose content model is a sequence.
+// Elements of other namespaces (mc:AlternateContent, xr:revisionPtr, ...)
+// may appear in between.
+export const ELEMENT_ORDER: Record<string, string[]> = {
+  workbook: [
+    "fileVersion",
+    "fileSharing",
+    "workbookPr",
+    "workbookProtection",
+    "bookViews",
+    "sheets",
+    "functionGroups",
+    "externalReferences",
+    "definedNames",
+    "calcPr",
+    "oleSize",
+    "customWorkbookViews",
+    "pivotCaches",
+    "smartTagPr",
+    "smartTagTypes",
+    "webPublishing",
+    "fileRecoveryPr",
+    "webPublishObjects",
+    "extLst",
+  ],
+  worksheet: [
+    "sheetPr",
+    "dimension",
+    "sheetViews",
+    "sheetFormatPr",
+    "cols",
+    "sheetData",
+    "sheetCalcPr",
+    "sheetProtection",
+    "protectedRanges",
+    "scenarios",
+    "autoFilter",
+    "sortState",
+    "dataConsolidate",
+    "customSheetViews",
+    "mergeCells",
+    "phoneticPr",
+    "conditionalFormatting",
+    "dataValidations",
+    "hyperlinks",
+    "printOptions",
+    "pageMargins",
+    "pageSetup",
+    "headerFooter",
+    "rowBreaks",
+    "colBreaks",
+    "customProperties",
+    "cellWatches",
+    "ignoredErrors",
+    "smartTags",
+    "drawing",
+    "legacyDrawing",
+    "legacyDrawingHF",
+    "drawingHF",
+    "picture",
+    "oleObjects",
+    "controls",
+    "webPublishItems",
+    "tableParts",
+    "extLst",
+  ],
+  chartsheet: [
+    "sheetPr",
+    "sheetViews",
+    "sheetProtection",
+    "customSheetViews",
+    "pageMargins",
+    "pageSetup",
+    "headerFooter",
+    "drawing",
+    "legacyDrawing",
+    "legacyDrawingHF",
+    "drawingHF",
+    "picture",
+    "webPublishItems",
+    "extLst",
+  ],
+  dialogsheet: [
+    "sheetPr",
+    "sheetViews",
+    "sheetFormatPr",
+    "sheetProtection",
+    "customSheetViews",
+    "printOptions",
+    "pageMargins",
+    "pageSetup",
+    "headerFooter",
+    "drawing",
+    "legacyDrawing",
+    "legacyDrawingHF",
+    "drawingHF",
+    "oleObjects",
+    "controls",
+    "extLst",
+  ],
+};
+
+// Core and extended properties use xsd:all, so any order is valid; new
+// elements are still written in the order Excel uses, keyed by root name.
+export const PROPERTY_ORDER: Record<string, string[]> = {
+  coreProperties: [
+    "title",
+    "subject",
+    "creator",
+    "keywords",
+    "description",
+    "lastModifiedBy",
+    "revision",
+    "lastPrinted",
+    "created",
+    "modified",
+    "category",
+    "contentStatus",
+    "language",
+    "version",
+    "identifier",
+  ],
+  Properties: [
+    "Template",
+    "TotalTime",
+    "Pages",
+    "Words",
+    "Characters",
+    "Application",
+    "DocSecurity",
+    "PresentationFormat",
+    "Lines",
+    "Paragraphs",
+    "Slides",
+    "Notes",
+    "HiddenSlides",
+    "MMClips",
+    "ScaleCrop",
+    "HeadingPairs",
+    "TitlesOfParts",
+    "Manager",
+    "Company",
+    "LinksUpToDate",
+    "CharactersWithSpaces",
+    "SharedDoc",
+    "HyperlinkBase",
+    "HLinks",
+    "HyperlinksChanged",
+    "DigSig",
+    "AppVersion",
+  ],
+};
@@ -0,0 +1,397 @@
+import { CompoundFile } from "./compoundFile";
+import {
+  CorruptPackageError,
+  IncorrectPasswordError,
+  UnsupportedFormatError,
+} from "./errors";
+import { PasswordHashService } from "./passwordHash";
+import { XmlDocument, XmlElement } from "./xmlDom";
+
+// Block keys used to derive the Agile verifier and key encryption keys
+const VERIFIER_HASH_INPUT_BLOCK = [
+  0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79,
+];
+const VERIFIER_HASH_VALUE_BLOCK = [
+  0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e,
+];
+const ENCRYPTED_KEY_VALUE_BLOCK = [
+  0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6,
+];
+
+// Agile encryption encrypts the package in independent 4096 byte segments
+const SEGMENT_LENGTH = 4096;
+// Segments between two progress reports (1 MB)
+const PROGRESS_SEGMENTS = 256;
+
+// Standard encryption always uses SHA-1 with a fixed spin count
+const STANDARD_SPIN_COUNT = 50000;
+const ALG_ID_SHA1 = 0x8004;
+const ALG_ID_AES_KEY_BITS: Record<number, number> = {
+  0x660e: 128,
+  0x660f: 192,
+  0x6610: 256,
+};
+
+// Agile hashAlgorithm values and their WebCrypto names
+const HASH_ALGORITHMS: Record<string, string> = {
+  SHA1: "SHA-1",
+  SHA256: "SHA-256",
+  SHA384: "SHA-384",
+  SHA512: "SHA-512",
+};
+
+const UNSUPPORTED =
+  "This file uses an encryption method that is not supported.";
+
+/**
+ * Decrypts ECMA-376 encrypted packages ("Password to Open"), as described in
+ * [MS-OFFCRYPTO] 2.3.4: Agile Encryption and Standard Encryption with AES.
+ */
+export class EncryptedPackageService {
+  /** True when the compound file wraps an encrypted OOXML package. */
+  static isEncryptedPackage(bytes: Uint8Array): boolean {
+    if (!CompoundFile.hasSignature(bytes)) return false;
+    try {
+      const cfb = CompoundFile.read(bytes, "encrypted workbook");
+      return (
+        !!CompoundFile.findStream(cfb, "/EncryptionInfo") &&
+        !!CompoundFile.findStream(cfb, "/EncryptedPackage")
+      );
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Returns the decrypted ZIP package. `onProgress` receives the number of
+   * package bytes decrypted so far.
+   */
+  static async decrypt(
+    bytes: Uint8Array,
+    password: string,
+    onProgress: (done: number, total: number) => void = () => {},
+  ): Promise<Uint8Array> {
+    const cfb = CompoundFile.read(bytes, "encrypted workbook");
+    const info = CompoundFile.findStream(cfb, "/EncryptionInfo");
+    const encrypted = CompoundFile.findStream(cfb, "/EncryptedPackage");
+    if (!info || !encrypted) {
+      throw new UnsupportedFormatError(
+        "This file is not an encrypted Excel workbook.",
+      );
+    }
+
+    const view = new DataView(
+      info.content.buffer,
+      info.content.byteOffset,
+      info.content.byteLength,
+    );
+    const major = view.getUint16(0, true);
+    const minor = view.getUint16(2, true);
+    if (major === 4 && minor === 4) {
+      return this.decryptAgile(
+        info.content,
+        encrypted.content,
+        password,
+        onProgress,
+      );
+    }
+    if ((major === 2 || major === 3 || major === 4) && minor === 2) {
+      return this.decryptStandard(info.content, encrypted.content, password);
+    }
+    throw new UnsupportedFormatError(UNSUPPORTED);
+  }
+
+  private static async decryptAgile(
+    info: Uint8Array,
+    encrypted: Uint8Array,
+    password: string,
+    onProgress: (done: number, total: number) => void,
+  ): Promise<Uint8Array> {
+    // Version (4 bytes) and reserved flags (4 bytes) precede the XML
+    const xml = new TextDecoder().decode(info.subarray(8));
+    const doc = XmlDocument.parse(xml);
+    const keyData = doc.getElementsByTagNameNS("*", "keyData")[0];
+    const encryptedKey = doc.getElementsByTagNameNS("*", "encryptedKey")[0];
+    if (!keyData || !encryptedKey) {
+      throw new CorruptPackageError(
+        "The encryption information of this file is damaged.",
+      );
+    }
+    for (const el of [keyData, encryptedKey]) {
+      if (
+        el.getAttribute("cipherAlgorithm") !== "AES" ||
+        el.getAttribute("cipherChaining") !== "ChainingModeCBC"
+      ) {
+        throw new UnsupportedFormatError(UNSUPPORTED);
+      }
+    }
+
+    // Password key encryptor: derive the keys that unwrap the secret key
+    const hashName = this.getHashName(encryptedKey);
+    const salt = this.readBase64(encryptedKey.getAttribute("saltValue"));
+    const keyLength = Number(encryptedKey.getAttribute("keyBits")) / 8;
+    const iv = this.fitLength(
+      salt,
+      Number(encryptedKey.getAttribute("blockSize")),
+      0x36,
+    );
+    const passwordHash = await this.hashPassword(
+      hashName,
+      salt,
+      password,
+      Number(encryptedKey.getAttribute("spinCount")),
+    );
+    const unwrap = async (blockKey: number[], attribute: string) => {
+      const derived = await this.digest(
+        hashName,
+        this.concat(passwordHash, new Uint8Array(blockKey)),
+      );
+      const key = await this.importKey(
+        this.fitLength(derived, keyLength, 0x36),
+      );
+      return this.decryptCbc(
+        key,
+        iv,
+        this.readBase64(encryptedKey.getAttribute(attribute)),
+      );
+    };
+
+    const verifierInput = (
+      await unwrap(VERIFIER_HASH_INPUT_BLOCK, "encryptedVerifierHashInput")
+    ).subarray(0, salt.length);
+    const verifierHash = await unwrap(
+      VERIFIER_HASH_VALUE_BLOCK,
+      "encryptedVerifierHashValue",
+    );
+    const expected = await this.digest(hashName, verifierInput);
+    if (!this.startsWith(verifierHash, expected)) {
+      throw new IncorrectPasswordError();
+    }
+    const secretKey = await this.importKey(
+      (await unwrap(ENCRYPTED_KEY_VALUE_BLOCK, "encryptedKeyValue")).subarray(
+        0,
+        Number(keyData.getAttribute("keyBits")) / 8,
+      ),
+    );
+
+    // Every segment has its own IV: H(keyData salt + segment index)
+    const packageHash = this.getHashName(keyData);
+    const packageSalt = this.readBase64(keyData.getAttribute("saltValue"));
+    const blockSize = Number(keyData.getAttribute("blockSize"));
+    const size = this.readStreamSize(encrypted);
+    const out = new Uint8Array(size);
+    for (let i = 0; 8 + i * SEGMENT_LENGTH < encrypted.length; i++) {
+      const start = i * SEGMENT_LENGTH;
+      if (start >= size) break;
+      const segmentIv = this.fitLength(
+        await this.digest(
+          packageHash,
+          this.concat(packageSalt, this.uint32(i)),
+        ),
+        blockSize,
+        0x36,
+      );
+      const segment = await this.decryptCbc(
+        secretKey,
+        segmentIv,
+        encrypted.subarray(8 + start, 8 + start + SEGMENT_LENGTH),
+      );
+      out.set(segment.subarray(0, size - start), start);
+      if (i % PROGRESS_SEGMENTS === 0) onProgress(start, size);
+    }
+    onProgress(size, size);
+    return out;
+  }
+
+  private static async decryptStandard(
+    info: Uint8Array,
+    encrypted: Uint8Array,
+    password: string,
+  ): Promise<Uint8Array> {
+    const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+    // Version (4), flags (4) and header size (4), then EncryptionHeader
+    const headerSize = view.getUint32(8, true);
+    const algId = view.getUint32(12 + 8, true);
+    const algIdHash = view.getUint32(12 + 12, true);
+    const keyBits = view.getUint32(12 + 16, true) || ALG_ID_AES_KEY_BITS[algId];
+    if (
+      !(algId in ALG_ID_AES_KEY_BITS) ||
+      (algIdHash !== 0 && algIdHash !== ALG_ID_SHA1)
+    ) {
+      throw new UnsupportedFormatError(UNSUPPORTED);
+    }
+
+    // EncryptionVerifier follows the header
+    const verifierOffset = 12 + headerSize;
+    const saltSize = view.getUint32(verifierOffset, true);
+    const saltStart = verifierOffset + 4;
+    const salt = info.subarray(saltStart, saltStart + saltSize);
+    const encryptedVerifier = info.subarray(
+      saltStart + saltSize,
+      saltStart + saltSize + 16,
+    );
+    const verifierHashSize = view.getUint32(saltStart + saltSize + 16, true);
+    const encryptedVerifierHash = info.subarray(
+      saltStart + saltSize + 20,
+      saltStart + saltSize + 20 + 32,
+    );
+
+    // [MS-OFFCRYPTO] 2.3.4.7: derive the key from H(Hn + block 0)
+    const passwordHash = await this.hashPassword(
+      "SHA-1",
+      salt,
+      password,
+      STANDARD_SPIN_COUNT,
+    );
+    const finalHash = await this.digest(
+      "SHA-1",
+      this.concat(passwordHash, this.uint32(0)),
+    );
+    const pad = (fill: number) => {
+      const buffer = new Uint8Array(64).fill(fill);
+      finalHash.forEach((byte, i) => (buffer[i] ^= byte));
+      return buffer;
+    };
+    const derived = this.concat(
+      await this.digest("SHA-1", pad(0x36)),
+      await this.digest("SHA-1", pad(0x5c)),
+    );
+    const key = await this.importKey(derived.subarray(0, keyBits / 8));
+
+    const verifier = await this.decryptEcb(key, encryptedVerifier);
+    const verifierHash = await this.decryptEcb(key, encryptedVerifierHash);
+    const expected = await this.digest("SHA-1", verifier);
+    if (
+      !this.startsWith(verifierHash.subarray(0, verifierHashSize), expected)
+    ) {
+      throw new IncorrectPasswordError();
+    }
+
+    const size = this.readStreamSize(encrypted);
+    const body = encrypted.subarray(8);
+    const aligned = body.subarray(0, body.length - (body.length % 16));
+    return (await this.decryptEcb(key, aligned)).subarray(0, size);
+  }
+
+  // H0 = H(salt + password as UTF-16LE), then Hn = H(n + Hn-1)
+  private static async hashPassword(
+    hashName: string,
+    salt: Uint8Array,
+    password: string,
+    spinCount: number,
+  ): Promise<Uint8Array> {
+    const passwordBytes = new Uint8Array(password.length * 2);
+    for (let i = 0; i < password.length; i++) {
+      const code = password.charCodeAt(i);
+      passwordBytes[i * 2] = code & 0xff;
+      passwordBytes[i * 2 + 1] = code >> 8;
+    }
+    let hash = await this.digest(hashName, this.concat(salt, passwordBytes));
+    const buffer = new Uint8Array(4 + hash.length);
+    const view = new DataView(buffer.buffer);
+    for (let i = 0; i < spinCount; i++) {
+      view.setUint32(0, i, true);
+      buffer.set(hash, 4);
+      hash = await this.digest(hashName, buffer);
+    }
+    return hash;
+  }
+
+  private static readBase64(value: string | null): Uint8Array {
+    return PasswordHashService.fromBase64(value || "");
+  }
+
+  private static getHashName(el: XmlElement): string {
+    const name = HASH_ALGORITHMS[el.getAttribute("hashAlgorithm") || ""];
+    if (!name) throw new UnsupportedFormatError(UNSUPPORTED);
+    return name;
+  }
+
+  // EncryptedPackage starts with the decrypted size as a 64-bit integer
+  private static readStreamSize(encrypted: Uint8Array): number {
+    const view = new DataView(
+      encrypted.buffer,
+      encrypted.byteOffset,
+      encrypted.byteLength,
+    );
+    return view.getUint32(0, true) + view.getUint32(4, true) * 0x100000000;
+  }
+
+  private static importKey(bytes: Uint8Array): Promise<CryptoKey> {
+    return crypto.subtle.importKey("raw", bytes, "AES-CBC", false, [
+      "encrypt",
+      "decrypt",
+    ]);
+  }
+
+  // WebCrypto only offers AES-CBC with PKCS#7 padding. Appending the block
+  // that decrypts to a full padding block lets it decrypt raw,
+  // block-aligned data.
+  private static async decryptCbc(
+    key: CryptoKey,
+    iv: Uint8Array,
+    data: Uint8Array,
+  ): Promise<Uint8Array> {
+    const padding = await crypto.subtle.encrypt(
+      { name: "AES-CBC", iv: data.subarray(data.length - 16) },
+      key,
+      new Uint8Array(0),
+    );
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-CBC", iv },
+        key,
+        this.concat(data, new Uint8Array(padding)),
+      ),
+    );
+  }
+
+  // ECB from CBC with a zero IV: undo the chaining XOR of every block
+  private static async decryptEcb(
+    key: CryptoKey,
+    data: Uint8Array,
+  ): Promise<Uint8Array> {
+    const out = await this.decryptCbc(key, new Uint8Array(16), data);
+    for (let i = 16; i < out.length; i++) {
+      out[i] ^= data[i - 16];
+    }
+    return out;
+  }
+
+  private static async digest(
+    hashName: string,
+    data: Uint8Array,
+  ): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest(hashName, data));
+  }
+
+  // Truncates, or pads with the given byte, to exactly `length` bytes
+  private static fitLength(
+    bytes: Uint8Array,
+    length: number,
+    fill: number,
+  ): Uint8Array {
+    const out = new Uint8Array(length).fill(fill);
+    out.set(bytes.subarray(0, length));
+    return out;
+  }
+
+  private static startsWith(bytes: Uint8Array, prefix: Uint8Array): boolean {
+    return (
+      bytes.length >= prefix.length && prefix.every((b, i) => bytes[i] === b)
+    );
+  }
+
+  private static uint32(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    return bytes;
+  }
+
+  private static concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+  }
+}
@@ -0,0 +1,70 @@
+/** Base class of the failures ExcelService reports about the input file. */
+export class ExcelFileError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ExcelFileError";
+  }
+}
+
+/** The file is encrypted with a "Password to Open" that was not supplied. */
+export class EncryptedFileError extends ExcelFileError {
+  constructor(
+    message = "This file is encrypted with a 'Password to Open'. Enter its password to decrypt it first; opening passwords cannot be bypassed.",
+  ) {
+    super(message);
+    this.name = "EncryptedFileError";
+  }
+}
+
+/** The supplied "Password to Open" does not decrypt the file. */
+export class IncorrectPasswordError extends EncryptedFileError {
+  constructor(message = "The password is incorrect.") {
+    super(message);
+    this.name = "IncorrectPasswordError";
+  }
+}
+
+/** Not an Excel format (or encryption method) this tool can process. */
+export class UnsupportedFormatError extends ExcelFileError {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedFormatError";
+  }
+}
+
+/** The ZIP package or compound file is damaged and could not be read. */
+export class CorruptPackageError extends ExcelFileError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "CorruptPackageError";
+  }
+}
+
+/** A document property passed in has a value its type cannot hold. */
+export class InvalidPropertyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPropertyError";
+  }
+}
+
+const ERROR_CLASSES: Record<string, new (message: string) => Error> = {
+  ExcelFileError,
+  EncryptedFileError,
+  IncorrectPasswordError,
+  UnsupportedFormatError,
+  CorruptPackageError,
+  InvalidPropertyError,
+};
+
+/**
+ * Recreates an error that crossed a worker boundary as only its name and
+ * message, so `instanceof` checks keep working on the other side.
+ */
+export const restoreError = (name: string, message: string): Error => {
+  const ErrorClass = ERROR_CLASSES[name];
+  if (ErrorClass) return new ErrorClass(message);
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
@@ -1,19 +1,491 @@
 import JSZip from "jszip";
-import { ExcelProperties } from "../types";
+import { CompoundFile } from "./compoundFile";
+import { PROPERTY_ORDER } from "./elementOrder";
+import { EncryptedPackageService } from "./encryptedPackage";
+import {
+  CorruptPackageError,
+  EncryptedFileError,
+  ExcelFileError,
+  InvalidPropertyError,
+  UnsupportedFormatError,
+} from "./errors";
+import { LegacyWorkbookService } from "./legacyWorkbook";
+import { PasswordHashService } from "./passwordHash";
+import { VbaProjectService } from "./vbaProject";
+import { XmlDocument, XmlElement } from "./xmlDom";
+import { XmlElementRange, XmlPart } from "./xmlPart";
+import { ZipPackage } from "./zipPackage";
+import {
+  CellProtectionInfo,
+  CustomProperty,
+  CustomPropertyType,
+  ExcelProperties,
+  FileSharingInfo,
+  PasswordCheck,
+  PasswordCheckResult,
+  PasswordMatch,
+  ProgressCallback,
+  ProtectedRangeInfo,
+  ProtectionChange,
+  ProtectionChangeKind,
+  ProtectionDetails,
+  ProtectionReport,
+  ProtectOptions,
+  ProtectResult,
+  SheetKind,
+  SheetState,
+  SheetProtectionInfo,
+  UnprotectOptions,
+  UnprotectResult,
+  WorkbookProtectionInfo,
+} from "../types";
+
+const WORKBOOK_PATH = "xl/workbook.xml";
+
+// OPC/ZIP based Excel formats and the MIME type each one is served with
+const MODERN_EXCEL_TYPES: Record<string, string> = {
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xlsm": "application/vnd.ms-excel.sheet.macroEnabled.12",
+  ".xltx":
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.template",
+  ".xltm": "application/vnd.ms-excel.template.macroEnabled.12",
+  ".xlam": "application/vnd.ms-excel.addin.macroEnabled.12",
+};
+
+const LEGACY_EXCEL_TYPE = "application/vnd.ms-excel";
+
+// sheetProtection flags and their defaults. A flag set to true locks that
+// action while the sheet is protected, so the action is allowed when false.
+const SHEET_PROTECTION_FLAGS: Record<string, boolean> = {
+  objects: false,
+  scenarios: false,
+  formatCells: true,
+  formatColumns: true,
+  formatRows: true,
+  insertColumns: true,
+  insertRows: true,
+  insertHyperlinks: true,
+  deleteColumns: true,
+  deleteRows: true,
+  selectLockedCells: false,
+  sort: true,
+  autoFilter: true,
+  pivotTables: true,
+  selectUnlockedCells: false,
+};
+
+// Chartsheets only lock their content and drawing objects
+const CHARTSHEET_PROTECTION_FLAGS: Record<string, boolean> = {
+  content: false,
+  objects: false,
+};
+
+// What Excel's "Protect Sheet" dialog leaves allowed by default
+const DEFAULT_ALLOWED_ACTIONS = ["selectLockedCells", "selectUnlockedCells"];
+
+// Cell data is most of a sheet part and never holds protection markup, so
+// sheets are scanned without descending into it
+const SHEET_CONTENT = ["sheetData"];
+
+// Children that follow workbookProtection in the CT_Workbook sequence
+const WORKBOOK_PROTECTION_SUCCESSORS = ["bookViews", "sheets"];
+
+// Children that follow sheetProtection; the same order holds for worksheets,
+// chartsheets, dialog sheets and macro sheets.
+const SHEET_PROTECTION_SUCCESSORS = [
+  "protectedRanges",
+  "scenarios",
+  "autoFilter",
+  "sortState",
+  "dataConsolidate",
+  "customSheetViews",
+  "mergeCells",
+  "phoneticPr",
+  "conditionalFormatting",
+  "dataValidations",
+  "hyperlinks",
+  "printOptions",
+  "pageMargins",
+  "pageSetup",
+  "headerFooter",
+  "rowBreaks",
+  "colBreaks",
+  "customProperties",
+  "cellWatches",
+  "ignoredErrors",
+  "smartTags",
+  "drawing",
+  "legacyDrawing",
+  "legacyDrawingHF",
+  "drawingHF",
+  "picture",
+  "oleObjects",
+  "controls",
+  "webPublishItems",
+  "tableParts",
+  "extLst",
+];
+
+// Children that follow protection in a cell format (CT_Xf)
+const XF_PROTECTION_SUCCESSORS = ["extLst"];
+
+// Last segment of the workbook relationship type for each kind of sheet
+const SHEET_RELATIONSHIP_KINDS: Record<string, SheetKind> = {
+  worksheet: "worksheet",
+  chartsheet: "chartsheet",
+  dialogsheet: "dialogsheet",
+  xlMacrosheet: "macrosheet",
+  xlIntlMacrosheet: "macrosheet",
+};
+
+// Conventional folders, only used when workbook.xml cannot be resolved
+const SHEET_FOLDERS: Record<string, SheetKind> = {
+  "xl/worksheets": "worksheet",
+  "xl/chartsheets": "chartsheet",
+  "xl/dialogsheets": "dialogsheet",
+  "xl/macrosheets": "macrosheet",
+};
+
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const CUSTOM_PROPERTIES_PATH = "docProps/custom.xml";
+
+// Relationship type and content type of each document property part, used
+// to register a part that did not exist
+const PROPERTY_PART_TYPES: Record<string, [string, string]> = {
+  "docProps/core.xml": [
+    "http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties",
+    "application/vnd.openxmlformats-package.core-properties+xml",
+  ],
+  "docProps/app.xml": [
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties",
+    "application/vnd.openxmlformats-officedocument.extended-properties+xml",
+  ],
+  [CUSTOM_PROPERTIES_PATH]: [
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties",
+    "application/vnd.openxmlformats-officedocument.custom-properties+xml",
+  ],
+};
+
+// Value types (vt: elements) of custom properties that can be edited; any
+// other type is kept as it is
+const CUSTOM_VALUE_TYPES: Record<string, CustomPropertyType> = {
+  lpwstr: "text",
+  lpstr: "text",
+  bstr: "text",
+  i1: "number",
+  i2: "number",
+  i4: "number",
+  i8: "number",
+  int: "number",
+  ui1: "number",
+  ui2: "number",
+  ui4: "number",
+  ui8: "number",
+  uint: "number",
+  r4: "number",
+  r8: "number",
+  decimal: "number",
+  filetime: "date",
+  date: "date",
+  bool: "boolean",
+};
+
+// Format ID Excel gives every user-defined property
+const CUSTOM_PROPERTY_FMTID = "{D5CDD505-2E9C-101B-9397-08002B2CF9AE}";
+
+// Parts rewritten in each loaded package; everything else is copied raw
+const changedParts = new WeakMap<JSZip, Set<string>>();
+
+export interface Relationship {
+  id: string;
+  type: string; // Last segment of the relationship type URI
+  path: string; // Resolved part path
+}
+
+export interface SheetPart {
+  name: string;
+  path: string;
+  kind: SheetKind;
+  state: SheetState;
+  sheetIndex?: number; // Position of its <sheet> entry in workbook.xml, when resolved
+}
 
 export class ExcelService {
+  static readonly MODERN_EXTENSIONS = Object.keys(MODERN_EXCEL_TYPES);
+  static readonly DEFAULT_ALLOWED_ACTIONS = DEFAULT_ALLOWED_ACTIONS;
+
+  /** Returns the lowercase extension (e.g. ".xlsm") of a file name. */
+  static getExtension(fileName: string): string {
+    const dot = fileName.lastIndexOf(".");
+    return dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+  }
+
+  static isModernExcelFile(fileName: string): boolean {
+    return this.getExtension(fileName) in MODERN_EXCEL_TYPES;
+  }
+
+  static isLegacyExcelFile(fileName: string): boolean {
+    return this.getExtension(fileName) === ".xls";
+  }
+
   /**
-   * Unprotects an Excel file (.xlsx).
-   * Removes XML protection tags directly (preserves exact file structure).
+   * Unprotects an Excel file (.xlsx, .xlsm, .xltx, .xltm, .xlam, .xls).
+   * Removes XML protection tags from the original text, so every other byte
+   * of the edited parts is preserved; .xls files have their BIFF8 protection
+   * records stripped instead.
+   * Without options, every sheet and the workbook structure are unprotected.
    */
   static async unprotectFile(
     file: File,
-    onProgress: (step: string) => void,
-  ): Promise<{ blob: Blob; wasProtected: boolean }> {
+    onProgress: ProgressCallback,
+    options: UnprotectOptions = {},
+  ): Promise<UnprotectResult> {
+    if (options.password !== undefined && (await this.isEncrypted(file))) {
+      file = await this.decryptFile(file, options.password, onProgress);
+    }
+    await this.validateFile(file);
+
+    try {
+      if (this.isLegacyExcelFile(file.name)) {
+        return await this.processLegacyFile(file, onProgress, options);
+      }
+      return await this.processModernFile(file, onProgress, options);
+    } catch (error) {
+      if (error instanceof ExcelFileError) throw error;
+      throw new CorruptPackageError(
+        "Failed to process the Excel file. It might be corrupted or in an unsupported format.",
+        { cause: error },
+      );
+    }
+  }
+
+  /** True for modern files encrypted with a "Password to Open". */
+  static async isEncrypted(file: File): Promise<boolean> {
+    if (!this.isModernExcelFile(file.name)) return false;
+    const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+    if (!CompoundFile.hasSignature(header)) return false;
+    return EncryptedPackageService.isEncryptedPackage(
+      new Uint8Array(await file.arrayBuffer()),
+    );
+  }
+
+  /**
+   * Decrypts a "Password to Open" workbook (ECMA-376 Agile or Standard
+   * Encryption) into a plain package with the same name.
+   */
+  static async decryptFile(
+    file: File,
+    password: string,
+    onProgress: ProgressCallback = () => {},
+  ): Promise<File> {
+    onProgress("Decrypting workbook...");
+    const bytes = await EncryptedPackageService.decrypt(
+      new Uint8Array(await file.arrayBuffer()),
+      password,
+      (done, total) => onProgress("Decrypting workbook...", { done, total }),
+    );
+    return new File([bytes], file.name, {
+      type: MODERN_EXCEL_TYPES[this.getExtension(file.name)],
+    });
+  }
+
+  /**
+   * Dry run: reports every protection found in the package without
+   * modifying anything.
+   */
+  static async inspectFile(
+    file: File,
+    onProgress: ProgressCallback = () => {},
+  ): Promise<ProtectionReport> {
+    await this.validateFile(file);
+    if (this.isLegacyExcelFile(file.name)) {
+      onProgress("Reading workbook stream...");
+      return LegacyWorkbookService.inspect(
+        new Uint8Array(await file.arrayBuffer()),
+      );
+    }
+    const loadedZip = await this.loadPackage(file, onProgress);
+    return this.scanProtection(loadedZip, onProgress, null);
+  }
+
+  /**
+   * Protects the workbook structure and the selected sheets. Each element
+   * gets its own random salt and a SHA-512 hash with Excel's spin count.
+   */
+  static async protectFile(
+    file: File,
+    onProgress: ProgressCallback,
+    options: ProtectOptions,
+  ): Promise<ProtectResult> {
+    if (this.isLegacyExcelFile(file.name)) {
+      throw new UnsupportedFormatError(
+        "Applying protection is only supported for .xlsx-based files.",
+      );
+    }
+    await this.validateFile(file);
+
+    const loadedZip = await this.loadPackage(file, onProgress);
+    const workbookPart = await this.readXmlPart(loadedZip, WORKBOOK_PATH);
+    const sheetParts = await this.getSheetParts(
+      loadedZip,
+      workbookPart?.doc ?? null,
+    );
+    const allowedActions = options.allowedActions ?? DEFAULT_ALLOWED_ACTIONS;
+
+    // Hashing dominates, so progress counts the elements to protect
+    const selectedParts = sheetParts.filter((part) =>
+      this.isSheetSelected(options, part.path),
+    );
+    const lockWorkbook = !!workbookPart && (options.workbook ?? true);
+    const total = selectedParts.length + (lockWorkbook ? 1 : 0);
+
+    let workbookProtected = false;
+    if (workbookPart && lockWorkbook) {
+      onProgress("Protecting workbook structure...", { done: 0, total });
+      const attributes = await this.createHashAttributes(
+        options.password,
+        "workbook",
+      );
+      attributes.lockStructure = "1";
+      this.replaceProtection(
+        workbookPart,
+        "workbookProtection",
+        attributes,
+        WORKBOOK_PROTECTION_SUCCESSORS,
+      );
+      this.writePart(loadedZip, WORKBOOK_PATH, workbookPart.toString());
+      workbookProtected = true;
+    }
+
+    let sheetsProtected = 0;
+    for (const [index, part] of selectedParts.entries()) {
+      const sheetPart = await this.readXmlPart(
+        loadedZip,
+        part.path,
+        SHEET_CONTENT,
+      );
+      if (!sheetPart) continue;
+
+      onProgress(`Protecting ${part.name}...`, {
+        done: index + (workbookProtected ? 1 : 0),
+        total,
+      });
+      const attributes = await this.createHashAttributes(options.password);
+      const flags =
+        part.kind === "chartsheet"
+          ? CHARTSHEET_PROTECTION_FLAGS
+          : SHEET_PROTECTION_FLAGS;
+      if (part.kind !== "chartsheet") attributes.sheet = "1";
+      // Only flags that differ from the schema default are written
+      for (const [flag, lockedByDefault] of Object.entries(flags)) {
+        const locked = !allowedActions.includes(flag);
+        if (locked !== lockedByDefault) attributes[flag] = locked ? "1" : "0";
+      }
+      this.replaceProtection(
+        sheetPart,
+        "sheetProtection",
+        attributes,
+        SHEET_PROTECTION_SUCCESSORS,
+      );
+      this.writePart(loadedZip, part.path, sheetPart.toString());
+      sheetsProtected++;
+    }
+
+    onProgress("Repackaging Excel file...");
+    const blob = await this.generatePackage(
+      file,
+      loadedZip,
+      MODERN_EXCEL_TYPES[this.getExtension(file.name)],
+    );
+
+    onProgress("Completed");
+    return { blob, workbookProtected, sheetsProtected };
+  }
+
+  /**
+   * Checks a candidate password against the workbook and every protected
+   * sheet without modifying anything.
+   */
+  static async verifyPassword(
+    file: File,
+    password: string,
+    onProgress: ProgressCallback = () => {},
+  ): Promise<PasswordCheckResult> {
+    await this.validateFile(file);
+    const result: PasswordCheckResult = { workbook: null, sheets: [] };
+
+    // BIFF8 only knows the legacy 16-bit verifier
+    if (this.isLegacyExcelFile(file.name)) {
+      onProgress("Reading workbook stream...");
+      const report = LegacyWorkbookService.inspect(
+        new Uint8Array(await file.arrayBuffer()),
+      );
+      if (report.workbook) {
+        result.workbook = {
+          name: "Workbook",
+          path: "Workbook",
+          result: this.checkLegacyPassword(
+            password,
+            report.workbook.legacyPassword,
+          ),
+        };
+      }
+      for (const sheet of report.sheets) {
+        if (!sheet.protection) continue;
+        result.sheets.push({
+          name: sheet.name,
+          path: sheet.path,
+          result: this.checkLegacyPassword(
+            password,
+            sheet.protection.legacyPassword,
+          ),
+        });
+      }
+      return result;
+    }
+
+    const loadedZip = await this.loadPackage(file, onProgress);
+    const workbookDoc = await this.readXml(loadedZip, WORKBOOK_PATH);
+    const workbookTag =
+      workbookDoc?.getElementsByTagName("workbookProtection")[0];
+    if (workbookTag) {
+      onProgress("Checking workbook...");
+      result.workbook = {
+        name: "Workbook",
+        path: WORKBOOK_PATH,
+        ...(await this.checkPassword(workbookTag, password)),
+      };
+    }
+
+    const sheetParts = await this.getSheetParts(loadedZip, workbookDoc);
+    for (const [index, part] of sheetParts.entries()) {
+      const sheetPart = await this.readXmlPart(
+        loadedZip,
+        part.path,
+        SHEET_CONTENT,
+      );
+      const [sheetProtection] = sheetPart?.find("sheetProtection") ?? [];
+      if (!sheetPart || !sheetProtection) continue;
+      const sheetTag = sheetPart.parseElement(sheetProtection);
+      onProgress(`Checking ${part.name}...`, {
+        done: index,
+        total: sheetParts.length,
+      });
+      result.sheets.push({
+        name: part.name,
+        path: part.path,
+        ...(await this.checkPassword(sheetTag, password)),
+      });
+    }
+    return result;
+  }
+
+  private static async validateFile(file: File): Promise<void> {
     // 0. Validate Extension
-    if (!file.name.toLowerCase().endsWith(".xlsx")) {
-      throw new Error(
-        "Only .xlsx files are supported. Please convert .xls files to .xlsx in Excel first.",
+    if (this.isLegacyExcelFile(file.name)) return; // .xls is always OLE
+    if (!this.isModernExcelFile(file.name)) {
+      throw new UnsupportedFormatError(
+        `Only ${[...this.MODERN_EXTENSIONS, ".xls"].join(", ")} files are supported.`,
       );
     }
 
@@ -28,118 +500,731 @@ export class ExcelService {
 
         // OLE Signature: D0 CF 11 E0 A1 B1 1A E1
         if (magic1 === 0xd0cf11e0 && magic2 === 0xa1b11ae1) {
-          throw new Error(
-            "This file is encrypted with a 'Password to Open'. This tool cannot bypass opening passwords, only sheet/workbook protection.",
-          );
+          throw new EncryptedFileError();
         }
       }
-    } catch (e: any) {
-      if (e.message && e.message.includes("Password to Open")) throw e;
+    } catch (e) {
+      if (e instanceof EncryptedFileError) throw e;
     }
+  }
 
+  static async loadPackage(
+    file: Blob,
+    onProgress: ProgressCallback,
+  ): Promise<JSZip> {
+    onProgress("Reading file structure...");
+    const zip = new JSZip();
     try {
-      return await this.processModernFile(file, onProgress);
-    } catch (error: any) {
-      console.error("Excel processing error:", error);
-      if (
-        error.message &&
-        (error.message.includes("Password to Open") ||
-          error.message.includes("Password"))
-      ) {
-        throw error;
-      }
-      throw new Error(
-        error.message ||
-          "Failed to process the Excel file. It might be corrupted or in an unsupported format.",
+      // Raw bytes rather than the Blob: JSZip reads Blobs through
+      // FileReader, which Node does not have.
+      return await zip.loadAsync(await file.arrayBuffer());
+    } catch (e) {
+      throw new CorruptPackageError(
+        "Could not read .xlsx file structure. The file might be corrupted or encrypted.",
       );
     }
   }
 
   private static async processModernFile(
     file: File,
-    onProgress: (step: string) => void,
-  ): Promise<{ blob: Blob; wasProtected: boolean }> {
-    onProgress("Reading file structure...");
-    const zip = new JSZip();
-    let wasProtected = false;
+    onProgress: ProgressCallback,
+    options: UnprotectOptions,
+  ): Promise<UnprotectResult> {
+    const loadedZip = await this.loadPackage(file, onProgress);
+    const report = await this.scanProtection(loadedZip, onProgress, options);
 
-    let loadedZip;
-    try {
-      loadedZip = await zip.loadAsync(file);
-    } catch (e) {
-      throw new Error(
-        "Could not read .xlsx file structure. The file might be corrupted or encrypted.",
-      );
+    // Every other part (vbaProject.bin, its relationships, ...) is copied
+    // back exactly as it was read, without being recompressed.
+    onProgress("Repackaging Excel file...");
+    const outBlob = await this.generatePackage(
+      file,
+      loadedZip,
+      MODERN_EXCEL_TYPES[this.getExtension(file.name)],
+    );
+
+    onProgress("Completed");
+    return this.buildResult(outBlob, report, options);
+  }
+
+  /** Replaces a part; generatePackage deflates it again. */
+  static writePart(
+    loadedZip: JSZip,
+    path: string,
+    content: string | Uint8Array,
+  ) {
+    loadedZip.file(path, content);
+    const changed = changedParts.get(loadedZip) ?? new Set<string>();
+    changed.add(path);
+    changedParts.set(loadedZip, changed);
+  }
+
+  /**
+   * Repackages a loaded package. Untouched entries keep their compressed
+   * bytes, order and timestamps; only rewritten parts are deflated again.
+   */
+  static async generatePackage(
+    source: Blob,
+    loadedZip: JSZip,
+    mimeType: string | undefined,
+  ): Promise<Blob> {
+    const rebuilt = await ZipPackage.rebuild(
+      new Uint8Array(await source.arrayBuffer()),
+      loadedZip,
+      changedParts.get(loadedZip) ?? new Set(),
+    );
+    if (rebuilt) return new Blob([rebuilt], { type: mimeType });
+
+    // ZIP64 and other archives that can't be copied raw are regenerated
+    return loadedZip.generateAsync({
+      type: "blob",
+      mimeType,
+      compression: "DEFLATE",
+      compressionOptions: { level: 1 }, // Speed optimization
+    });
+  }
+
+  private static async processLegacyFile(
+    file: File,
+    onProgress: ProgressCallback,
+    options: UnprotectOptions,
+  ): Promise<UnprotectResult> {
+    const { bytes, report } = LegacyWorkbookService.unprotect(
+      new Uint8Array(await file.arrayBuffer()),
+      options,
+      onProgress,
+    );
+    const outBlob = new Blob([bytes], { type: LEGACY_EXCEL_TYPE });
+
+    onProgress("Completed");
+    return this.buildResult(outBlob, report, options);
+  }
+
+  // Summarises what the given options removed from the reported protection
+  private static buildResult(
+    blob: Blob,
+    report: ProtectionReport,
+    options: UnprotectOptions,
+  ): UnprotectResult {
+    const changes: ProtectionChange[] = [];
+    if (report.workbook && (options.workbook ?? true)) {
+      changes.push({ kind: "workbookProtectionRemoved" });
+    }
+    if (report.fileSharing && (options.fileSharing ?? true)) {
+      changes.push({ kind: "fileSharingRemoved" });
+    }
+    for (const sheet of report.sheets) {
+      const target = { sheet: sheet.name, path: sheet.path };
+      if (this.isSheetSelected(options, sheet.path)) {
+        if (sheet.protection) {
+          changes.push({ kind: "sheetProtectionRemoved", ...target });
+        }
+        if (options.protectedRanges ?? true) {
+          for (const range of sheet.protectedRanges) {
+            changes.push({
+              kind: "protectedRangeRemoved",
+              ...target,
+              detail: `${range.name} (${range.sqref})`,
+            });
+          }
+        }
+      }
+      if (
+        sheet.state !== "visible" &&
+        options.unhideSheets?.includes(sheet.path)
+      ) {
+        changes.push({ kind: "sheetUnhidden", ...target });
+      }
+    }
+    if (report.vbaProject?.isLocked && options.vbaProject) {
+      changes.push({
+        kind: "vbaProjectUnlocked",
+        path: report.vbaProject.path,
+      });
+    }
+    const formats = (n: number) => `${n} cell format${n === 1 ? "" : "s"}`;
+    const cells = report.cellProtection;
+    if (cells && cells.locked > 0 && options.unlockCells) {
+      changes.push({ kind: "cellsUnlocked", detail: formats(cells.locked) });
+    }
+    if (cells && cells.hidden > 0 && options.revealFormulas) {
+      changes.push({ kind: "formulasRevealed", detail: formats(cells.hidden) });
     }
 
-    onProgress("Analyzing workbook...");
+    const count = (kind: ProtectionChangeKind) =>
+      changes.filter((change) => change.kind === kind).length;
+    return {
+      blob,
+      // Unhiding sheets or resetting cell formats alone does not count as
+      // removing protection
+      wasProtected: changes.some(
+        (change) =>
+          !["sheetUnhidden", "cellsUnlocked", "formulasRevealed"].includes(
+            change.kind,
+          ),
+      ),
+      protectedRangesRemoved: count("protectedRangeRemoved"),
+      sheetsUnhidden: count("sheetUnhidden"),
+      vbaProjectUnlocked: count("vbaProjectUnlocked") > 0,
+      fileSharingRemoved: count("fileSharingRemoved") > 0,
+      cellFormatsUnlocked: options.unlockCells ? (cells?.locked ?? 0) : 0,
+      formulasRevealed: options.revealFormulas ? (cells?.hidden ?? 0) : 0,
+      changes,
+      report,
+    };
+  }
+
+  /**
+   * Collects workbook and sheet protection details. When `remove` is given,
+   * the selected protection elements are also removed from the package;
+   * `null` makes it a dry run.
+   */
+  private static async scanProtection(
+    loadedZip: JSZip,
+    onProgress: ProgressCallback,
+    remove: UnprotectOptions | null,
+  ): Promise<ProtectionReport> {
+    const report: ProtectionReport = {
+      workbook: null,
+      sheets: [],
+      fileSharing: null,
+      vbaProject: null,
+      cellProtection: null,
+    };
 
-    // 1. Remove Workbook Protection (Structure)
-    const workbookPath = "xl/workbook.xml";
-    if (loadedZip.file(workbookPath)) {
-      const content = await loadedZip.file(workbookPath)!.async("string");
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(content, "application/xml");
+    onProgress("Analyzing workbook...");
 
-      const protectionTags = doc.getElementsByTagName("workbookProtection");
+    // 1. Workbook Protection (Structure)
+    // Parts are edited on their original text, so everything but the
+    // removed markup stays byte-for-byte identical.
+    const workbookPart = await this.readXmlPart(loadedZip, WORKBOOK_PATH);
+    const sheetParts = await this.getSheetParts(
+      loadedZip,
+      workbookPart?.doc ?? null,
+    );
+    if (workbookPart) {
+      const workbookDoc = workbookPart.doc;
+      const protectionTags =
+        workbookDoc.getElementsByTagName("workbookProtection");
       if (protectionTags.length > 0) {
-        wasProtected = true;
-        onProgress("Removing workbook protection...");
-        while (protectionTags.length > 0) {
-          protectionTags[0].parentNode?.removeChild(protectionTags[0]);
+        report.workbook = this.describeWorkbookProtection(protectionTags[0]);
+        if (remove && (remove.workbook ?? true)) {
+          onProgress("Removing workbook protection...");
+          workbookPart.removeAll("workbookProtection");
+        }
+      }
+
+      // Read-only recommendation and "password to modify"
+      const sharingTags = workbookDoc.getElementsByTagName("fileSharing");
+      if (sharingTags.length > 0) {
+        report.fileSharing = this.describeFileSharing(sharingTags[0]);
+        if (remove && (remove.fileSharing ?? true)) {
+          onProgress("Removing write-reservation password...");
+          workbookPart.removeAll("fileSharing");
         }
-        const serializer = new XMLSerializer();
-        loadedZip.file(workbookPath, serializer.serializeToString(doc));
+      }
+
+      // Hidden and veryHidden sheets (veryHidden cannot be undone in Excel)
+      const sheetRanges = workbookPart.find("sheet");
+      for (const part of sheetParts) {
+        if (
+          part.sheetIndex !== undefined &&
+          part.state !== "visible" &&
+          remove?.unhideSheets?.includes(part.path)
+        ) {
+          onProgress(`Unhiding ${part.name}...`);
+          workbookPart.removeAttribute(sheetRanges[part.sheetIndex], "state");
+        }
+      }
+
+      if (workbookPart.changed) {
+        this.writePart(loadedZip, WORKBOOK_PATH, workbookPart.toString());
       }
     }
 
-    // 2. Remove Worksheet Protection (Cell locking)
-    onProgress("Scanning worksheets...");
-    const worksheetFiles: string[] = [];
-    loadedZip.folder("xl/worksheets")?.forEach((relativePath, file) => {
-      if (relativePath.endsWith(".xml")) {
-        worksheetFiles.push(relativePath);
+    // 2. Sheet Protection (worksheets, chartsheets, dialog and macro sheets)
+    for (const [index, part] of sheetParts.entries()) {
+      const progress = { done: index, total: sheetParts.length };
+      onProgress("Scanning sheets...", progress);
+      const sheetPart = await this.readXmlPart(
+        loadedZip,
+        part.path,
+        SHEET_CONTENT,
+      );
+      if (!sheetPart) continue;
+
+      // Every sheet type uses sheetProtection; only the flags differ
+      const [sheetProtection] = sheetPart.find("sheetProtection");
+      const protection = sheetProtection
+        ? this.describeSheetProtection(
+            sheetPart.parseElement(sheetProtection),
+            part.kind,
+          )
+        : null;
+
+      // Allow-edit ranges carry their own hashes and come back into force
+      // as soon as the sheet is protected again.
+      const protectedRanges = sheetPart
+        .find("protectedRange")
+        .map((range) =>
+          this.describeProtectedRange(sheetPart.parseElement(range)),
+        );
+
+      report.sheets.push({
+        name: part.name,
+        path: part.path,
+        kind: part.kind,
+        state: part.state,
+        protection,
+        protectedRanges,
+      });
+
+      if (!remove || !this.isSheetSelected(remove, part.path)) continue;
+
+      const stripRanges =
+        protectedRanges.length > 0 && (remove.protectedRanges ?? true);
+      if (protection || stripRanges) {
+        onProgress(`Removing protection from ${part.name}...`, progress);
+        sheetPart.removeAll("sheetProtection");
+        if (stripRanges) sheetPart.removeAll("protectedRanges");
+        this.writePart(loadedZip, part.path, sheetPart.toString());
       }
-    });
+    }
+
+    // 3. VBA Project Protection (macro-enabled packages only)
+    const workbookRels = await this.readRelationships(loadedZip, WORKBOOK_PATH);
+    const vbaPath =
+      workbookRels?.find((rel) => rel.type === "vbaProject")?.path ??
+      "xl/vbaProject.bin";
+    const vbaEntry = loadedZip.file(vbaPath);
+    if (vbaEntry) {
+      onProgress("Analyzing VBA project...");
+      const bin = await vbaEntry.async("uint8array");
+      try {
+        report.vbaProject = VbaProjectService.inspect(bin, vbaPath);
+      } catch (e) {
+        // Reported rather than thrown: the rest of the workbook can still
+        // be unprotected, and the project is left as it is
+        report.vbaProject = {
+          path: vbaPath,
+          isLocked: false,
+          hasPassword: false,
+          error:
+            e instanceof ExcelFileError
+              ? e.message
+              : "The VBA project (vbaProject.bin) could not be read.",
+        };
+      }
+      if (report.vbaProject?.isLocked && remove?.vbaProject) {
+        onProgress("Unlocking VBA project...");
+        this.writePart(loadedZip, vbaPath, VbaProjectService.unlock(bin));
+      }
+    }
+
+    // 4. Cell formats: locked cells and hidden formulas take effect again
+    // as soon as a sheet is re-protected.
+    const stylesPath =
+      workbookRels?.find((rel) => rel.type === "styles")?.path ??
+      "xl/styles.xml";
+    const stylesPart = await this.readXmlPart(loadedZip, stylesPath);
+    if (stylesPart) {
+      onProgress("Analyzing cell formats...");
+      report.cellProtection = this.resetCellProtection(stylesPart, remove);
+      if (stylesPart.changed) {
+        this.writePart(loadedZip, stylesPath, stylesPart.toString());
+      }
+    }
 
-    for (const wsPath of worksheetFiles) {
-      const fullPath = `xl/worksheets/${wsPath}`;
-      const content = await loadedZip.file(fullPath)!.async("string");
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(content, "application/xml");
-
-      const sheetProtTags = doc.getElementsByTagName("sheetProtection");
-      if (sheetProtTags.length > 0) {
-        if (!wasProtected) onProgress(`Found protection in sheets...`);
-        wasProtected = true;
-        while (sheetProtTags.length > 0) {
-          sheetProtTags[0].parentNode?.removeChild(sheetProtTags[0]);
+    return report;
+  }
+
+  /**
+   * Counts the cellXfs entries that lock cells or hide formulas and, when
+   * asked, clears those flags. Without a <protection> child a format is
+   * locked, so unlocking adds one.
+   */
+  private static resetCellProtection(
+    stylesPart: XmlPart,
+    remove: UnprotectOptions | null,
+  ): CellProtectionInfo {
+    const info: CellProtectionInfo = { formats: 0, locked: 0, hidden: 0 };
+    const cellXfs = stylesPart.find("cellXfs")[0];
+    if (!cellXfs) return info;
+    const inside = (parent: XmlElementRange, el: XmlElementRange) =>
+      el.depth === parent.depth + 1 &&
+      el.start > parent.start &&
+      el.end <= parent.end;
+
+    // Both lists are in document order, so one cursor walks protections
+    const protections = stylesPart.find("protection");
+    let next = 0;
+    for (const xf of stylesPart.find("xf")) {
+      if (!inside(cellXfs, xf)) continue;
+      info.formats++;
+      while (next < protections.length && protections[next].start < xf.start) {
+        next++;
+      }
+      const protection =
+        next < protections.length && inside(xf, protections[next])
+          ? protections[next]
+          : undefined;
+      const locked = protection
+        ? stylesPart.getAttribute(protection, "locked")
+        : null;
+      const hidden = protection
+        ? stylesPart.getAttribute(protection, "hidden")
+        : null;
+      const isLocked = !(locked === "0" || locked === "false");
+      const isHidden = hidden === "1" || hidden === "true";
+      if (isLocked) info.locked++;
+      if (isHidden) info.hidden++;
+
+      if (isLocked && remove?.unlockCells) {
+        if (protection) {
+          stylesPart.setAttribute(protection, "locked", "0");
+        } else {
+          stylesPart.insertChild(
+            xf,
+            "protection",
+            { locked: "0" },
+            XF_PROTECTION_SUCCESSORS,
+          );
         }
-        const serializer = new XMLSerializer();
-        loadedZip.file(fullPath, serializer.serializeToString(doc));
+        stylesPart.setAttribute(xf, "applyProtection", "1");
+      }
+      if (isHidden && remove?.revealFormulas) {
+        stylesPart.removeAttribute(protection!, "hidden");
       }
     }
+    return info;
+  }
 
-    onProgress("Repackaging Excel file...");
-    const outBlob = await loadedZip.generateAsync({
-      type: "blob",
-      compression: "DEFLATE",
-      compressionOptions: { level: 1 }, // Speed optimization
+  private static isSheetSelected(
+    options: { sheets?: string[] },
+    path: string,
+  ): boolean {
+    return !options.sheets || options.sheets.includes(path);
+  }
+
+  // Hash attributes for a protection element, or none without a password.
+  // workbookProtection prefixes them with "workbook".
+  private static async createHashAttributes(
+    password: string,
+    prefix: string = "",
+  ): Promise<Record<string, string>> {
+    if (!password) return {};
+    const hash = await PasswordHashService.create(password);
+    const name = (attr: string) =>
+      prefix ? `${prefix}${attr[0].toUpperCase()}${attr.slice(1)}` : attr;
+    return {
+      [name("algorithmName")]: hash.algorithmName,
+      [name("hashValue")]: hash.hashValue,
+      [name("saltValue")]: hash.saltValue,
+      [name("spinCount")]: String(hash.spinCount),
+    };
+  }
+
+  // Replaces any existing protection element with a new one, placed where
+  // the schema sequence expects it.
+  private static replaceProtection(
+    part: XmlPart,
+    tagName: string,
+    attributes: Record<string, string>,
+    successors: string[],
+  ) {
+    part.removeAll(tagName);
+    part.insertElement(tagName, attributes, successors);
+  }
+
+  // Workbook protection prefixes its hash attributes with "workbook"
+  // (workbookAlgorithmName, workbookHashValue, ...).
+  private static getProtectionAttribute(
+    el: XmlElement,
+    name: string,
+  ): string | null {
+    return (
+      el.getAttribute(name) ??
+      el.getAttribute(`workbook${name[0].toUpperCase()}${name.slice(1)}`)
+    );
+  }
+
+  private static async checkPassword(
+    el: XmlElement,
+    password: string,
+  ): Promise<Pick<PasswordCheck, "algorithmName" | "result">> {
+    const attr = (name: string) => this.getProtectionAttribute(el, name);
+    const algorithmName = attr("algorithmName");
+    const hashValue = attr("hashValue");
+    const saltValue = attr("saltValue");
+    if (algorithmName && hashValue && saltValue) {
+      const matches = await PasswordHashService.verify(password, {
+        algorithmName,
+        hashValue,
+        saltValue,
+        spinCount: Number(attr("spinCount") ?? 0),
+      });
+      return {
+        algorithmName,
+        result:
+          matches === null ? "unsupported" : matches ? "match" : "noMatch",
+      };
+    }
+    return {
+      result: this.checkLegacyPassword(password, attr("password") ?? undefined),
+    };
+  }
+
+  private static checkLegacyPassword(
+    password: string,
+    verifier: string | undefined,
+  ): PasswordMatch {
+    if (!verifier) return "noPassword";
+    return PasswordHashService.legacyVerifier(password) ===
+      parseInt(verifier, 16)
+      ? "match"
+      : "noMatch";
+  }
+
+  private static describeProtection(el: XmlElement): ProtectionDetails {
+    const attr = (name: string) => this.getProtectionAttribute(el, name);
+
+    const spinCount = attr("spinCount");
+    return {
+      algorithmName: attr("algorithmName") ?? undefined,
+      spinCount: spinCount !== null ? Number(spinCount) : undefined,
+      hasHash: !!attr("hashValue"),
+      hasSalt: !!attr("saltValue"),
+      legacyPassword: attr("password") ?? undefined,
+    };
+  }
+
+  private static describeWorkbookProtection(
+    el: XmlElement,
+  ): WorkbookProtectionInfo {
+    return {
+      ...this.describeProtection(el),
+      lockStructure: this.isTrue(el.getAttribute("lockStructure")),
+      lockWindows: this.isTrue(el.getAttribute("lockWindows")),
+      lockRevision: this.isTrue(el.getAttribute("lockRevision")),
+    };
+  }
+
+  private static describeFileSharing(el: XmlElement): FileSharingInfo {
+    const details = this.describeProtection(el);
+    return {
+      ...details,
+      legacyPassword:
+        el.getAttribute("reservationPassword") ?? details.legacyPassword,
+      readOnlyRecommended: this.isTrue(el.getAttribute("readOnlyRecommended")),
+      userName: el.getAttribute("userName") ?? undefined,
+    };
+  }
+
+  private static describeSheetProtection(
+    el: XmlElement,
+    kind: SheetKind,
+  ): SheetProtectionInfo {
+    const flags =
+      kind === "chartsheet"
+        ? CHARTSHEET_PROTECTION_FLAGS
+        : SHEET_PROTECTION_FLAGS;
+    const allowedActions = Object.keys(flags).filter((flag) => {
+      const value = el.getAttribute(flag);
+      const locked = value === null ? flags[flag] : this.isTrue(value);
+      return !locked;
     });
+    return { ...this.describeProtection(el), allowedActions };
+  }
 
-    onProgress("Completed");
-    return { blob: outBlob, wasProtected };
+  private static describeProtectedRange(el: XmlElement): ProtectedRangeInfo {
+    return {
+      ...this.describeProtection(el),
+      name: el.getAttribute("name") || "",
+      sqref: el.getAttribute("sqref") || "",
+      // Either the legacy attribute or the Office 2010 child elements
+      hasSecurityDescriptor:
+        el.hasAttribute("securityDescriptor") ||
+        el.getElementsByTagName("securityDescriptor").length > 0,
+    };
+  }
+
+  private static isTrue(value: string | null): boolean {
+    return value === "1" || value === "true";
+  }
+
+  private static async readXml(
+    loadedZip: JSZip,
+    path: string,
+  ): Promise<XmlDocument | null> {
+    const entry = loadedZip.file(path);
+    if (!entry) return null;
+    return XmlDocument.parse(await entry.async("string"));
+  }
+
+  static async readXmlPart(
+    loadedZip: JSZip,
+    path: string,
+    skipContent: string[] = [],
+  ): Promise<XmlPart | null> {
+    const entry = loadedZip.file(path);
+    if (!entry) return null;
+    return new XmlPart(await entry.async("string"), skipContent);
+  }
+
+  /** "xl/workbook.xml" -> "xl/_rels/workbook.xml.rels" */
+  static getRelsPath(partPath: string): string {
+    const slash = partPath.lastIndexOf("/");
+    return `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  }
+
+  /** Resolves a relationship target against the part that owns the rels file. */
+  static resolveTarget(sourcePath: string, target: string): string {
+    if (target.startsWith("/")) return target.slice(1);
+    const segments = sourcePath.split("/").slice(0, -1);
+    for (const segment of target.split("/")) {
+      if (segment === "..") segments.pop();
+      else if (segment !== "." && segment !== "") segments.push(segment);
+    }
+    return segments.join("/");
+  }
+
+  /**
+   * Lists the sheets declared in workbook.xml with their part paths and
+   * kinds, resolved through the workbook relationships. Falls back to the
+   * conventional sheet folders when the workbook cannot be resolved.
+   */
+  static async getSheetParts(
+    loadedZip: JSZip,
+    workbookDoc: XmlDocument | null,
+  ): Promise<SheetPart[]> {
+    const rels = await this.readRelationships(loadedZip, WORKBOOK_PATH);
+    if (!workbookDoc || !rels) return this.findSheetPartsByFolder(loadedZip);
+
+    const targets = new Map<string, { path: string; kind: SheetKind }>();
+    for (const rel of rels) {
+      const kind = SHEET_RELATIONSHIP_KINDS[rel.type];
+      if (kind) targets.set(rel.id, { path: rel.path, kind });
+    }
+
+    const parts: SheetPart[] = [];
+    const sheets = workbookDoc.getElementsByTagNameNS("*", "sheet");
+    for (let i = 0; i < sheets.length; i++) {
+      // r:id lives in the relationships namespace, whatever its prefix is
+      const relId = Array.from(sheets[i].attributes).find(
+        (a) => a.localName === "id" && a.namespaceURI,
+      )?.value;
+      const target = relId ? targets.get(relId) : undefined;
+      if (target) {
+        const state = sheets[i].getAttribute("state");
+        parts.push({
+          name: sheets[i].getAttribute("name") || target.path,
+          ...target,
+          state:
+            state === "hidden" || state === "veryHidden" ? state : "visible",
+          sheetIndex: i,
+        });
+      }
+    }
+    return parts;
   }
 
+  /**
+   * Removes the <sheet> elements at the given indexes from workbook.xml.
+   * Names scoped to those sheets go with them; the sheet indexes of the
+   * other names and of the workbook views are renumbered, and a view
+   * that showed a removed sheet falls back to the first one.
+   */
+  static removeSheets(workbook: XmlPart, indexes: number[]) {
+    const sheets = workbook.find("sheet");
+    indexes.forEach((index) => sheets[index] && workbook.remove(sheets[index]));
+
+    const renumber = (index: number) =>
+      indexes.includes(index)
+        ? 0
+        : index - indexes.filter((i) => i < index).length;
+    for (const name of workbook.find("definedName")) {
+      const value = workbook.getAttribute(name, "localSheetId");
+      if (value === null) continue;
+      if (indexes.includes(Number(value))) {
+        workbook.remove(name);
+      } else if (renumber(Number(value)) !== Number(value)) {
+        workbook.setAttribute(
+          name,
+          "localSheetId",
+          String(renumber(Number(value))),
+        );
+      }
+    }
+    workbook.removeEmpty("definedNames"); // An empty list is not kept
+
+    for (const view of workbook.find("workbookView")) {
+      for (const attribute of ["activeTab", "firstSheet"]) {
+        const value = workbook.getAttribute(view, attribute);
+        if (value !== null && renumber(Number(value)) !== Number(value)) {
+          workbook.setAttribute(
+            view,
+            attribute,
+            String(renumber(Number(value))),
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Reads the internal relationships of a part, or null when the part has
+   * no rels file.
+   */
+  static async readRelationships(
+    loadedZip: JSZip,
+    sourcePath: string,
+  ): Promise<Relationship[] | null> {
+    const relsDoc = await this.readXml(loadedZip, this.getRelsPath(sourcePath));
+    if (!relsDoc) return null;
+
+    const result: Relationship[] = [];
+    const rels = relsDoc.getElementsByTagNameNS("*", "Relationship");
+    for (let i = 0; i < rels.length; i++) {
+      const id = rels[i].getAttribute("Id");
+      const target = rels[i].getAttribute("Target");
+      if (id && target && rels[i].getAttribute("TargetMode") !== "External") {
+        result.push({
+          id,
+          type: (rels[i].getAttribute("Type") || "").split("/").pop()!,
+          path: this.resolveTarget(sourcePath, target),
+        });
+      }
+    }
+    return result;
+  }
+
+  private static findSheetPartsByFolder(loadedZip: JSZip): SheetPart[] {
+    const parts: SheetPart[] = [];
+    for (const [folder, kind] of Object.entries(SHEET_FOLDERS)) {
+      loadedZip.folder(folder)?.forEach((relativePath) => {
+        if (relativePath.endsWith(".xml") && !relativePath.includes("/")) {
+          parts.push({
+            name: relativePath.replace(/\.xml$/, ""),
+            path: `${folder}/${relativePath}`,
+            kind,
+            state: "visible",
+          });
+        }
+      });
+    }
+    return parts;
+  }
+
+  /**
+   * Reads the core, extended and custom document properties. A package that
+   * cannot be read throws CorruptPackageError rather than reading as empty.
+   */
   static async getProperties(file: Blob): Promise<ExcelProperties> {
-    const zip = new JSZip();
+    const loadedZip = await this.loadPackage(file, () => {});
     try {
-      const loadedZip = await zip.loadAsync(file);
       const props: ExcelProperties = {};
-      const parser = new DOMParser();
 
       // Helper to find value by local name (ignoring namespace prefix)
-      const getByLocalName = (doc: Document, localName: string) => {
+      const getByLocalName = (doc: XmlDocument, localName: string) => {
         const elements = doc.getElementsByTagName("*");
         for (let i = 0; i < elements.length; i++) {
           if (elements[i].localName === localName) {
@@ -153,7 +1238,7 @@ export class ExcelService {
       const coreFile = loadedZip.file("docProps/core.xml");
       if (coreFile) {
         const content = await coreFile.async("string");
-        const doc = parser.parseFromString(content, "application/xml");
+        const doc = XmlDocument.parse(content);
 
         props.title = getByLocalName(doc, "title");
         props.subject = getByLocalName(doc, "subject");
@@ -180,7 +1265,7 @@ export class ExcelService {
       const appFile = loadedZip.file("docProps/app.xml");
       if (appFile) {
         const content = await appFile.async("string");
-        const appDoc = parser.parseFromString(content, "application/xml");
+        const appDoc = XmlDocument.parse(content);
 
         props.company = getByLocalName(appDoc, "Company");
         props.manager = getByLocalName(appDoc, "Manager");
@@ -190,22 +1275,52 @@ export class ExcelService {
         props.linksDirty = getByLocalName(appDoc, "LinksUpToDate") === "false";
       }
 
+      // Custom Properties
+      const customDoc = await this.readXml(
+        loadedZip,
+        await this.getCustomPropertiesPath(loadedZip),
+      );
+      if (customDoc) props.custom = this.readCustomProperties(customDoc);
+
       return props;
     } catch (e) {
-      console.error("Failed to read properties", e);
-      return {};
+      if (e instanceof ExcelFileError) throw e;
+      throw new CorruptPackageError(
+        "The document properties could not be read. The file might be corrupted.",
+        { cause: e },
+      );
     }
   }
 
+  /** Writes the given document properties; undefined fields are left as-is. */
   static async updateProperties(
     file: Blob,
     newProps: ExcelProperties,
   ): Promise<Blob> {
-    const zip = new JSZip();
-    const loadedZip = await zip.loadAsync(file);
-    const parser = new DOMParser();
-    const serializer = new XMLSerializer();
+    const loadedZip = await this.loadPackage(file, () => {});
+    try {
+      await this.writeProperties(loadedZip, newProps);
+      // Keep the macro/template content type
+      return await this.generatePackage(
+        file,
+        loadedZip,
+        file.type || undefined,
+      );
+    } catch (e) {
+      if (e instanceof ExcelFileError || e instanceof InvalidPropertyError) {
+        throw e;
+      }
+      throw new CorruptPackageError(
+        "The document properties could not be updated. The file might be corrupted.",
+        { cause: e },
+      );
+    }
+  }
 
+  private static async writeProperties(
+    loadedZip: JSZip,
+    newProps: ExcelProperties,
+  ): Promise<void> {
     // Namespaces
     const dcNS = "http://purl.org/dc/elements/1.1/";
     const cpNS =
@@ -219,7 +1334,7 @@ export class ExcelService {
 
     // Helper to update or create simple text node with namespace support
     const updateTag = (
-      doc: Document,
+      doc: XmlDocument,
       localName: string,
       value: string | undefined | boolean,
       namespace: string | null = null,
@@ -228,7 +1343,7 @@ export class ExcelService {
       if (value === undefined) return;
 
       // Find by local name to be robust against prefix variations
-      let targetEl: Element | null = null;
+      let targetEl: XmlElement | null = null;
       const allEls = doc.getElementsByTagName("*"); // Inefficient but reliable for small XMLs
       for (let i = 0; i < allEls.length; i++) {
         if (allEls[i].localName === localName) {
@@ -248,21 +1363,21 @@ export class ExcelService {
           ? doc.createElementNS(namespace, localName)
           : doc.createElement(localName);
         newEl.textContent = strValue;
-        root.appendChild(newEl);
+        this.insertProperty(root, newEl);
       }
     };
 
     // --- Update Core Properties ---
     const corePath = "docProps/core.xml";
-    let coreDoc: Document;
+    let coreDoc: XmlDocument;
+    const hasCore = loadedZip.file(corePath) !== null;
 
-    if (loadedZip.file(corePath)) {
+    if (hasCore) {
       const content = await loadedZip.file(corePath)!.async("string");
-      coreDoc = parser.parseFromString(content, "application/xml");
+      coreDoc = XmlDocument.parse(content);
     } else {
-      coreDoc = parser.parseFromString(
+      coreDoc = XmlDocument.parse(
         `<cp:coreProperties xmlns:cp="${cpNS}" xmlns:dc="${dcNS}" xmlns:dcterms="${dctermsNS}" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="${xsiNS}"></cp:coreProperties>`,
-        "application/xml",
       );
     }
 
@@ -280,7 +1395,7 @@ export class ExcelService {
     // Dates require strict formatting and type attribute
     const updateDate = (localName: string, date?: Date) => {
       if (!date) return;
-      let targetEl: Element | null = null;
+      let targetEl: XmlElement | null = null;
       const allEls = coreDoc.getElementsByTagName("*");
       for (let i = 0; i < allEls.length; i++) {
         if (allEls[i].localName === localName) {
@@ -298,7 +1413,7 @@ export class ExcelService {
             ? "cp:lastPrinted"
             : `dcterms:${localName}`,
         );
-        coreDoc.documentElement.appendChild(targetEl);
+        this.insertProperty(coreDoc.documentElement, targetEl);
       }
 
       // Format: 2023-10-26T12:00:00Z
@@ -312,19 +1427,20 @@ export class ExcelService {
     updateDate("modified", newProps.modified);
     updateDate("lastPrinted", newProps.lastPrinted);
 
-    loadedZip.file(corePath, serializer.serializeToString(coreDoc));
+    this.writePart(loadedZip, corePath, coreDoc.toString());
+    if (!hasCore) await this.registerPackagePart(loadedZip, corePath);
 
     // --- Update App Properties ---
     const appPath = "docProps/app.xml";
-    let appDoc: Document;
+    let appDoc: XmlDocument;
+    const hasApp = loadedZip.file(appPath) !== null;
 
-    if (loadedZip.file(appPath)) {
+    if (hasApp) {
       const content = await loadedZip.file(appPath)!.async("string");
-      appDoc = parser.parseFromString(content, "application/xml");
+      appDoc = XmlDocument.parse(content);
     } else {
-      appDoc = parser.parseFromString(
+      appDoc = XmlDocument.parse(
         `<Properties xmlns="${extNS}" xmlns:vt="${vtNS}"></Properties>`,
-        "application/xml",
       );
     }
 
@@ -335,12 +1451,216 @@ export class ExcelService {
     updateTag(appDoc, "ScaleCrop", newProps.scale, extNS, true);
     updateTag(appDoc, "LinksUpToDate", newProps.linksDirty, extNS, true); // Logic usually inverted but let's stick to simple mapping for now
 
-    loadedZip.file(appPath, serializer.serializeToString(appDoc));
+    this.writePart(loadedZip, appPath, appDoc.toString());
+    if (!hasApp) await this.registerPackagePart(loadedZip, appPath);
 
-    return await loadedZip.generateAsync({
-      type: "blob",
-      compression: "DEFLATE",
-      compressionOptions: { level: 1 }, // Speed optimization
-    });
+    // --- Update Custom Properties ---
+    if (newProps.custom) {
+      await this.updateCustomProperties(loadedZip, newProps.custom);
+    }
+  }
+
+  // New core and extended properties go before the first existing one that
+  // Excel writes after them; unknown names are appended.
+  private static insertProperty(root: XmlElement, property: XmlElement) {
+    const order = PROPERTY_ORDER[root.localName] ?? [];
+    const index = order.indexOf(property.localName);
+    const successors = index === -1 ? [] : order.slice(index + 1);
+    const next = root.childNodes.find(
+      (node): node is XmlElement =>
+        node instanceof XmlElement && successors.includes(node.localName),
+    );
+    root.insertBefore(property, next ?? null);
+  }
+
+  // custom.xml is found through the package relationships, like Excel does
+  private static async getCustomPropertiesPath(
+    loadedZip: JSZip,
+  ): Promise<string> {
+    const rels = await this.readRelationships(loadedZip, "");
+    return (
+      rels?.find((rel) => rel.type === "custom-properties")?.path ??
+      CUSTOM_PROPERTIES_PATH
+    );
+  }
+
+  private static readCustomProperties(doc: XmlDocument): CustomProperty[] {
+    return doc
+      .getElementsByTagNameNS("*", "property")
+      .map((el) => this.readCustomProperty(el))
+      .filter((property): property is CustomProperty => property !== null);
+  }
+
+  // Null for a property whose value type cannot be edited
+  private static readCustomProperty(el: XmlElement): CustomProperty | null {
+    const name = el.getAttribute("name");
+    const valueEl = el.getElementsByTagName("*")[0];
+    const type = valueEl && CUSTOM_VALUE_TYPES[valueEl.localName];
+    if (!name || !type) return null;
+
+    const text = valueEl.textContent.trim();
+    switch (type) {
+      case "number":
+        return { name, type, value: Number(text) };
+      case "date":
+        return { name, type, value: new Date(text) };
+      case "boolean":
+        return { name, type, value: text === "true" || text === "1" };
+      default:
+        return { name, type, value: valueEl.textContent };
+    }
+  }
+
+  /**
+   * Replaces the editable custom properties with `properties`, creating
+   * custom.xml when needed. Left untouched when nothing changed.
+   */
+  private static async updateCustomProperties(
+    loadedZip: JSZip,
+    properties: CustomProperty[],
+  ) {
+    const customNS =
+      "http://schemas.openxmlformats.org/officeDocument/2006/custom-properties";
+    const vtNS =
+      "http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes";
+
+    const path = await this.getCustomPropertiesPath(loadedZip);
+    const existing = await this.readXml(loadedZip, path);
+    if (
+      existing
+        ? JSON.stringify(this.readCustomProperties(existing)) ===
+          JSON.stringify(properties)
+        : properties.length === 0
+    ) {
+      return;
+    }
+
+    const doc =
+      existing ??
+      XmlDocument.parse(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n<Properties xmlns="${customNS}" xmlns:vt="${vtNS}"></Properties>`,
+      );
+    const root = doc.documentElement;
+
+    // Properties of other value types stay, and keep their pids
+    const usedPids = new Set<string>();
+    for (const el of doc.getElementsByTagNameNS("*", "property")) {
+      if (this.readCustomProperty(el)) el.parentElement?.removeChild(el);
+      else usedPids.add(el.getAttribute("pid") ?? "");
+    }
+
+    // pids start at 2; 0 and 1 are reserved
+    let pid = 2;
+    for (const property of properties) {
+      while (usedPids.has(String(pid))) pid++;
+      const el = doc.createElementNS(customNS, "property");
+      el.setAttributeNS(null, "fmtid", CUSTOM_PROPERTY_FMTID);
+      el.setAttributeNS(null, "pid", String(pid++));
+      el.setAttributeNS(null, "name", property.name);
+
+      const [valueType, text] = this.formatCustomValue(property);
+      const valueEl = doc.createElementNS(vtNS, `vt:${valueType}`);
+      valueEl.textContent = text;
+      el.appendChild(valueEl);
+      root.appendChild(el);
+    }
+
+    this.writePart(loadedZip, path, doc.toString());
+    if (!existing) await this.registerPackagePart(loadedZip, path);
+  }
+
+  // vt: element and text for a custom property value. Throws
+  // InvalidPropertyError for a value its type cannot hold.
+  private static formatCustomValue({
+    name,
+    type,
+    value,
+  }: CustomProperty): [string, string] {
+    const invalid = () =>
+      new InvalidPropertyError(
+        `Custom property "${name}" has an invalid ${type} value: ${String(value)}`,
+      );
+    switch (type) {
+      case "number": {
+        const n =
+          typeof value === "string" && value.trim() ? Number(value) : value;
+        if (typeof n !== "number" || !Number.isFinite(n)) throw invalid();
+        return Number.isInteger(n) && n >= -0x80000000 && n <= 0x7fffffff
+          ? ["i4", String(n)]
+          : ["r8", String(n)];
+      }
+      case "date": {
+        const date =
+          value instanceof Date
+            ? value
+            : typeof value === "string"
+              ? new Date(value)
+              : null;
+        if (!date || isNaN(date.getTime())) throw invalid();
+        // FILETIME values are written without milliseconds
+        return ["filetime", date.toISOString().replace(/\.\d{3}Z$/, "Z")];
+      }
+      case "boolean": {
+        // The text forms readCustomProperty accepts back
+        const text = String(value).toLowerCase();
+        if (text === "true" || text === "1") return ["bool", "true"];
+        if (text === "false" || text === "0") return ["bool", "false"];
+        throw invalid();
+      }
+      default:
+        return ["lpwstr", String(value)];
+    }
+  }
+
+  /**
+   * Adds the content type override and package relationship of a document
+   * property part that was just created, unless they are already there.
+   */
+  private static async registerPackagePart(loadedZip: JSZip, path: string) {
+    const [relationshipType, contentType] =
+      PROPERTY_PART_TYPES[path] ?? PROPERTY_PART_TYPES[CUSTOM_PROPERTIES_PATH];
+
+    const contentTypes = await this.readXmlPart(loadedZip, CONTENT_TYPES_PATH);
+    if (
+      contentTypes &&
+      !contentTypes
+        .find("Override")
+        .some(
+          (el) =>
+            contentTypes.getAttribute(el, "PartName")?.toLowerCase() ===
+            `/${path}`.toLowerCase(),
+        )
+    ) {
+      contentTypes.insertElement(
+        "Override",
+        { PartName: `/${path}`, ContentType: contentType },
+        [],
+      );
+      this.writePart(loadedZip, CONTENT_TYPES_PATH, contentTypes.toString());
+    }
+
+    const relsPath = this.getRelsPath("");
+    const rels =
+      (await this.readXmlPart(loadedZip, relsPath)) ??
+      new XmlPart(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`,
+      );
+    const relationships = rels.find("Relationship");
+    if (
+      relationships.some(
+        (el) => rels.getAttribute(el, "Type") === relationshipType,
+      )
+    ) {
+      return;
+    }
+    const ids = new Set(relationships.map((el) => rels.getAttribute(el, "Id")));
+    let next = 1;
+    while (ids.has(`rId${next}`)) next++;
+    rels.insertElement(
+      "Relationship",
+      { Id: `rId${next}`, Type: relationshipType, Target: path },
+      [],
+    );
+    this.writePart(loadedZip, relsPath, rels.toString());
   }
 }
@@ -0,0 +1,102 @@
+import { DocumentInspectorService } from "./documentInspector";
+import { ExcelService } from "./excelService";
+import { PackageDiffService } from "./packageDiff";
+import { PackageRepairService } from "./packageRepair";
+import { PackageValidatorService } from "./packageValidator";
+import {
+  ExcelProperties,
+  InspectorCategory,
+  ProgressCallback,
+  ProgressInfo,
+  ProtectOptions,
+  UnprotectOptions,
+} from "../types";
+
+// Service methods the UI runs off the main thread. Each one receives
+// the progress callback first, then the arguments posted by the client.
+const METHODS = {
+  isEncrypted: (_: ProgressCallback, file: File) =>
+    ExcelService.isEncrypted(file),
+  decryptFile: (onProgress: ProgressCallback, file: File, password: string) =>
+    ExcelService.decryptFile(file, password, onProgress),
+  inspectFile: (onProgress: ProgressCallback, file: File) =>
+    ExcelService.inspectFile(file, onProgress),
+  unprotectFile: (
+    onProgress: ProgressCallback,
+    file: File,
+    options: UnprotectOptions,
+  ) => ExcelService.unprotectFile(file, onProgress, options),
+  protectFile: (
+    onProgress: ProgressCallback,
+    file: File,
+    options: ProtectOptions,
+  ) => ExcelService.protectFile(file, onProgress, options),
+  verifyPassword: (
+    onProgress: ProgressCallback,
+    file: File,
+    password: string,
+  ) => ExcelService.verifyPassword(file, password, onProgress),
+  inspectDocument: (onProgress: ProgressCallback, file: File) =>
+    DocumentInspectorService.inspect(file, onProgress),
+  cleanDocument: (
+    onProgress: ProgressCallback,
+    file: File,
+    categories: InspectorCategory[],
+  ) => DocumentInspectorService.clean(file, categories, onProgress),
+  repairFile: (onProgress: ProgressCallback, file: File) =>
+    PackageRepairService.repair(file, onProgress),
+  getProperties: (_: ProgressCallback, file: Blob) =>
+    ExcelService.getProperties(file),
+  updateProperties: (_: ProgressCallback, file: Blob, props: ExcelProperties) =>
+    ExcelService.updateProperties(file, props),
+  comparePackages: (_: ProgressCallback, original: Blob, processed: Blob) =>
+    PackageDiffService.compare(original, processed),
+  validatePackage: (_: ProgressCallback, original: Blob, output: Blob) =>
+    PackageValidatorService.validate(original, output),
+};
+
+export type WorkerMethod = keyof typeof METHODS;
+
+export type WorkerArgs<M extends WorkerMethod> = (typeof METHODS)[M] extends (
+  onProgress: ProgressCallback,
+  ...args: infer A
+) => unknown
+  ? A
+  : never;
+
+export type WorkerResult<M extends WorkerMethod> = Awaited<
+  ReturnType<(typeof METHODS)[M]>
+>;
+
+export interface WorkerRequest {
+  method: WorkerMethod;
+  args: unknown[];
+}
+
+export type WorkerResponse =
+  | { type: "progress"; step: string; progress?: ProgressInfo }
+  | { type: "result"; value: unknown }
+  | { type: "error"; name: string; message: string };
+
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { method, args } = event.data;
+  const post = (response: WorkerResponse) => scope.postMessage(response);
+  const run = METHODS[method] as (...params: unknown[]) => Promise<unknown>;
+
+  try {
+    const value = await run(
+      (step: string, progress?: ProgressInfo) =>
+        post({ type: "progress", step, progress }),
+      ...args,
+    );
+    post({ type: "result", value });
+  } catch (error: any) {
+    post({
+      type: "error",
+      name: error?.name || "Error",
+      message: error?.message || "An unexpected error occurred.",
+    });
+  }
+};
@@ -0,0 +1,77 @@
+import { ProgressCallback } from "../types";
+import { restoreError } from "./errors";
+import type {
+  WorkerArgs,
+  WorkerMethod,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerResult,
+} from "./excelWorker";
+
+/**
+ * Runs ExcelService methods in a Web Worker so JSZip and XML work never
+ * blocks the UI. Every call gets its own worker; cancelling terminates it.
+ */
+export class ExcelWorkerClient {
+  /**
+   * Calls `method` with `args` in a new worker. Aborting `signal` stops the
+   * work immediately and rejects with an error named "AbortError".
+   */
+  static run<M extends WorkerMethod>(
+    method: M,
+    args: WorkerArgs<M>,
+    onProgress: ProgressCallback = () => {},
+    signal?: AbortSignal,
+  ): Promise<WorkerResult<M>> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createAbortError());
+        return;
+      }
+
+      const worker = new Worker(new URL("./excelWorker.ts", import.meta.url), {
+        type: "module",
+      });
+      const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        finish();
+        reject(this.createAbortError());
+      };
+      signal?.addEventListener("abort", onAbort);
+
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        if (response.type === "progress") {
+          onProgress(response.step, response.progress);
+          return;
+        }
+        finish();
+        if (response.type === "result") {
+          resolve(response.value as WorkerResult<M>);
+        } else {
+          reject(restoreError(response.name, response.message));
+        }
+      };
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || "Background processing failed."));
+      };
+
+      const request: WorkerRequest = { method, args };
+      worker.postMessage(request);
+    });
+  }
+
+  static isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === "AbortError";
+  }
+
+  private static createAbortError(): Error {
+    const error = new Error("Processing was cancelled.");
+    error.name = "AbortError";
+    return error;
+  }
+}
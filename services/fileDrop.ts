@@ -0,0 +1,50 @@
+import { BatchFile } from "../types";
+
+/**
+ * Collects the files of a drag-and-drop, descending into dropped folders
+ * through the File and Directory Entries API where the browser offers it.
+ */
+export class FileDropService {
+  static async collect(dataTransfer: DataTransfer): Promise<BatchFile[]> {
+    // Items are only readable while the drop event is being dispatched,
+    // so every entry is taken before the first await.
+    const entries = Array.from(dataTransfer.items)
+      .filter((item) => item.kind === "file")
+      .map((item) => item.webkitGetAsEntry?.() ?? null);
+    if (entries.length === 0 || entries.some((entry) => !entry)) {
+      return Array.from(dataTransfer.files).map((file) => ({
+        file,
+        path: file.name,
+      }));
+    }
+
+    const files: BatchFile[] = [];
+    for (const entry of entries) {
+      await this.readEntry(entry!, files);
+    }
+    return files;
+  }
+
+  private static async readEntry(
+    entry: FileSystemEntry,
+    files: BatchFile[],
+  ): Promise<void> {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject),
+      );
+      files.push({ file, path: entry.fullPath.replace(/^\//, "") });
+      return;
+    }
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns the folder in batches until it yields none
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+        reader.readEntries(resolve, reject),
+      );
+      if (batch.length === 0) break;
+      for (const child of batch) await this.readEntry(child, files);
+    }
+  }
+}
@@ -0,0 +1,395 @@
+import {
+  ProtectionReport,
+  SheetKind,
+  SheetReport,
+  SheetState,
+  UnprotectOptions,
+} from "../types";
+import { CompoundFile } from "./compoundFile";
+import { EncryptedFileError, UnsupportedFormatError } from "./errors";
+
+// BIFF8 record types
+const RT_BOF = 0x0809;
+const RT_EOF = 0x000a;
+const RT_FILEPASS = 0x002f;
+const RT_BOUNDSHEET8 = 0x0085;
+const RT_INDEX = 0x020b;
+const RT_EXTSST = 0x00ff;
+const RT_FEATHDR = 0x0867;
+const RT_PROTECT = 0x0012;
+const RT_PASSWORD = 0x0013;
+const RT_WINDOWPROTECT = 0x0019;
+const RT_OBJPROTECT = 0x0063;
+const RT_SCENPROTECT = 0x00dd;
+const RT_XF = 0x00e0;
+
+// Flags in the XF record's first byte after ifnt and ifmt
+const XF_LOCKED = 0x01;
+const XF_HIDDEN = 0x02; // Formula hidden
+const XF_STYLE = 0x04; // A cell style rather than a cell format
+
+const PROTECTION_RECORDS = [
+  RT_PROTECT,
+  RT_PASSWORD,
+  RT_WINDOWPROTECT,
+  RT_OBJPROTECT,
+  RT_SCENPROTECT,
+];
+
+// Enhanced protection bits in FEATHDR, in the order of the sheetProtection
+// flags; a set bit means the action is allowed.
+const ENHANCED_PROTECTION_FLAGS = [
+  "objects",
+  "scenarios",
+  "formatCells",
+  "formatColumns",
+  "formatRows",
+  "insertColumns",
+  "insertRows",
+  "insertHyperlinks",
+  "deleteColumns",
+  "deleteRows",
+  "selectLockedCells",
+  "sort",
+  "autoFilter",
+  "pivotTables",
+  "selectUnlockedCells",
+];
+
+const ISF_PROTECTION = 2;
+
+// BoundSheet8 dt values
+const SHEET_TYPES: Record<number, SheetKind> = {
+  0: "worksheet",
+  1: "macrosheet",
+  2: "chartsheet",
+};
+
+interface BiffRecord {
+  type: number;
+  pos: number; // Stream position of the record header
+  data: Uint8Array;
+  substream: number; // 0 = workbook globals, then one per sheet
+}
+
+interface BoundSheet {
+  name: string;
+  kind: SheetKind;
+  state: SheetState;
+  bofPos: number;
+  record: BiffRecord;
+}
+
+/**
+ * Native unprotection of legacy .xls (BIFF8) workbooks. The protection
+ * records are dropped from the Workbook stream and every absolute stream
+ * position that follows them is shifted, so the file is never converted.
+ */
+export class LegacyWorkbookService {
+  static inspect(bytes: Uint8Array): ProtectionReport {
+    const cfb = CompoundFile.read(bytes, "legacy .xls file");
+    const stream = this.getWorkbookStream(cfb).content;
+    return this.buildReport(this.parseRecords(stream));
+  }
+
+  static unprotect(
+    bytes: Uint8Array,
+    options: UnprotectOptions,
+    onProgress: (step: string) => void,
+  ): { bytes: Uint8Array; report: ProtectionReport } {
+    onProgress("Reading workbook stream...");
+    const cfb = CompoundFile.read(bytes, "legacy .xls file");
+    const entry = this.getWorkbookStream(cfb);
+    const records = this.parseRecords(entry.content);
+    const report = this.buildReport(records);
+    const sheets = this.readBoundSheets(records);
+
+    // Substreams whose protection records are dropped
+    const stripped = new Set<number>();
+    if (report.workbook && (options.workbook ?? true)) stripped.add(0);
+    report.sheets.forEach((sheet, i) => {
+      const selected = !options.sheets || options.sheets.includes(sheet.path);
+      const substream = this.getSubstream(records, sheets[i]);
+      if (sheet.protection && selected && substream > 0) {
+        stripped.add(substream);
+      }
+    });
+
+    onProgress("Removing protection records...");
+    const removed = records.filter(
+      (r) => stripped.has(r.substream) && PROTECTION_RECORDS.includes(r.type),
+    );
+    const shift = (pos: number) =>
+      pos -
+      removed
+        .filter((r) => r.pos < pos)
+        .reduce((n, r) => n + 4 + r.data.length, 0);
+
+    // The stream keeps its length, zero padded like Excel pads it, so it is
+    // rewritten in the sectors it already occupies
+    const out = new Uint8Array(entry.content.length);
+    const view = new DataView(out.buffer);
+    let offset = 0;
+    for (const record of records) {
+      if (removed.includes(record)) continue;
+      view.setUint16(offset, record.type, true);
+      view.setUint16(offset + 2, record.data.length, true);
+      out.set(record.data, offset + 4);
+      const body = offset + 4;
+
+      // Fix absolute stream positions
+      if (record.type === RT_BOUNDSHEET8) {
+        view.setUint32(body, shift(view.getUint32(body, true)), true);
+        const sheet = sheets.find((s) => s.record === record)!;
+        const path = this.getSheetPath(sheet.name);
+        if (sheet.state !== "visible" && options.unhideSheets?.includes(path)) {
+          onProgress(`Unhiding ${sheet.name}...`);
+          out[body + 4] &= ~0x03;
+        }
+      } else if (record.type === RT_INDEX && record.data.length >= 16) {
+        // reserved, rwMic and rwMac (row numbers), then ibXF and rgibRw
+        view.setUint32(body + 12, shift(view.getUint32(body + 12, true)), true);
+        for (let i = body + 16; i + 4 <= body + record.data.length; i += 4) {
+          view.setUint32(i, shift(view.getUint32(i, true)), true);
+        }
+      } else if (this.isCellXf(record)) {
+        if (options.unlockCells) out[body + 4] &= ~XF_LOCKED;
+        if (options.revealFormulas) out[body + 4] &= ~XF_HIDDEN;
+      } else if (record.type === RT_EXTSST) {
+        for (let i = body + 2; i + 8 <= body + record.data.length; i += 8) {
+          view.setUint32(i, shift(view.getUint32(i, true)), true);
+        }
+      }
+      offset += 4 + record.data.length;
+    }
+
+    onProgress("Repackaging Excel file...");
+    return {
+      bytes: CompoundFile.overwriteStream(bytes, "/Workbook", out),
+      report,
+    };
+  }
+
+  private static getWorkbookStream(cfb: ReturnType<typeof CompoundFile.read>) {
+    const entry = CompoundFile.findStream(cfb, "/Workbook");
+    if (!entry) {
+      if (CompoundFile.findStream(cfb, "/EncryptionInfo")) {
+        throw new EncryptedFileError(
+          "This file is encrypted with a 'Password to Open'. This tool cannot bypass opening passwords, only sheet/workbook protection.",
+        );
+      }
+      throw new UnsupportedFormatError(
+        "Only Excel 97-2003 (BIFF8) .xls files are supported. Older formats must be re-saved in Excel first.",
+      );
+    }
+    return entry;
+  }
+
+  private static parseRecords(stream: Uint8Array): BiffRecord[] {
+    const view = new DataView(
+      stream.buffer,
+      stream.byteOffset,
+      stream.byteLength,
+    );
+    const records: BiffRecord[] = [];
+    let substream = -1;
+    let depth = 0; // Embedded charts nest their own BOF/EOF in a sheet
+    let pos = 0;
+    while (pos + 4 <= stream.length) {
+      const type = view.getUint16(pos, true);
+      const size = view.getUint16(pos + 2, true);
+      // Trailing padding
+      if (pos + 4 + size > stream.length || (type === 0 && size === 0)) break;
+      if (type === RT_BOF) {
+        if (substream === -1 && view.getUint16(pos + 4, true) !== 0x0600) {
+          throw new UnsupportedFormatError(
+            "Only Excel 97-2003 (BIFF8) .xls files are supported. Older formats must be re-saved in Excel first.",
+          );
+        }
+        if (depth++ === 0) substream++;
+      }
+      if (type === RT_EOF) depth = Math.max(0, depth - 1);
+      if (type === RT_FILEPASS) {
+        throw new EncryptedFileError(
+          "This file is encrypted with a 'Password to Open'. This tool cannot bypass opening passwords, only sheet/workbook protection.",
+        );
+      }
+      records.push({
+        type,
+        pos,
+        data: stream.subarray(pos + 4, pos + 4 + size),
+        substream,
+      });
+      pos += 4 + size;
+    }
+    return records;
+  }
+
+  private static readBoundSheets(records: BiffRecord[]): BoundSheet[] {
+    return records
+      .filter((r) => r.type === RT_BOUNDSHEET8)
+      .map((record) => {
+        const d = record.data;
+        const cch = d[6];
+        const highByte = (d[7] & 0x01) === 1;
+        let name = "";
+        for (let i = 0; i < cch; i++) {
+          name += highByte
+            ? String.fromCharCode(d[8 + i * 2] | (d[9 + i * 2] << 8))
+            : String.fromCharCode(d[8 + i]);
+        }
+        const hsState = d[4] & 0x03;
+        return {
+          name,
+          kind: SHEET_TYPES[d[5]] ?? "dialogsheet",
+          state:
+            hsState === 2 ? "veryHidden" : hsState === 1 ? "hidden" : "visible",
+          bofPos: new DataView(d.buffer, d.byteOffset, 4).getUint32(0, true),
+          record,
+        };
+      });
+  }
+
+  // .xls has no parts; sheets are keyed by name inside the Workbook stream
+  private static getSheetPath(name: string): string {
+    return `Workbook/${name}`;
+  }
+
+  private static buildReport(records: BiffRecord[]): ProtectionReport {
+    const value = (substream: number, type: number) => {
+      const record = records.find(
+        (r) => r.substream === substream && r.type === type,
+      );
+      return record && record.data.length >= 2
+        ? record.data[0] | (record.data[1] << 8)
+        : 0;
+    };
+    const password = (substream: number) => {
+      const hash = value(substream, RT_PASSWORD);
+      return hash
+        ? hash.toString(16).toUpperCase().padStart(4, "0")
+        : undefined;
+    };
+
+    const report: ProtectionReport = {
+      workbook: null,
+      sheets: [],
+      fileSharing: null,
+      vbaProject: null,
+      cellProtection: null,
+    };
+
+    const cellXfs = records.filter((r) => this.isCellXf(r));
+    if (cellXfs.length > 0) {
+      report.cellProtection = {
+        formats: cellXfs.length,
+        locked: cellXfs.filter((r) => r.data[4] & XF_LOCKED).length,
+        hidden: cellXfs.filter((r) => r.data[4] & XF_HIDDEN).length,
+      };
+    }
+
+    const lockStructure = value(0, RT_PROTECT) === 1;
+    const lockWindows = value(0, RT_WINDOWPROTECT) === 1;
+    if (lockStructure || lockWindows) {
+      report.workbook = {
+        hasHash: false,
+        hasSalt: false,
+        legacyPassword: password(0),
+        lockStructure,
+        lockWindows,
+        lockRevision: false,
+      };
+    }
+
+    this.readBoundSheets(records).forEach((sheet) => {
+      const substream = this.getSubstream(records, sheet);
+      const isProtected = substream > 0 && value(substream, RT_PROTECT) === 1;
+
+      const sheetReport: SheetReport = {
+        name: sheet.name,
+        path: this.getSheetPath(sheet.name),
+        kind: sheet.kind,
+        state: sheet.state,
+        protection: isProtected
+          ? {
+              hasHash: false,
+              hasSalt: false,
+              legacyPassword: password(substream),
+              allowedActions: this.getAllowedActions(records, substream, sheet),
+            }
+          : null,
+        protectedRanges: [],
+      };
+      report.sheets.push(sheetReport);
+    });
+    return report;
+  }
+
+  // Each BoundSheet8 points at the BOF that starts its substream; -1 when
+  // there is no BOF at that position
+  private static getSubstream(
+    records: BiffRecord[],
+    sheet: BoundSheet,
+  ): number {
+    const bof = records.find(
+      (r) => r.type === RT_BOF && r.substream > 0 && r.pos === sheet.bofPos,
+    );
+    return bof ? bof.substream : -1;
+  }
+
+  // XF records of the globals substream that format cells, not styles
+  private static isCellXf(record: BiffRecord): boolean {
+    return (
+      record.type === RT_XF &&
+      record.substream === 0 &&
+      record.data.length >= 6 &&
+      !(record.data[4] & XF_STYLE)
+    );
+  }
+
+  private static getAllowedActions(
+    records: BiffRecord[],
+    substream: number,
+    sheet: BoundSheet,
+  ): string[] {
+    const objectsLocked = records.some(
+      (r) =>
+        r.substream === substream &&
+        r.type === RT_OBJPROTECT &&
+        r.data[0] === 1,
+    );
+    if (sheet.kind === "chartsheet") {
+      return objectsLocked ? [] : ["objects"];
+    }
+
+    // Enhanced protection: FrtHeader (12), isf (2), reserved (1), cbHdrData (4)
+    const featHdr = records.find(
+      (r) =>
+        r.substream === substream &&
+        r.type === RT_FEATHDR &&
+        r.data.length >= 23 &&
+        (r.data[12] | (r.data[13] << 8)) === ISF_PROTECTION,
+    );
+    if (featHdr) {
+      const d = featHdr.data;
+      const bits = new DataView(d.buffer, d.byteOffset + 19, 4).getUint32(
+        0,
+        true,
+      );
+      return ENHANCED_PROTECTION_FLAGS.filter((_, i) => bits & (1 << i));
+    }
+
+    const scenariosLocked = records.some(
+      (r) =>
+        r.substream === substream &&
+        r.type === RT_SCENPROTECT &&
+        r.data[0] === 1,
+    );
+    return [
+      ...(objectsLocked ? [] : ["objects"]),
+      ...(scenariosLocked ? [] : ["scenarios"]),
+      "selectLockedCells",
+      "selectUnlockedCells",
+    ];
+  }
+}
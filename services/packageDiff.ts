@@ -0,0 +1,206 @@
+import JSZip from "jszip";
+import { DiffLine, PartDiff } from "../types";
+
+// Unchanged tokens shown around each change
+const CONTEXT_TOKENS = 2;
+// Myers edit distance after which a part is reported without its lines
+const MAX_EDITS = 2000;
+// Long text runs and hash attributes are cut in the listing
+const MAX_TOKEN_LENGTH = 400;
+
+const XML_PART = /\.(xml|rels|vml)$/i;
+
+type EditOp = "equal" | "removed" | "added";
+
+/**
+ * Compares two ZIP packages part by part. XML parts are diffed per tag and
+ * text run, so a removed element shows up as one line even in a part that
+ * is stored on a single line.
+ */
+export class PackageDiffService {
+  static async compare(original: Blob, processed: Blob): Promise<PartDiff[]> {
+    const [before, after] = await Promise.all([
+      new JSZip().loadAsync(await original.arrayBuffer()),
+      new JSZip().loadAsync(await processed.arrayBuffer()),
+    ]);
+    const paths = new Set([
+      ...Object.keys(before.files),
+      ...Object.keys(after.files),
+    ]);
+
+    const diffs: PartDiff[] = [];
+    for (const path of paths) {
+      const oldEntry = before.files[path];
+      const newEntry = after.files[path];
+      if (oldEntry?.dir || newEntry?.dir) continue;
+      const oldBytes = oldEntry ? await oldEntry.async("uint8array") : null;
+      const newBytes = newEntry ? await newEntry.async("uint8array") : null;
+      if (oldBytes && newBytes && this.sameBytes(oldBytes, newBytes)) continue;
+      diffs.push(this.diffPart(path, oldBytes, newBytes));
+    }
+    return diffs.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private static diffPart(
+    path: string,
+    oldBytes: Uint8Array | null,
+    newBytes: Uint8Array | null,
+  ): PartDiff {
+    const diff: PartDiff = {
+      path,
+      status: !oldBytes ? "added" : !newBytes ? "removed" : "modified",
+      isXml: XML_PART.test(path),
+      originalSize: oldBytes?.length ?? 0,
+      processedSize: newBytes?.length ?? 0,
+      removed: 0,
+      added: 0,
+      lines: [],
+    };
+    if (!diff.isXml) return diff;
+
+    const decoder = new TextDecoder();
+    const a = this.tokenize(oldBytes ? decoder.decode(oldBytes) : "");
+    const b = this.tokenize(newBytes ? decoder.decode(newBytes) : "");
+    const ops = this.diffTokens(a, b);
+    if (!ops) {
+      diff.truncated = true;
+      return diff;
+    }
+    diff.removed = ops.filter((op) => op.type === "removed").length;
+    diff.added = ops.filter((op) => op.type === "added").length;
+    diff.lines = this.buildLines(ops);
+    return diff;
+  }
+
+  private static sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+  }
+
+  // One token per tag (declaration, comment, element) or text run
+  private static tokenize(xml: string): string[] {
+    return (xml.match(/<[^>]*>|[^<]+/g) ?? []).filter((t) => t.trim() !== "");
+  }
+
+  /**
+   * Myers' O((N+M)D) diff on the tokens left after trimming the common
+   * prefix and suffix. Returns null when more than MAX_EDITS are needed.
+   */
+  private static diffTokens(
+    a: string[],
+    b: string[],
+  ): { type: EditOp; text: string }[] | null {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+      start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+      endA--;
+      endB--;
+    }
+    const n = endA - start;
+    const m = endB - start;
+    const same = (x: number, y: number) => a[start + x] === b[start + y];
+
+    // trace[d][k + d] is the furthest x reached on diagonal k with d edits
+    const trace: Int32Array[] = [];
+    let found = false;
+    for (let d = 0; d <= Math.min(n + m, MAX_EDITS) && !found; d++) {
+      const prev = trace[d - 1];
+      const v = new Int32Array(2 * d + 1);
+      for (let k = -d; k <= d; k += 2) {
+        let x =
+          d === 0
+            ? 0
+            : k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])
+              ? prev[k + 1 + d - 1]
+              : prev[k - 1 + d - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && same(x, y)) {
+          x++;
+          y++;
+        }
+        v[k + d] = x;
+        if (x >= n && y >= m) {
+          found = true;
+          break;
+        }
+      }
+      trace.push(v);
+    }
+    if (!found) return null;
+
+    // Walk the trace back from the end to recover the edit script
+    const middle: { type: EditOp; text: string }[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+      const prev = trace[d - 1];
+      const k = x - y;
+      const prevK =
+        k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])
+          ? k + 1
+          : k - 1;
+      const prevX = prev[prevK + d - 1];
+      const prevY = prevX - prevK;
+      while (x > prevX && y > prevY) {
+        middle.push({ type: "equal", text: a[start + --x] });
+        y--;
+      }
+      if (x === prevX) middle.push({ type: "added", text: b[start + --y] });
+      else middle.push({ type: "removed", text: a[start + --x] });
+    }
+    while (x > 0) {
+      middle.push({ type: "equal", text: a[start + --x] });
+    }
+    middle.reverse();
+
+    return [
+      ...a.slice(0, start).map((text) => ({ type: "equal" as const, text })),
+      ...middle,
+      ...a.slice(endA).map((text) => ({ type: "equal" as const, text })),
+    ];
+  }
+
+  // Keeps CONTEXT_TOKENS unchanged tokens around each change and collapses
+  // the rest into "gap" lines.
+  private static buildLines(ops: { type: EditOp; text: string }[]): DiffLine[] {
+    const keep = new Uint8Array(ops.length);
+    ops.forEach((op, i) => {
+      if (op.type === "equal") return;
+      const from = Math.max(0, i - CONTEXT_TOKENS);
+      const to = Math.min(ops.length - 1, i + CONTEXT_TOKENS);
+      for (let j = from; j <= to; j++) keep[j] = 1;
+    });
+
+    const lines: DiffLine[] = [];
+    let skipped = 0;
+    ops.forEach((op, i) => {
+      if (!keep[i]) {
+        skipped++;
+        return;
+      }
+      if (skipped > 0) {
+        lines.push(this.gap(skipped));
+        skipped = 0;
+      }
+      const text =
+        op.text.length > MAX_TOKEN_LENGTH
+          ? `${op.text.slice(0, MAX_TOKEN_LENGTH)}…`
+          : op.text;
+      lines.push({ type: op.type === "equal" ? "context" : op.type, text });
+    });
+    if (skipped > 0) lines.push(this.gap(skipped));
+    return lines;
+  }
+
+  private static gap(count: number): DiffLine {
+    return {
+      type: "gap",
+      text: `${count} unchanged node${count === 1 ? "" : "s"}`,
+    };
+  }
+}
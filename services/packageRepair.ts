@@ -0,0 +1,577 @@
+import JSZip from "jszip";
+import { CorruptPackageError } from "./errors";
+import { ExcelService } from "./excelService";
+import { XmlDocument } from "./xmlDom";
+import { XmlElementRange, XmlPart } from "./xmlPart";
+import { ZipPackage } from "./zipPackage";
+import { ProgressCallback, RepairResult } from "../types";
+
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const ROOT_RELS_PATH = "_rels/.rels";
+const WORKBOOK_PATH = "xl/workbook.xml";
+const WORKBOOK_RELS_PATH = "xl/_rels/workbook.xml.rels";
+const APP_PROPERTIES_PATH = "docProps/app.xml";
+
+const PACKAGE_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const CONTENT_TYPES_NS =
+  "http://schemas.openxmlformats.org/package/2006/content-types";
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const MS_RELATIONSHIPS_NS =
+  "http://schemas.microsoft.com/office/2006/relationships";
+
+// Workbook part content type for each file extension
+const WORKBOOK_CONTENT_TYPES: Record<string, string> = {
+  ".xlsx":
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml",
+  ".xlsm": "application/vnd.ms-excel.sheet.macroEnabled.main+xml",
+  ".xltx":
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.template.main+xml",
+  ".xltm": "application/vnd.ms-excel.template.macroEnabled.main+xml",
+  ".xlam": "application/vnd.ms-excel.addin.macroEnabled.main+xml",
+};
+
+// Content types of the parts Excel writes, by conventional location
+const PART_CONTENT_TYPES: [RegExp, string][] = [
+  [
+    /^xl\/worksheets\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml",
+  ],
+  [
+    /^xl\/chartsheets\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.chartsheet+xml",
+  ],
+  [
+    /^xl\/dialogsheets\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.dialogsheet+xml",
+  ],
+  [/^xl\/macrosheets\/[^/]+\.xml$/, "application/vnd.ms-excel.macrosheet+xml"],
+  [
+    /^xl\/styles\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml",
+  ],
+  [
+    /^xl\/sharedStrings\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml",
+  ],
+  [
+    /^xl\/calcChain\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.calcChain+xml",
+  ],
+  [
+    /^xl\/theme\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.theme+xml",
+  ],
+  [
+    /^xl\/drawings\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.drawing+xml",
+  ],
+  [
+    /^xl\/charts\/chart\d*\.xml$/,
+    "application/vnd.openxmlformats-officedocument.drawingml.chart+xml",
+  ],
+  [/^xl\/charts\/style\d*\.xml$/, "application/vnd.ms-office.chartstyle+xml"],
+  [
+    /^xl\/charts\/colors\d*\.xml$/,
+    "application/vnd.ms-office.chartcolorstyle+xml",
+  ],
+  [
+    /^xl\/comments\d*\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml",
+  ],
+  [
+    /^xl\/threadedComments\/[^/]+\.xml$/,
+    "application/vnd.ms-excel.threadedcomments+xml",
+  ],
+  [/^xl\/persons\/[^/]+\.xml$/, "application/vnd.ms-excel.person+xml"],
+  [
+    /^xl\/tables\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml",
+  ],
+  [
+    /^xl\/externalLinks\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.externalLink+xml",
+  ],
+  [
+    /^xl\/pivotTables\/[^/]+\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotTable+xml",
+  ],
+  [
+    /^xl\/pivotCache\/pivotCacheDefinition\d*\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotCacheDefinition+xml",
+  ],
+  [
+    /^xl\/pivotCache\/pivotCacheRecords\d*\.xml$/,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.pivotCacheRecords+xml",
+  ],
+  [/^xl\/vbaProject\.bin$/, "application/vnd.ms-office.vbaProject"],
+  [
+    /^docProps\/core\.xml$/,
+    "application/vnd.openxmlformats-package.core-properties+xml",
+  ],
+  [
+    /^docProps\/app\.xml$/,
+    "application/vnd.openxmlformats-officedocument.extended-properties+xml",
+  ],
+  [
+    /^docProps\/custom\.xml$/,
+    "application/vnd.openxmlformats-officedocument.custom-properties+xml",
+  ],
+  [
+    /^customXml\/itemProps\d*\.xml$/,
+    "application/vnd.openxmlformats-officedocument.customXmlProperties+xml",
+  ],
+];
+
+const DEFAULT_CONTENT_TYPES: Record<string, string> = {
+  rels: "application/vnd.openxmlformats-package.relationships+xml",
+  xml: "application/xml",
+  bin: "application/vnd.openxmlformats-officedocument.spreadsheetml.printerSettings",
+  vml: "application/vnd.openxmlformats-officedocument.vmlDrawing",
+  png: "image/png",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  gif: "image/gif",
+  emf: "image/x-emf",
+  wmf: "image/x-wmf",
+};
+
+// Package-level relationships, rebuilt for whichever parts survived
+const ROOT_RELATIONSHIPS: [string, string][] = [
+  [WORKBOOK_PATH, `${RELATIONSHIPS_NS}/officeDocument`],
+  ["docProps/core.xml", `${PACKAGE_NS}/metadata/core-properties`],
+  ["docProps/app.xml", `${RELATIONSHIPS_NS}/extended-properties`],
+  ["docProps/custom.xml", `${RELATIONSHIPS_NS}/custom-properties`],
+  ["docProps/thumbnail.jpeg", `${PACKAGE_NS}/metadata/thumbnail`],
+];
+
+// Sheet folders and their relationship types, one per sheet kind
+const SHEET_RELATIONSHIPS: [string, string][] = [
+  ["xl/worksheets/", `${RELATIONSHIPS_NS}/worksheet`],
+  ["xl/chartsheets/", `${RELATIONSHIPS_NS}/chartsheet`],
+  ["xl/dialogsheets/", `${RELATIONSHIPS_NS}/dialogsheet`],
+  ["xl/macrosheets/", `${MS_RELATIONSHIPS_NS}/xlMacrosheet`],
+];
+
+// docProps/app.xml groups the sheet names by kind under these headings
+const SHEET_HEADINGS: Record<string, string> = {
+  Worksheets: "xl/worksheets/",
+  Charts: "xl/chartsheets/",
+};
+
+const WORKBOOK_RELATIONSHIPS: [string, string][] = [
+  ["xl/styles.xml", `${RELATIONSHIPS_NS}/styles`],
+  ["xl/sharedStrings.xml", `${RELATIONSHIPS_NS}/sharedStrings`],
+  ["xl/theme/theme1.xml", `${RELATIONSHIPS_NS}/theme`],
+  ["xl/vbaProject.bin", `${MS_RELATIONSHIPS_NS}/vbaProject`],
+];
+
+// Elements that only hold a relationship id, and the lists they sit in
+const REFERENCE_ELEMENTS = [
+  "drawing",
+  "legacyDrawing",
+  "legacyDrawingHF",
+  "picture",
+  "tablePart",
+  "pivotCache",
+  "externalReference",
+];
+const REFERENCE_LISTS = ["tableParts", "pivotCaches", "externalReferences"];
+
+/**
+ * Recovers what it can from a package JSZip refuses to open, typically a
+ * truncated download: every intact part is salvaged from its local header,
+ * and missing bookkeeping parts are regenerated.
+ */
+export class PackageRepairService {
+  static async repair(
+    file: File,
+    onProgress: ProgressCallback = () => {},
+  ): Promise<RepairResult> {
+    onProgress("Scanning for readable parts...");
+    const salvaged = await ZipPackage.salvage(
+      new Uint8Array(await file.arrayBuffer()),
+    );
+    if (!salvaged.recovered.includes(WORKBOOK_PATH)) {
+      throw new CorruptPackageError(
+        salvaged.recovered.length === 0
+          ? "No readable parts were found in the file."
+          : `The workbook part (${WORKBOOK_PATH}) could not be recovered.`,
+      );
+    }
+
+    onProgress("Rebuilding package structure...");
+    const zip = await new JSZip().loadAsync(salvaged.bytes);
+    const rebuilt: string[] = [];
+    const changed = new Set<string>();
+    const lost = new Set(salvaged.damaged);
+
+    if (!zip.file(ROOT_RELS_PATH)) {
+      zip.file(
+        ROOT_RELS_PATH,
+        this.buildRelationships(
+          ROOT_RELATIONSHIPS.filter(([path]) => zip.file(path)).map(
+            ([path, type], i) => ({ id: `rId${i + 1}`, type, target: path }),
+          ),
+        ),
+      );
+      rebuilt.push(ROOT_RELS_PATH);
+    }
+    if (!zip.file(WORKBOOK_RELS_PATH)) {
+      zip.file(
+        WORKBOOK_RELS_PATH,
+        this.buildWorkbookRelationships(
+          zip,
+          await zip.file(WORKBOOK_PATH)!.async("string"),
+          (await zip.file(APP_PROPERTIES_PATH)?.async("string")) ?? null,
+          salvaged.damaged,
+        ),
+      );
+      rebuilt.push(WORKBOOK_RELS_PATH);
+    }
+    for (const name of await this.dropLostSheets(zip, changed)) {
+      lost.add(`Sheet "${name}"`);
+    }
+    // Last, so it also covers the relationship parts rebuilt above
+    if (!zip.file(CONTENT_TYPES_PATH)) {
+      zip.file(
+        CONTENT_TYPES_PATH,
+        this.buildContentTypes(zip, ExcelService.getExtension(file.name)),
+      );
+      rebuilt.push(CONTENT_TYPES_PATH);
+    }
+
+    for (const path of await this.findMissingParts(zip)) lost.add(path);
+    await this.dropMissingReferences(zip, changed);
+
+    const bytes =
+      (await ZipPackage.rebuild(salvaged.bytes, zip, changed)) ??
+      (await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" }));
+    onProgress("Completed");
+    return {
+      file: new File([bytes], file.name, { type: file.type }),
+      report: {
+        recoveredParts: salvaged.recovered,
+        rebuiltParts: rebuilt,
+        lostParts: [...lost].sort(),
+      },
+    };
+  }
+
+  // Parts that relationships or content type overrides still point to, and
+  // the relationship parts of parts that reference others by r:id.
+  private static async findMissingParts(zip: JSZip): Promise<string[]> {
+    const missing: string[] = [];
+    const parts = Object.keys(zip.files).filter((p) => !zip.files[p].dir);
+    for (const path of parts) {
+      if (path.endsWith(".rels")) {
+        const doc = XmlDocument.parse(await zip.file(path)!.async("string"));
+        const source = path.replace(/(^|\/)_rels\/([^/]*)\.rels$/, "$1$2");
+        for (const rel of doc.getElementsByTagNameNS("*", "Relationship")) {
+          const target = rel.getAttribute("Target");
+          if (!target || rel.getAttribute("TargetMode") === "External") {
+            continue;
+          }
+          const resolved = ExcelService.resolveTarget(source, target);
+          if (!zip.file(resolved)) missing.push(resolved);
+        }
+      } else if (path === CONTENT_TYPES_PATH) {
+        const doc = XmlDocument.parse(await zip.file(path)!.async("string"));
+        for (const override of doc.getElementsByTagNameNS("*", "Override")) {
+          const partName = (override.getAttribute("PartName") ?? "").slice(1);
+          if (partName && !zip.file(partName)) missing.push(partName);
+        }
+      } else if (/\.xml$/i.test(path)) {
+        const text = await zip.file(path)!.async("string");
+        const slash = path.lastIndexOf("/");
+        const relsPath = `${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`;
+        if (/\sr:(id|embed|link|pict)="/.test(text) && !zip.file(relsPath)) {
+          missing.push(relsPath);
+        }
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Removes the relationships and content type overrides that point to
+   * parts that are not in the package, with the elements that refer to
+   * those relationships by r:id, so the repaired package is consistent.
+   */
+  private static async dropMissingReferences(zip: JSZip, changed: Set<string>) {
+    const write = (path: string, part: XmlPart) => {
+      if (!part.changed) return;
+      zip.file(path, part.toString());
+      changed.add(path);
+    };
+    const relsPaths = Object.keys(zip.files).filter(
+      (path) => !zip.files[path].dir && path.endsWith(".rels"),
+    );
+    for (const path of relsPaths) {
+      const source = path.replace(/(^|\/)_rels\/([^/]*)\.rels$/, "$1$2");
+      const relsPart = new XmlPart(await zip.file(path)!.async("string"));
+      const droppedIds = new Set<string>();
+      for (const rel of relsPart.find("Relationship")) {
+        const target = relsPart.getAttribute(rel, "Target");
+        if (
+          !target ||
+          relsPart.getAttribute(rel, "TargetMode") === "External" ||
+          zip.file(ExcelService.resolveTarget(source, target))
+        ) {
+          continue;
+        }
+        relsPart.remove(rel);
+        droppedIds.add(relsPart.getAttribute(rel, "Id") ?? "");
+      }
+      write(path, relsPart);
+
+      const sourceFile = zip.file(source);
+      if (droppedIds.size > 0 && sourceFile && /\.xml$/i.test(source)) {
+        const sourcePart = new XmlPart(await sourceFile.async("string"));
+        this.removeReferences(sourcePart, droppedIds);
+        write(source, sourcePart);
+      }
+    }
+
+    const contentTypes = zip.file(CONTENT_TYPES_PATH);
+    if (contentTypes) {
+      const part = new XmlPart(await contentTypes.async("string"));
+      for (const override of part.find("Override")) {
+        const partName = (part.getAttribute(override, "PartName") ?? "").slice(
+          1,
+        );
+        if (partName && !zip.file(partName)) part.remove(override);
+      }
+      write(CONTENT_TYPES_PATH, part);
+    }
+  }
+
+  // Elements that only exist to point at a part go with it; elsewhere
+  // (e.g. the printer settings of <pageSetup>) just the r:id is removed.
+  // Lists left empty are removed too.
+  private static removeReferences(part: XmlPart, ids: Set<string>) {
+    const elements = part.doc.getElementsByTagName("*");
+    for (const localName of new Set(elements.map((el) => el.localName))) {
+      const ranges = part.find(localName);
+      elements
+        .filter((el) => el.localName === localName)
+        .forEach((el, i) => {
+          const attribute = el.attributes.find(
+            (a) => a.localName === "id" && a.namespaceURI === RELATIONSHIPS_NS,
+          );
+          if (!attribute || !ids.has(attribute.value) || !ranges[i]) return;
+          if (REFERENCE_ELEMENTS.includes(localName)) part.remove(ranges[i]);
+          else part.removeAttribute(ranges[i], attribute.name);
+        });
+    }
+    REFERENCE_LISTS.forEach((localName) => part.removeEmpty(localName));
+  }
+
+  /**
+   * Relationship ids of the <sheet> elements are kept; their parts are
+   * assumed to follow Excel's numbering, counted per sheet kind (the third
+   * worksheet is worksheets/sheet3.xml, the first chart sheet
+   * chartsheets/sheet1.xml). Sheets whose part was not recovered get no
+   * relationship, so dropLostSheets removes them.
+   */
+  private static buildWorkbookRelationships(
+    zip: JSZip,
+    workbook: string,
+    appProperties: string | null,
+    damaged: string[],
+  ): string {
+    // Without a kind listed in app.xml, a sheet belongs to the only sheet
+    // folder the package had, or is a worksheet
+    const isSheetPart = (path: string, folder: string) =>
+      path.startsWith(folder) && /^[^/]+\.xml$/.test(path.slice(folder.length));
+    const folders = SHEET_RELATIONSHIPS.map(([folder]) => folder).filter(
+      (folder) =>
+        [...Object.keys(zip.files), ...damaged].some((path) =>
+          isSheetPart(path, folder),
+        ),
+    );
+    const defaultFolder = folders.length === 1 ? folders[0] : "xl/worksheets/";
+    const sheetFolders = appProperties
+      ? this.readSheetFolders(appProperties)
+      : new Map<string, string>();
+
+    const relationships: { id: string; type: string; target: string }[] = [];
+    const counts = new Map<string, number>();
+    const doc = XmlDocument.parse(workbook);
+    for (const sheet of doc.getElementsByTagNameNS("*", "sheet")) {
+      const name = sheet.getAttribute("name") ?? "";
+      const folder = sheetFolders.get(name) ?? defaultFolder;
+      const number = (counts.get(folder) ?? 0) + 1;
+      counts.set(folder, number);
+
+      // r:id, whatever prefix the relationships namespace has
+      const id = sheet.attributes.find(
+        (a) => a.localName === "id" && a.namespaceURI,
+      )?.value;
+      const path = `${folder}sheet${number}.xml`;
+      if (!id || !zip.file(path)) continue;
+      const type = SHEET_RELATIONSHIPS.find(([f]) => f === folder)![1];
+      relationships.push({ id, type, target: path });
+    }
+
+    // Ids the workbook already refers to, matched or not, stay reserved
+    const usedIds = new Set(
+      doc
+        .getElementsByTagName("*")
+        .flatMap((el) => el.attributes)
+        .filter((a) => a.localName === "id" && a.namespaceURI)
+        .map((a) => a.value),
+    );
+    let next = 1;
+    for (const [path, type] of WORKBOOK_RELATIONSHIPS) {
+      if (!zip.file(path)) continue;
+      while (usedIds.has(`rId${next}`)) next++;
+      usedIds.add(`rId${next}`);
+      relationships.push({ id: `rId${next}`, type, target: path });
+    }
+    return this.buildRelationships(
+      relationships.map((rel) => ({
+        ...rel,
+        target: rel.target.slice("xl/".length),
+      })),
+    );
+  }
+
+  // Sheet name -> folder, from the TitlesOfParts names counted off under
+  // each HeadingPairs heading
+  private static readSheetFolders(appProperties: string): Map<string, string> {
+    const folders = new Map<string, string>();
+    const doc = XmlDocument.parse(appProperties);
+    const headings = doc
+      .getElementsByTagNameNS("*", "HeadingPairs")[0]
+      ?.getElementsByTagNameNS("*", "variant")
+      .map((variant) => variant.textContent.trim());
+    const titles = doc
+      .getElementsByTagNameNS("*", "TitlesOfParts")[0]
+      ?.getElementsByTagNameNS("*", "lpstr")
+      .map((title) => title.textContent);
+    if (!headings || !titles) return folders;
+
+    let offset = 0;
+    for (let i = 0; i + 1 < headings.length; i += 2) {
+      const count = Number(headings[i + 1]) || 0;
+      const folder = SHEET_HEADINGS[headings[i]];
+      if (folder) {
+        for (const name of titles.slice(offset, offset + count)) {
+          folders.set(name, folder);
+        }
+      }
+      offset += count;
+    }
+    return folders;
+  }
+
+  /**
+   * Removes the <sheet> elements whose part was not recovered, and their
+   * relationships, so the workbook has no dangling references. Returns
+   * the names of the removed sheets.
+   */
+  private static async dropLostSheets(
+    zip: JSZip,
+    changed: Set<string>,
+  ): Promise<string[]> {
+    const rels =
+      (await ExcelService.readRelationships(zip, WORKBOOK_PATH)) ?? [];
+    const workbook = new XmlPart(
+      await zip.file(WORKBOOK_PATH)!.async("string"),
+    );
+    const sheets = workbook.doc.getElementsByTagNameNS("*", "sheet");
+    const ranges = workbook.find("sheet");
+
+    const removed: number[] = [];
+    const names: string[] = [];
+    const lostIds = new Set<string>();
+    sheets.forEach((sheet, index) => {
+      const id = sheet.attributes.find(
+        (a) => a.localName === "id" && a.namespaceURI,
+      )?.value;
+      const rel = rels.find((r) => r.id === id);
+      if (rel && zip.file(rel.path)) return;
+      removed.push(index);
+      names.push(sheet.getAttribute("name") ?? "");
+      if (id) lostIds.add(id);
+    });
+    if (removed.length === 0) return [];
+    if (removed.length === sheets.length) {
+      throw new CorruptPackageError(
+        "None of the workbook's sheets could be recovered.",
+      );
+    }
+
+    // Excel needs a visible sheet
+    const kept = ranges.filter((_, index) => !removed.includes(index));
+    const isHidden = (range: XmlElementRange) =>
+      (workbook.getAttribute(range, "state") ?? "visible") !== "visible";
+    if (kept.every(isHidden)) workbook.removeAttribute(kept[0], "state");
+
+    ExcelService.removeSheets(workbook, removed);
+    zip.file(WORKBOOK_PATH, workbook.toString());
+    changed.add(WORKBOOK_PATH);
+
+    const relsFile = zip.file(WORKBOOK_RELS_PATH);
+    if (relsFile) {
+      const relsPart = new XmlPart(await relsFile.async("string"));
+      for (const rel of relsPart.find("Relationship")) {
+        if (lostIds.has(relsPart.getAttribute(rel, "Id") ?? "")) {
+          relsPart.remove(rel);
+        }
+      }
+      if (relsPart.changed) {
+        zip.file(WORKBOOK_RELS_PATH, relsPart.toString());
+        changed.add(WORKBOOK_RELS_PATH);
+      }
+    }
+    return names;
+  }
+
+  private static buildRelationships(
+    relationships: { id: string; type: string; target: string }[],
+  ): string {
+    const items = relationships
+      .map(
+        (rel) =>
+          `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`,
+      )
+      .join("");
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${PACKAGE_NS}">${items}</Relationships>`;
+  }
+
+  private static buildContentTypes(zip: JSZip, extension: string): string {
+    const defaults = new Map<string, string>();
+    const overrides: string[] = [];
+    for (const path of Object.keys(zip.files)) {
+      if (zip.files[path].dir || path === CONTENT_TYPES_PATH) continue;
+      const type =
+        path === WORKBOOK_PATH
+          ? WORKBOOK_CONTENT_TYPES[extension]
+          : PART_CONTENT_TYPES.find(([pattern]) => pattern.test(path))?.[1];
+      if (type) {
+        overrides.push(`<Override PartName="/${path}" ContentType="${type}"/>`);
+        continue;
+      }
+      const dot = path.lastIndexOf(".");
+      const ext = dot === -1 ? "" : path.slice(dot + 1).toLowerCase();
+      if (ext && !defaults.has(ext)) {
+        defaults.set(
+          ext,
+          DEFAULT_CONTENT_TYPES[ext] ?? "application/octet-stream",
+        );
+      }
+    }
+    // Relationship parts always need their default
+    defaults.set("rels", DEFAULT_CONTENT_TYPES.rels);
+    const items = [
+      ...[...defaults].map(
+        ([ext, type]) => `<Default Extension="${ext}" ContentType="${type}"/>`,
+      ),
+      ...overrides,
+    ].join("");
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Types xmlns="${CONTENT_TYPES_NS}">${items}</Types>`;
+  }
+}
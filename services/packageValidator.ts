@@ -0,0 +1,254 @@
+import JSZip from "jszip";
+import { PackageIssue } from "../types";
+import { ELEMENT_ORDER } from "./elementOrder";
+import { ExcelService } from "./excelService";
+import { XmlDocument, XmlElement } from "./xmlDom";
+import { ZipPackage } from "./zipPackage";
+
+const CONTENT_TYPES_PATH = "[Content_Types].xml";
+const SPREADSHEETML_NS =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+
+// Core and extended property roots use xsd:all: any order, but each child
+// only once. Matched by namespace, since custom.xml also has a <Properties>
+// root whose <property> children repeat.
+const UNORDERED_ROOT_NAMESPACES = [
+  "http://schemas.openxmlformats.org/package/2006/metadata/core-properties",
+  "http://schemas.openxmlformats.org/officeDocument/2006/extended-properties",
+  "http://purl.oclc.org/ooxml/officeDocument/extendedProperties",
+];
+
+/**
+ * Re-opens a processed package and checks that Excel will accept it:
+ * content types for every part, internal relationship targets, well-formed
+ * XML and the schema's element order in the parts that were changed.
+ */
+export class PackageValidatorService {
+  /**
+   * Validates `output`. Parts that differ from `original` are checked in
+   * depth; problems the original file already had are only warnings.
+   */
+  static async validate(original: Blob, output: Blob): Promise<PackageIssue[]> {
+    const outputBytes = new Uint8Array(await output.arrayBuffer());
+    let outputZip: JSZip;
+    try {
+      outputZip = await new JSZip().loadAsync(outputBytes);
+    } catch (e) {
+      return [
+        {
+          severity: "error",
+          part: "",
+          message: "The output is not a readable ZIP package.",
+        },
+      ];
+    }
+    const originalBytes = new Uint8Array(await original.arrayBuffer());
+    let originalZip: JSZip | null = null;
+    try {
+      originalZip = await new JSZip().loadAsync(originalBytes);
+    } catch (e) {
+      // Everything counts as changed then
+    }
+
+    const touched = await this.findChangedParts(
+      originalBytes,
+      originalZip,
+      outputBytes,
+      outputZip,
+    );
+    const issues = await this.check(outputZip, touched);
+    if (!originalZip || issues.length === 0) return issues;
+
+    const known = new Set(
+      (await this.check(originalZip, touched)).map(
+        (issue) => `${issue.part}\n${issue.message}`,
+      ),
+    );
+    return issues.map((issue) =>
+      known.has(`${issue.part}\n${issue.message}`)
+        ? { ...issue, severity: "warning", preexisting: true }
+        : issue,
+    );
+  }
+
+  static describe(issue: PackageIssue): string {
+    return issue.part ? `${issue.part}: ${issue.message}` : issue.message;
+  }
+
+  private static async check(
+    zip: JSZip,
+    touched: Set<string>,
+  ): Promise<PackageIssue[]> {
+    const issues: PackageIssue[] = [];
+    const error = (part: string, message: string) =>
+      issues.push({ severity: "error", part, message });
+    const parts = Object.keys(zip.files).filter((p) => !zip.files[p].dir);
+    const exists = new Set(parts);
+
+    // Every XML part that changed, and the package's own bookkeeping parts,
+    // must at least be well-formed.
+    const documents = new Map<string, XmlDocument>();
+    for (const path of parts) {
+      const isRels = path.endsWith(".rels") || path === CONTENT_TYPES_PATH;
+      if (!isRels && !(touched.has(path) && /\.xml$/i.test(path))) continue;
+      const text = await zip.file(path)!.async("string");
+      const problem = XmlDocument.findWellFormednessError(text);
+      if (problem) error(path, `Malformed XML: ${problem}`);
+      else documents.set(path, XmlDocument.parse(text));
+    }
+
+    // [Content_Types].xml: a Default or Override for every part
+    const contentTypes = documents.get(CONTENT_TYPES_PATH);
+    if (!contentTypes) {
+      if (!exists.has(CONTENT_TYPES_PATH)) {
+        error(CONTENT_TYPES_PATH, "The package has no [Content_Types].xml.");
+      }
+    } else {
+      const defaults = new Set(
+        contentTypes
+          .getElementsByTagNameNS("*", "Default")
+          .map((el) => (el.getAttribute("Extension") ?? "").toLowerCase()),
+      );
+      const overrides = new Set(
+        contentTypes
+          .getElementsByTagNameNS("*", "Override")
+          .map((el) => (el.getAttribute("PartName") ?? "").toLowerCase()),
+      );
+      for (const path of parts) {
+        if (path === CONTENT_TYPES_PATH) continue;
+        const dot = path.lastIndexOf(".");
+        const extension = dot === -1 ? "" : path.slice(dot + 1).toLowerCase();
+        if (
+          !overrides.has(`/${path}`.toLowerCase()) &&
+          !defaults.has(extension)
+        ) {
+          error(path, "No content type is declared for this part.");
+        }
+      }
+      const lowerParts = new Set(parts.map((p) => p.toLowerCase()));
+      for (const partName of overrides) {
+        if (!lowerParts.has(partName.slice(1))) {
+          issues.push({
+            severity: "warning",
+            part: CONTENT_TYPES_PATH,
+            message: `Override for a missing part: ${partName}`,
+          });
+        }
+      }
+    }
+
+    // Relationships: unique ids and existing internal targets
+    for (const [path, doc] of documents) {
+      if (!path.endsWith(".rels")) continue;
+      const source = this.getSourcePath(path);
+      const ids = new Set<string>();
+      for (const rel of doc.getElementsByTagNameNS("*", "Relationship")) {
+        const id = rel.getAttribute("Id") ?? "";
+        if (ids.has(id)) error(path, `Duplicate relationship id "${id}".`);
+        ids.add(id);
+        const target = rel.getAttribute("Target");
+        if (rel.getAttribute("TargetMode") === "External") continue;
+        if (!target) {
+          error(path, `Relationship "${id}" has no target.`);
+          continue;
+        }
+        const resolved = ExcelService.resolveTarget(source, target);
+        if (!exists.has(resolved)) {
+          error(
+            path,
+            `Relationship "${id}" points to a missing part: ${resolved}`,
+          );
+        }
+      }
+    }
+
+    // Schema element order of the changed parts
+    for (const path of touched) {
+      const doc = documents.get(path);
+      if (!doc || path.endsWith(".rels")) continue;
+      const root = doc.documentElement;
+      const children = root.childNodes.filter(
+        (node): node is XmlElement => node instanceof XmlElement,
+      );
+
+      if (UNORDERED_ROOT_NAMESPACES.includes(root.namespaceURI ?? "")) {
+        const seen = new Set<string>();
+        for (const child of children) {
+          const key = `${child.namespaceURI} ${child.localName}`;
+          if (seen.has(key)) {
+            error(path, `<${child.tagName}> appears more than once.`);
+          }
+          seen.add(key);
+        }
+        continue;
+      }
+
+      const order =
+        root.namespaceURI === SPREADSHEETML_NS
+          ? ELEMENT_ORDER[root.localName]
+          : undefined;
+      if (!order) continue;
+      let last = -1;
+      let lastName = "";
+      for (const child of children) {
+        if (child.namespaceURI !== SPREADSHEETML_NS) continue;
+        const index = order.indexOf(child.localName);
+        if (index === -1) continue;
+        if (index < last) {
+          error(path, `<${child.localName}> must come before <${lastName}>.`);
+        } else {
+          last = index;
+          lastName = child.localName;
+        }
+      }
+    }
+    return issues;
+  }
+
+  // Parts that were added or whose bytes changed. The central directories
+  // tell from their CRC-32 and sizes; parts are only inflated and compared
+  // when a directory cannot be read that way (ZIP64, encrypted entries).
+  private static async findChangedParts(
+    originalBytes: Uint8Array,
+    original: JSZip | null,
+    outputBytes: Uint8Array,
+    output: JSZip,
+  ): Promise<Set<string>> {
+    const checksumsBefore = ZipPackage.readChecksums(originalBytes);
+    const checksumsAfter = ZipPackage.readChecksums(outputBytes);
+
+    const changed = new Set<string>();
+    for (const path of Object.keys(output.files)) {
+      if (output.files[path].dir) continue;
+      const before = original?.file(path);
+      if (!before) {
+        changed.add(path);
+        continue;
+      }
+      const sumBefore = checksumsBefore?.get(path);
+      const sumAfter = checksumsAfter?.get(path);
+      if (sumBefore && sumAfter) {
+        if (
+          sumBefore.crc32 !== sumAfter.crc32 ||
+          sumBefore.size !== sumAfter.size
+        ) {
+          changed.add(path);
+        }
+        continue;
+      }
+      const [a, b] = await Promise.all([
+        before.async("uint8array"),
+        output.file(path)!.async("uint8array"),
+      ]);
+      if (a.length !== b.length || a.some((byte, i) => byte !== b[i])) {
+        changed.add(path);
+      }
+    }
+    return changed;
+  }
+
+  // "xl/_rels/workbook.xml.rels" describes "xl/workbook.xml"
+  private static getSourcePath(relsPath: string): string {
+    return relsPath.replace(/(^|\/)_rels\/([^/]*)\.rels$/, "$1$2");
+  }
+}
@@ -0,0 +1,143 @@
+export interface PasswordHash {
+  algorithmName: string;
+  hashValue: string; // Base64
+  saltValue: string; // Base64
+  spinCount: number;
+}
+
+// Values Excel itself writes for workbook and sheet protection
+const DEFAULT_ALGORITHM = "SHA-512";
+const DEFAULT_SPIN_COUNT = 100000;
+const SALT_LENGTH = 16;
+
+// Hash algorithms that WebCrypto can compute
+const SUPPORTED_ALGORITHMS = ["SHA-1", "SHA-256", "SHA-384", "SHA-512"];
+
+/**
+ * Salted, iterated password hashes used by OOXML protection elements
+ * ([MS-OFFCRYPTO] 2.4.2.4, ISO/IEC 29500 "agile" password verifiers).
+ */
+export class PasswordHashService {
+  /** Hashes a password with a fresh random salt, the way Excel does. */
+  static async create(
+    password: string,
+    spinCount: number = DEFAULT_SPIN_COUNT,
+  ): Promise<PasswordHash> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const hash = await this.compute(
+      password,
+      salt,
+      spinCount,
+      DEFAULT_ALGORITHM,
+    );
+    return {
+      algorithmName: DEFAULT_ALGORITHM,
+      hashValue: this.toBase64(hash),
+      saltValue: this.toBase64(salt),
+      spinCount,
+    };
+  }
+
+  /**
+   * H0 = H(salt + password as UTF-16LE), then Hn = H(Hn-1 + n as a 32-bit
+   * little-endian iterator) for every spin.
+   */
+  static async compute(
+    password: string,
+    salt: Uint8Array,
+    spinCount: number,
+    algorithmName: string,
+  ): Promise<Uint8Array> {
+    const passwordBytes = new Uint8Array(password.length * 2);
+    for (let i = 0; i < password.length; i++) {
+      const code = password.charCodeAt(i);
+      passwordBytes[i * 2] = code & 0xff;
+      passwordBytes[i * 2 + 1] = code >> 8;
+    }
+
+    let hash = await this.digest(
+      algorithmName,
+      this.concat(salt, passwordBytes),
+    );
+    const buffer = new Uint8Array(hash.length + 4);
+    const view = new DataView(buffer.buffer);
+    for (let i = 0; i < spinCount; i++) {
+      buffer.set(hash);
+      view.setUint32(hash.length, i, true);
+      hash = await this.digest(algorithmName, buffer);
+    }
+    return hash;
+  }
+
+  /**
+   * Checks a password against a stored hash. Returns null when the
+   * algorithm (e.g. MD5, RIPEMD-160, WHIRLPOOL) is not available in WebCrypto,
+   * or when the salt or hash is not valid base64.
+   */
+  static async verify(
+    password: string,
+    stored: PasswordHash,
+  ): Promise<boolean | null> {
+    const algorithmName = stored.algorithmName.toUpperCase();
+    if (!SUPPORTED_ALGORITHMS.includes(algorithmName)) return null;
+    let salt: Uint8Array;
+    let expected: Uint8Array;
+    try {
+      salt = this.fromBase64(stored.saltValue);
+      expected = this.fromBase64(stored.hashValue);
+    } catch {
+      return null;
+    }
+    const hash = await this.compute(
+      password,
+      salt,
+      stored.spinCount,
+      algorithmName,
+    );
+    return this.toBase64(hash) === this.toBase64(expected);
+  }
+
+  /**
+   * The legacy 16-bit password verifier stored as hex in `password`
+   * attributes and in BIFF8 PASSWORD records.
+   */
+  static legacyVerifier(password: string): number {
+    let verifier = 0;
+    for (let i = 0; i < password.length; i++) {
+      const value = password.charCodeAt(i) << (i + 1);
+      verifier ^= (value & 0x7fff) | ((value >> 15) & 0x7fff);
+    }
+    return verifier ^ password.length ^ 0xce4b;
+  }
+
+  static toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+
+  static fromBase64(value: string): Uint8Array {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private static async digest(
+    algorithmName: string,
+    data: Uint8Array,
+  ): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest(algorithmName, data));
+  }
+
+  private static concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+  }
+}
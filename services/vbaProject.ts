@@ -0,0 +1,190 @@
+import { VbaProjectInfo } from "../types";
+import { CfbContainer, CompoundFile } from "./compoundFile";
+import { CorruptPackageError } from "./errors";
+
+const PROJECT_STREAM = "/PROJECT";
+
+/**
+ * Reads and rewrites the protection of a VBA project (vbaProject.bin).
+ *
+ * The lock lives in the text PROJECT stream as three values obfuscated with
+ * the [MS-OVBA] 2.4.3 data encryption: CMG (protection state), DPB (password
+ * hash) and GC (visibility). Unlocking re-encodes them as "not protected,
+ * no password, visible".
+ */
+export class VbaProjectService {
+  static inspect(bin: Uint8Array, path: string): VbaProjectInfo {
+    const cfb = this.readContainer(bin);
+    const project = this.readProjectStream(cfb);
+
+    const state = this.decodeValue(project, "CMG");
+    const password = this.decodeValue(project, "DPB");
+    const visibility = this.decodeValue(project, "GC");
+
+    const protectionState =
+      state && state.length >= 4
+        ? new DataView(state.buffer, state.byteOffset, 4).getUint32(0, true)
+        : 0;
+    return {
+      path,
+      isLocked:
+        protectionState !== 0 || (!!visibility && visibility[0] !== 0xff),
+      hasPassword: !!password && (password.length > 1 || password[0] !== 0),
+    };
+  }
+
+  /** Returns a new vbaProject.bin with project protection neutralised. */
+  static unlock(bin: Uint8Array): Uint8Array {
+    const cfb = this.readContainer(bin);
+    let project = this.readProjectStream(cfb);
+    const projKey = this.getProjectKey(project);
+
+    project = this.replaceValue(
+      project,
+      "CMG",
+      this.encrypt(new Uint8Array(4), projKey), // ProjectProtectionState = 0
+    );
+    project = this.replaceValue(
+      project,
+      "DPB",
+      this.encrypt(new Uint8Array(1), projKey), // No password
+    );
+    project = this.replaceValue(
+      project,
+      "GC",
+      this.encrypt(new Uint8Array([0xff]), projKey), // Visible
+    );
+
+    return CompoundFile.overwriteStream(
+      bin,
+      PROJECT_STREAM,
+      this.toBytes(project),
+    );
+  }
+
+  private static readContainer(bin: Uint8Array): CfbContainer {
+    return CompoundFile.read(bin, "VBA project (vbaProject.bin)");
+  }
+
+  // The PROJECT stream is MBCS text; latin1 keeps every byte as-is.
+  private static readProjectStream(cfb: CfbContainer): string {
+    const entry = CompoundFile.findStream(cfb, PROJECT_STREAM);
+    if (!entry) {
+      throw new CorruptPackageError("The VBA project has no PROJECT stream.");
+    }
+    let text = "";
+    for (let i = 0; i < entry.content.length; i++) {
+      text += String.fromCharCode(entry.content[i]);
+    }
+    return text;
+  }
+
+  private static toBytes(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+    return bytes;
+  }
+
+  private static findValue(
+    project: string,
+    key: string,
+  ): RegExpMatchArray | null {
+    return project.match(new RegExp(`^${key}="([0-9A-Fa-f]*)"`, "m"));
+  }
+
+  private static replaceValue(
+    project: string,
+    key: string,
+    encrypted: Uint8Array,
+  ): string {
+    const hex = Array.from(encrypted)
+      .map((b) => b.toString(16).padStart(2, "0").toUpperCase())
+      .join("");
+    const line = `${key}="${hex}"`;
+    if (this.findValue(project, key)) {
+      return project.replace(new RegExp(`^${key}="[0-9A-Fa-f]*"`, "m"), line);
+    }
+    // Keep the value inside the project section, before any [Host ...] block
+    const section = project.indexOf("\r\n\r\n");
+    return section === -1
+      ? `${project}${line}\r\n`
+      : `${project.slice(0, section)}\r\n${line}${project.slice(section)}`;
+  }
+
+  // ProjKey is the byte sum of the project CLSID, braces included
+  private static getProjectKey(project: string): number {
+    const id = project.match(/^ID="([^"]*)"/m)?.[1] || "";
+    let key = 0;
+    for (let i = 0; i < id.length; i++) key = (key + id.charCodeAt(i)) & 0xff;
+    return key;
+  }
+
+  private static decodeValue(project: string, key: string): Uint8Array | null {
+    const hex = this.findValue(project, key)?.[1];
+    if (!hex) return null;
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return this.decrypt(bytes);
+  }
+
+  /** [MS-OVBA] 2.4.3.3 Decryption */
+  private static decrypt(data: Uint8Array): Uint8Array | null {
+    if (data.length < 3) return null;
+    const seed = data[0];
+    const versionEnc = data[1];
+    const projKeyEnc = data[2];
+    if ((seed ^ versionEnc) !== 2) return null;
+
+    let unencryptedByte1 = seed ^ projKeyEnc;
+    let encryptedByte1 = projKeyEnc;
+    let encryptedByte2 = versionEnc;
+    let pos = 3;
+    const next = () => {
+      const byteEnc = data[pos++];
+      const byte = byteEnc ^ ((encryptedByte2 + unencryptedByte1) & 0xff);
+      encryptedByte2 = encryptedByte1;
+      encryptedByte1 = byteEnc;
+      unencryptedByte1 = byte;
+      return byte;
+    };
+
+    const ignoredLength = (seed & 6) / 2;
+    for (let i = 0; i < ignoredLength; i++) next();
+    let length = 0;
+    for (let i = 0; i < 4; i++) length |= next() << (8 * i);
+    if (length < 0 || pos + length > data.length) return null;
+
+    const out = new Uint8Array(length);
+    for (let i = 0; i < length; i++) out[i] = next();
+    return out;
+  }
+
+  /** [MS-OVBA] 2.4.3.2 Encryption */
+  private static encrypt(data: Uint8Array, projKey: number): Uint8Array {
+    // A seed without ignored bytes keeps the value no longer than the one it
+    // replaces, so the PROJECT stream can be patched in place
+    const seed = Math.floor(Math.random() * 256) & ~0x06;
+    const versionEnc = seed ^ 2;
+    const projKeyEnc = seed ^ projKey;
+    const out: number[] = [seed, versionEnc, projKeyEnc];
+
+    let unencryptedByte1 = projKey;
+    let encryptedByte1 = projKeyEnc;
+    let encryptedByte2 = versionEnc;
+    const push = (byte: number) => {
+      const byteEnc = byte ^ ((encryptedByte2 + unencryptedByte1) & 0xff);
+      out.push(byteEnc);
+      encryptedByte2 = encryptedByte1;
+      encryptedByte1 = byteEnc;
+      unencryptedByte1 = byte;
+    };
+
+    const ignoredLength = (seed & 6) / 2;
+    for (let i = 0; i < ignoredLength; i++) push(0);
+    for (let i = 0; i < 4; i++) push((data.length >>> (8 * i)) & 0xff);
+    data.forEach(push);
+    return new Uint8Array(out);
+  }
+}
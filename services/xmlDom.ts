@@ -0,0 +1,485 @@
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+const XMLNS_NAMESPACE = "http://www.w3.org/2000/xmlns/";
+
+// Comments, CDATA, processing instructions, doctype, end tags and start tags
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+export interface XmlAttribute {
+  name: string; // Qualified name, e.g. "r:id"
+  localName: string;
+  namespaceURI: string | null;
+  value: string;
+}
+
+// Character data; CDATA sections are written back as such
+class XmlText {
+  constructor(
+    public data: string,
+    readonly cdata = false,
+  ) {}
+}
+
+// Comments, processing instructions and doctypes, kept verbatim
+class XmlMarkup {
+  constructor(readonly text: string) {}
+}
+
+type XmlNode = XmlElement | XmlText | XmlMarkup;
+
+/**
+ * A namespace-aware XML element with the DOM methods the services use.
+ * Unlike the browser DOM it is available everywhere, Web Workers included.
+ */
+export class XmlElement {
+  readonly attributes: XmlAttribute[] = [];
+  readonly childNodes: XmlNode[] = [];
+  parentElement: XmlElement | null = null;
+
+  constructor(
+    readonly tagName: string,
+    public namespaceURI: string | null,
+  ) {}
+
+  get prefix(): string {
+    const colon = this.tagName.indexOf(":");
+    return colon === -1 ? "" : this.tagName.slice(0, colon);
+  }
+
+  get localName(): string {
+    return this.tagName.slice(this.tagName.indexOf(":") + 1);
+  }
+
+  get textContent(): string {
+    return this.childNodes
+      .map((node) =>
+        node instanceof XmlElement
+          ? node.textContent
+          : node instanceof XmlText
+            ? node.data
+            : "",
+      )
+      .join("");
+  }
+
+  set textContent(value: string) {
+    for (const node of this.childNodes) {
+      if (node instanceof XmlElement) node.parentElement = null;
+    }
+    this.childNodes.splice(0, this.childNodes.length);
+    if (value) this.childNodes.push(new XmlText(value));
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.find((a) => a.name === name)?.value ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.attributes.some((a) => a.name === name);
+  }
+
+  setAttributeNS(
+    namespace: string | null,
+    qualifiedName: string,
+    value: string,
+  ) {
+    const localName = qualifiedName.slice(qualifiedName.indexOf(":") + 1);
+    const existing = this.attributes.find(
+      (a) => a.localName === localName && a.namespaceURI === namespace,
+    );
+    if (existing) existing.value = value;
+    else {
+      this.attributes.push({
+        name: qualifiedName,
+        localName,
+        namespaceURI: namespace,
+        value,
+      });
+    }
+  }
+
+  appendChild(child: XmlElement): XmlElement {
+    child.parentElement = this;
+    this.childNodes.push(child);
+    return child;
+  }
+
+  /** Inserts `child` before `reference`, or at the end when it is null. */
+  insertBefore(child: XmlElement, reference: XmlElement | null): XmlElement {
+    const index = reference ? this.childNodes.indexOf(reference) : -1;
+    if (index === -1) return this.appendChild(child);
+    child.parentElement = this;
+    this.childNodes.splice(index, 0, child);
+    return child;
+  }
+
+  removeChild(child: XmlElement): XmlElement {
+    const index = this.childNodes.indexOf(child);
+    if (index !== -1) this.childNodes.splice(index, 1);
+    child.parentElement = null;
+    return child;
+  }
+
+  /** Descendants with the given qualified name, or all of them for "*". */
+  getElementsByTagName(qualifiedName: string): XmlElement[] {
+    return this.descendants().filter(
+      (el) => qualifiedName === "*" || el.tagName === qualifiedName,
+    );
+  }
+
+  /** Descendants matching a namespace and local name; "*" matches any. */
+  getElementsByTagNameNS(
+    namespace: string | null,
+    localName: string,
+  ): XmlElement[] {
+    return this.descendants().filter(
+      (el) =>
+        (namespace === "*" || el.namespaceURI === namespace) &&
+        (localName === "*" || el.localName === localName),
+    );
+  }
+
+  /** Resolves a namespace prefix ("" for the default namespace) in scope. */
+  lookupNamespaceURI(prefix: string): string | null {
+    if (prefix === "xml") return XML_NAMESPACE;
+    const name = prefix ? `xmlns:${prefix}` : "xmlns";
+    for (let el: XmlElement | null = this; el; el = el.parentElement) {
+      const value = el.getAttribute(name);
+      if (value !== null) return value || null;
+    }
+    return null;
+  }
+
+  private descendants(): XmlElement[] {
+    const result: XmlElement[] = [];
+    const visit = (el: XmlElement) => {
+      for (const node of el.childNodes) {
+        if (node instanceof XmlElement) {
+          result.push(node);
+          visit(node);
+        }
+      }
+    };
+    visit(this);
+    return result;
+  }
+}
+
+/**
+ * A parsed XML document. Parsing is lenient like the rest of the package
+ * handling: stray end tags are ignored and unclosed elements are closed at
+ * the end of the text.
+ */
+export class XmlDocument {
+  readonly childNodes: XmlNode[] = [];
+
+  static parse(text: string): XmlDocument {
+    const doc = new XmlDocument();
+    const open: XmlElement[] = [];
+    const append = (node: XmlNode) => {
+      const parent = open[open.length - 1];
+      if (!parent) doc.childNodes.push(node);
+      else if (node instanceof XmlElement) parent.appendChild(node);
+      else parent.childNodes.push(node);
+    };
+
+    let position = 0;
+    TOKEN_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN_PATTERN.exec(text))) {
+      const [token, cdata, endName, startName, attributeText, selfClosing] =
+        match;
+      if (match.index > position) {
+        const between = text.slice(position, match.index);
+        // Whitespace outside the root element is not character data
+        append(
+          open.length > 0
+            ? new XmlText(this.decode(between))
+            : new XmlMarkup(between),
+        );
+      }
+      position = match.index + token.length;
+
+      if (cdata !== undefined) {
+        if (open.length > 0) append(new XmlText(cdata, true));
+      } else if (startName) {
+        const element = new XmlElement(startName, null);
+        ATTRIBUTE_PATTERN.lastIndex = 0;
+        let attr: RegExpExecArray | null;
+        while ((attr = ATTRIBUTE_PATTERN.exec(attributeText))) {
+          const name = attr[1];
+          element.attributes.push({
+            name,
+            localName: name.slice(name.indexOf(":") + 1),
+            namespaceURI: null,
+            value: this.decode(attr[2] ?? attr[3]),
+          });
+        }
+        append(element);
+        this.resolveNamespaces(element);
+        if (!selfClosing) open.push(element);
+      } else if (endName) {
+        const index = open.map((el) => el.tagName).lastIndexOf(endName);
+        if (index !== -1) open.splice(index);
+      } else {
+        append(new XmlMarkup(token));
+      }
+    }
+    return doc;
+  }
+
+  /**
+   * Strict counterpart of `parse`: returns the first well-formedness error
+   * (with its line), or null when the text is a well-formed XML document.
+   * DTDs are reported too, since OPC parts must not contain them.
+   */
+  static findWellFormednessError(text: string): string | null {
+    const lineOf = (index: number) => text.slice(0, index).split("\n").length;
+    const open: { name: string; prefixes: Set<string> }[] = [];
+    const declared = () => {
+      const prefixes = new Set(["xml", "xmlns"]);
+      for (const el of open) el.prefixes.forEach((p) => prefixes.add(p));
+      return prefixes;
+    };
+    const checkCharacters = (chars: string, index: number) => {
+      const amp = chars.search(/&(?!(?:#x[0-9a-f]+|#\d+|[a-z]+);)/i);
+      if (amp !== -1) return `Unescaped "&" on line ${lineOf(index + amp)}.`;
+      for (const [, name] of chars.matchAll(/&([a-z]+);/gi)) {
+        if (!(name in ENTITIES)) {
+          return `Undefined entity "&${name};" on line ${lineOf(index)}.`;
+        }
+      }
+      return null;
+    };
+
+    let position = 0;
+    let roots = 0;
+    TOKEN_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    for (;;) {
+      match = TOKEN_PATTERN.exec(text);
+      const end = match ? match.index : text.length;
+      if (end > position) {
+        const between = text.slice(position, end);
+        const lt = between.indexOf("<");
+        if (lt !== -1) {
+          return `Malformed markup on line ${lineOf(position + lt)}.`;
+        }
+        if (open.length === 0 && between.trim() !== "") {
+          return `Text outside the root element on line ${lineOf(position)}.`;
+        }
+        const error = checkCharacters(between, position);
+        if (error) return error;
+      }
+      if (!match) break;
+      const [token, , endName, startName, attributeText, selfClosing] = match;
+      position = match.index + token.length;
+
+      if (token.startsWith("<!DOCTYPE")) {
+        return `Document type declaration on line ${lineOf(match.index)}.`;
+      }
+      if (token.startsWith("<?xml") && /^<\?xml\s/.test(token)) {
+        if (match.index !== 0) {
+          return `XML declaration not at the start, on line ${lineOf(match.index)}.`;
+        }
+      } else if (token.startsWith("<![CDATA[") && open.length === 0) {
+        return `CDATA outside the root element on line ${lineOf(match.index)}.`;
+      } else if (endName) {
+        const current = open.pop();
+        if (!current || current.name !== endName) {
+          return `Unexpected </${endName}> on line ${lineOf(match.index)}.`;
+        }
+      } else if (startName) {
+        if (open.length === 0 && roots++ > 0) {
+          return `More than one root element (line ${lineOf(match.index)}).`;
+        }
+        const names = new Set<string>();
+        const prefixes = new Set<string>();
+        const prefixed: string[] = [startName];
+        ATTRIBUTE_PATTERN.lastIndex = 0;
+        let attr: RegExpExecArray | null;
+        while ((attr = ATTRIBUTE_PATTERN.exec(attributeText))) {
+          const [, name, doubleQuoted, singleQuoted] = attr;
+          const value = doubleQuoted ?? singleQuoted;
+          if (names.has(name)) {
+            return `Duplicate attribute "${name}" on line ${lineOf(match.index)}.`;
+          }
+          names.add(name);
+          if (value.includes("<")) {
+            return `"<" in attribute "${name}" on line ${lineOf(match.index)}.`;
+          }
+          const error = checkCharacters(value, match.index);
+          if (error) return error;
+          if (name.startsWith("xmlns:")) prefixes.add(name.slice(6));
+          else prefixed.push(name);
+        }
+        const element = { name: startName, prefixes };
+        open.push(element);
+        const inScope = declared();
+        for (const name of prefixed) {
+          const colon = name.indexOf(":");
+          if (colon !== -1 && !inScope.has(name.slice(0, colon))) {
+            return `Undeclared prefix in "${name}" on line ${lineOf(match.index)}.`;
+          }
+        }
+        if (selfClosing) open.pop();
+      }
+    }
+    if (open.length > 0)
+      return `<${open[open.length - 1].name}> is not closed.`;
+    if (roots === 0) return "The document has no root element.";
+    return null;
+  }
+
+  get documentElement(): XmlElement {
+    let root = this.childNodes.find((node) => node instanceof XmlElement);
+    if (!root) {
+      // Mirrors DOMParser, which reports unreadable input as <parsererror>
+      root = new XmlElement("parsererror", null);
+      this.childNodes.push(root);
+    }
+    return root as XmlElement;
+  }
+
+  getElementsByTagName(qualifiedName: string): XmlElement[] {
+    const root = this.documentElement;
+    const matches = qualifiedName === "*" || root.tagName === qualifiedName;
+    return [
+      ...(matches ? [root] : []),
+      ...root.getElementsByTagName(qualifiedName),
+    ];
+  }
+
+  getElementsByTagNameNS(
+    namespace: string | null,
+    localName: string,
+  ): XmlElement[] {
+    const root = this.documentElement;
+    const matches =
+      (namespace === "*" || root.namespaceURI === namespace) &&
+      (localName === "*" || root.localName === localName);
+    return [
+      ...(matches ? [root] : []),
+      ...root.getElementsByTagNameNS(namespace, localName),
+    ];
+  }
+
+  createElement(tagName: string): XmlElement {
+    return new XmlElement(tagName, null);
+  }
+
+  createElementNS(namespace: string | null, qualifiedName: string): XmlElement {
+    return new XmlElement(qualifiedName, namespace);
+  }
+
+  /**
+   * Serializes the document. Elements and attributes created through the
+   * *NS methods get a namespace declaration when none is in scope.
+   */
+  toString(): string {
+    return this.childNodes.map((node) => XmlDocument.write(node)).join("");
+  }
+
+  private static resolveNamespaces(element: XmlElement) {
+    element.namespaceURI = element.lookupNamespaceURI(element.prefix);
+    for (const attr of element.attributes) {
+      const colon = attr.name.indexOf(":");
+      const prefix = colon === -1 ? "" : attr.name.slice(0, colon);
+      if (attr.name === "xmlns" || prefix === "xmlns") {
+        attr.namespaceURI = XMLNS_NAMESPACE;
+      } else if (prefix) {
+        attr.namespaceURI = element.lookupNamespaceURI(prefix);
+      }
+    }
+  }
+
+  private static write(node: XmlNode): string {
+    if (node instanceof XmlMarkup) return node.text;
+    if (node instanceof XmlText) {
+      return node.cdata
+        ? `<![CDATA[${node.data}]]>`
+        : node.data
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;");
+    }
+
+    let tagName = node.tagName;
+    const declarations: string[] = [];
+    if (node.lookupNamespaceURI(node.prefix) !== node.namespaceURI) {
+      // Prefer a prefix that is already declared for the namespace
+      const prefix = this.findPrefix(node, node.namespaceURI);
+      if (!node.prefix && prefix) tagName = `${prefix}:${node.localName}`;
+      else {
+        const name = node.prefix ? `xmlns:${node.prefix}` : "xmlns";
+        declarations.push(` ${name}="${this.escape(node.namespaceURI ?? "")}"`);
+      }
+    }
+    for (const attr of node.attributes) {
+      const colon = attr.name.indexOf(":");
+      const prefix = colon === -1 ? "" : attr.name.slice(0, colon);
+      if (
+        prefix &&
+        prefix !== "xmlns" &&
+        attr.namespaceURI &&
+        node.lookupNamespaceURI(prefix) !== attr.namespaceURI
+      ) {
+        declarations.push(
+          ` xmlns:${prefix}="${this.escape(attr.namespaceURI)}"`,
+        );
+      }
+    }
+
+    const attributes = node.attributes
+      .map((attr) => ` ${attr.name}="${this.escape(attr.value)}"`)
+      .join("");
+    const start = `<${tagName}${attributes}${declarations.join("")}`;
+    if (node.childNodes.length === 0) return `${start}/>`;
+    const content = node.childNodes.map((child) => this.write(child)).join("");
+    return `${start}>${content}</${tagName}>`;
+  }
+
+  private static findPrefix(
+    element: XmlElement,
+    namespace: string | null,
+  ): string | null {
+    for (let el: XmlElement | null = element; el; el = el.parentElement) {
+      for (const attr of el.attributes) {
+        if (attr.name.startsWith("xmlns:") && attr.value === namespace) {
+          const prefix = attr.localName;
+          if (element.lookupNamespaceURI(prefix) === namespace) return prefix;
+        }
+      }
+    }
+    return null;
+  }
+
+  private static decode(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name) => {
+      if (name[0] === "#") {
+        const code =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }
+      return ENTITIES[name] ?? entity;
+    });
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -0,0 +1,308 @@
+import { XmlDocument, XmlElement } from "./xmlDom";
+
+export interface XmlElementRange {
+  name: string; // Qualified name, e.g. "x:sheetProtection"
+  localName: string;
+  depth: number; // 0 for the root element
+  start: number; // Offset of "<"
+  startTagEnd: number; // Offset just after the start tag's ">"
+  end: number; // Offset just after the element, end tag included
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Comments, CDATA, processing instructions, doctype, end tags and start tags
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)(?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*\s*(\/?)>/g;
+
+/**
+ * An XML part that is read through an XmlDocument but edited on its original
+ * text, so everything outside the edited elements stays byte-for-byte
+ * identical (XML declaration, namespace declarations, quoting, whitespace).
+ *
+ * The document is only parsed when `doc` is first read. Elements listed in
+ * `skipContent` are scanned as a whole, without their descendants, which
+ * keeps large sheets cheap when only the markup around sheetData matters.
+ */
+export class XmlPart {
+  private parsed: XmlDocument | null = null;
+  private readonly elements: XmlElementRange[];
+  private edits: TextEdit[] = [];
+
+  constructor(
+    readonly text: string,
+    skipContent: string[] = [],
+  ) {
+    this.elements = XmlPart.scan(text, skipContent);
+  }
+
+  get doc(): XmlDocument {
+    this.parsed ??= XmlDocument.parse(this.text);
+    return this.parsed;
+  }
+
+  get changed(): boolean {
+    return this.edits.length > 0;
+  }
+
+  /** Elements with the given local name, in document order. */
+  find(localName: string): XmlElementRange[] {
+    return this.elements.filter((el) => el.localName === localName);
+  }
+
+  /** Removes every element with the given local name; returns the count. */
+  removeAll(localName: string): number {
+    // Nested matches disappear with their ancestor
+    const ranges = this.find(localName).filter(
+      (el, i, all) => !all.slice(0, i).some((outer) => el.end <= outer.end),
+    );
+    for (const range of ranges) this.remove(range);
+    return ranges.length;
+  }
+
+  /**
+   * Removes one element, end tag and children included. Earlier edits
+   * inside it go with it; an element already removed is left alone.
+   */
+  remove(range: XmlElementRange) {
+    if (this.isRemoved(range)) return;
+    const removal = { start: range.start, end: range.end, text: "" };
+    this.edits = this.edits.filter((edit) => !XmlPart.isInside(edit, removal));
+    this.edits.push(removal);
+  }
+
+  /** Whether the element was removed, on its own or with an ancestor. */
+  isRemoved(range: XmlElementRange): boolean {
+    return this.edits.some((edit) =>
+      XmlPart.isInside({ ...range, text: "" }, edit),
+    );
+  }
+
+  /**
+   * Removes the elements with the given local name that had child
+   * elements and no longer have any, e.g. an emptied <definedNames>.
+   */
+  removeEmpty(localName: string) {
+    for (const parent of this.find(localName)) {
+      const children = this.elements.filter(
+        (el) =>
+          el.depth === parent.depth + 1 &&
+          el.start > parent.start &&
+          el.end <= parent.end,
+      );
+      if (children.length > 0 && children.every((el) => this.isRemoved(el))) {
+        this.remove(parent);
+      }
+    }
+  }
+
+  /** Parses one element on its own, e.g. to read it without `doc`. */
+  parseElement(range: XmlElementRange): XmlElement {
+    return XmlDocument.parse(this.text.slice(range.start, range.end))
+      .documentElement;
+  }
+
+  /** Reads an attribute from the start tag of an element, as written. */
+  getAttribute(range: XmlElementRange, name: string): string | null {
+    const match = this.matchAttribute(range, name);
+    return match ? (match[1] ?? match[2]) : null;
+  }
+
+  /**
+   * Sets an attribute on the start tag of an element. A missing attribute
+   * is added right after the element name.
+   */
+  setAttribute(range: XmlElementRange, name: string, value: string) {
+    const match = this.matchAttribute(range, name);
+    const text = ` ${name}="${XmlPart.escape(value)}"`;
+    if (match) {
+      const start = range.start + match.index;
+      this.addEdit({ start, end: start + match[0].length, text });
+    } else {
+      const start = range.start + 1 + range.name.length;
+      this.addEdit({ start, end: start, text });
+    }
+  }
+
+  /** Removes an attribute from the start tag of an element. */
+  removeAttribute(range: XmlElementRange, name: string) {
+    const match = this.matchAttribute(range, name);
+    if (match) {
+      const start = range.start + match.index;
+      this.addEdit({ start, end: start + match[0].length, text: "" });
+    }
+  }
+
+  /**
+   * Inserts an empty child into `parent`, before its first child whose
+   * local name is listed in `successors` (or as its last child). The child
+   * gets the parent's namespace prefix; a self-closing parent is opened up.
+   */
+  insertChild(
+    parent: XmlElementRange,
+    localName: string,
+    attributes: Record<string, string>,
+    successors: string[],
+  ) {
+    const colon = parent.name.indexOf(":");
+    const prefix = colon === -1 ? "" : parent.name.slice(0, colon + 1);
+    const child = `<${prefix}${localName}${XmlPart.formatAttributes(attributes)}/>`;
+
+    if (parent.end === parent.startTagEnd) {
+      // <xf .../> becomes <xf ...><protection/></xf>
+      const slash = this.text.lastIndexOf("/", parent.startTagEnd - 1);
+      this.addEdit({
+        start: slash,
+        end: parent.startTagEnd,
+        text: `>${child}</${parent.name}>`,
+      });
+      return;
+    }
+    const next = this.elements.find(
+      (el) =>
+        el.depth === parent.depth + 1 &&
+        el.start > parent.start &&
+        el.end <= parent.end &&
+        successors.includes(el.localName),
+    );
+    const offset = next
+      ? next.start
+      : this.text.lastIndexOf("</", parent.end - 1);
+    this.addEdit({ start: offset, end: offset, text: child });
+  }
+
+  /**
+   * Inserts an empty element as a child of the root, before the first child
+   * whose local name is listed in `successors` (or at the end of the root).
+   * The element gets the root's namespace prefix.
+   */
+  insertElement(
+    localName: string,
+    attributes: Record<string, string>,
+    successors: string[],
+  ) {
+    const root = this.elements.find((el) => el.depth === 0);
+    if (!root) return;
+    const colon = root.name.indexOf(":");
+    const prefix = colon === -1 ? "" : root.name.slice(0, colon + 1);
+    const attributeText = XmlPart.formatAttributes(attributes);
+
+    const next = this.elements.find(
+      (el) => el.depth === 1 && successors.includes(el.localName),
+    );
+    // Self-closing roots have no room for children; Excel never writes them
+    const offset = next
+      ? next.start
+      : this.text.lastIndexOf("</", root.end - 1);
+    if (offset < root.startTagEnd) return;
+    this.addEdit({
+      start: offset,
+      end: offset,
+      text: `<${prefix}${localName}${attributeText}/>`,
+    });
+  }
+
+  toString(): string {
+    let result = this.text;
+    // Apply from the end so earlier offsets stay valid. At the same offset
+    // a removal goes first, so an insertion there is not removed with it.
+    const edits = [...this.edits].sort(
+      (a, b) => b.start - a.start || b.end - a.end,
+    );
+    for (const edit of edits) {
+      result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+  }
+
+  // Edits inside a removed element would be applied to text that is gone
+  private addEdit(edit: TextEdit) {
+    if (!this.edits.some((removal) => XmlPart.isInside(edit, removal))) {
+      this.edits.push(edit);
+    }
+  }
+
+  // Whether `edit` falls within what `removal` takes out. Insertions right
+  // before or after the removed text are not inside it.
+  private static isInside(edit: TextEdit, removal: TextEdit): boolean {
+    if (removal.text !== "" || removal.start === removal.end) return false;
+    if (edit.start === edit.end) {
+      return removal.start < edit.start && edit.start < removal.end;
+    }
+    return removal.start <= edit.start && edit.end <= removal.end;
+  }
+
+  private static scan(text: string, skipContent: string[]): XmlElementRange[] {
+    const elements: XmlElementRange[] = [];
+    const open: XmlElementRange[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN_PATTERN.exec(text))) {
+      const [token, endName, startName, selfClosing] = match;
+      if (startName) {
+        const element: XmlElementRange = {
+          name: startName,
+          localName: startName.slice(startName.indexOf(":") + 1),
+          depth: open.length,
+          start: match.index,
+          startTagEnd: match.index + token.length,
+          end: match.index + token.length,
+        };
+        elements.push(element);
+        if (selfClosing) continue;
+
+        const skipTo = skipContent.includes(element.localName)
+          ? XmlPart.findEndTag(text, startName, element.startTagEnd)
+          : -1;
+        if (skipTo === -1) {
+          open.push(element);
+        } else {
+          element.end = skipTo;
+          TOKEN_PATTERN.lastIndex = skipTo;
+        }
+      } else if (endName) {
+        const element = open.pop();
+        if (element) element.end = match.index + token.length;
+      }
+    }
+    return elements;
+  }
+
+  // Offset just after the first "</name>" from `from`, or -1
+  private static findEndTag(text: string, name: string, from: number): number {
+    const pattern = new RegExp(`</${name.replace(/\./g, "\\.")}\\s*>`, "g");
+    pattern.lastIndex = from;
+    const match = pattern.exec(text);
+    return match ? match.index + match[0].length : -1;
+  }
+
+  // Attribute value (double or single quoted) of a start tag
+  private matchAttribute(
+    range: XmlElementRange,
+    name: string,
+  ): RegExpExecArray | null {
+    const startTag = this.text.slice(range.start, range.startTagEnd);
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`\\s+${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(
+      startTag,
+    );
+  }
+
+  private static formatAttributes(attributes: Record<string, string>): string {
+    return Object.entries(attributes)
+      .map(([name, value]) => ` ${name}="${XmlPart.escape(value)}"`)
+      .join("");
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -0,0 +1,418 @@
+import JSZip from "jszip";
+
+interface ZipEntry {
+  name: string;
+  nameBytes: Uint8Array;
+  versionMadeBy: number;
+  versionNeeded: number;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  extra: Uint8Array; // Central directory extra field
+  comment: Uint8Array;
+  internalAttributes: number;
+  externalAttributes: number;
+  localExtra: Uint8Array;
+  data: Uint8Array; // Compressed bytes, exactly as stored
+}
+
+export interface SalvagedArchive {
+  bytes: Uint8Array; // A valid archive of the recovered entries
+  recovered: string[];
+  damaged: string[]; // Entries whose header was found but not their data
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+
+/**
+ * Rewrites ZIP packages without recompressing them: untouched entries are
+ * copied as raw compressed bytes, in their original order and with their
+ * original timestamps, and only changed parts are deflated again.
+ */
+export class ZipPackage {
+  /**
+   * Rebuilds `original` from the entries of `loadedZip` (loaded from it).
+   * Entries listed in `changedPaths` are recompressed, entries removed from
+   * `loadedZip` are dropped and new ones are appended. Returns null when the
+   * archive cannot be copied raw (ZIP64, encrypted entries, damaged
+   * directory), so callers can fall back to a full `generateAsync`.
+   */
+  static async rebuild(
+    original: Uint8Array,
+    loadedZip: JSZip,
+    changedPaths: Set<string>,
+  ): Promise<Uint8Array | null> {
+    const entries = this.readEntries(original);
+    if (!entries) return null;
+
+    // Let JSZip deflate just the changed parts, then copy them raw too
+    const staging = new JSZip();
+    const knownNames = new Set(entries.map((entry) => entry.name));
+    const addedPaths = Object.keys(loadedZip.files).filter(
+      (path) => !knownNames.has(path) && !loadedZip.files[path].dir,
+    );
+    for (const path of [...changedPaths, ...addedPaths]) {
+      const file = loadedZip.file(path);
+      if (file) staging.file(path, await file.async("uint8array"));
+    }
+    const stagedBytes = await staging.generateAsync({
+      type: "uint8array",
+      compression: "DEFLATE",
+    });
+    const staged = new Map(
+      (this.readEntries(stagedBytes) ?? []).map((entry) => [entry.name, entry]),
+    );
+
+    const output: ZipEntry[] = [];
+    for (const entry of entries) {
+      if (!loadedZip.files[entry.name]) continue; // Removed
+      const replacement = changedPaths.has(entry.name)
+        ? staged.get(entry.name)
+        : undefined;
+      output.push(
+        replacement
+          ? {
+              ...entry,
+              versionNeeded: replacement.versionNeeded,
+              flags: replacement.flags,
+              method: replacement.method,
+              crc32: replacement.crc32,
+              compressedSize: replacement.compressedSize,
+              size: replacement.size,
+              localExtra: new Uint8Array(0),
+              data: replacement.data,
+            }
+          : entry,
+      );
+    }
+    for (const path of addedPaths) {
+      const entry = staged.get(path);
+      if (entry) output.push(entry);
+    }
+
+    return this.write(output);
+  }
+
+  /**
+   * CRC-32 and uncompressed size of every entry, as listed in the central
+   * directory. Null when the directory cannot be read (see `rebuild`).
+   */
+  static readChecksums(
+    bytes: Uint8Array,
+  ): Map<string, { crc32: number; size: number }> | null {
+    const entries = this.readEntries(bytes);
+    if (!entries) return null;
+    return new Map(
+      entries.map((entry) => [
+        entry.name,
+        { crc32: entry.crc32, size: entry.size },
+      ]),
+    );
+  }
+
+  /**
+   * Recovers the entries of a damaged or truncated archive by scanning for
+   * local file headers, without relying on the central directory. Each
+   * entry is decompressed and its CRC checked before it is kept.
+   */
+  static async salvage(bytes: Uint8Array): Promise<SalvagedArchive> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+    const recovered = new Map<string, ZipEntry>();
+    const damaged = new Set<string>();
+
+    let offset = this.findSignature(view, LOCAL_HEADER_SIGNATURE, 0);
+    while (offset !== -1 && offset + 30 <= bytes.length) {
+      const flags = view.getUint16(offset + 6, true);
+      const method = view.getUint16(offset + 8, true);
+      const nameLength = view.getUint16(offset + 26, true);
+      const extraLength = view.getUint16(offset + 28, true);
+      const nameStart = offset + 30;
+      const dataStart = nameStart + nameLength + extraLength;
+      if (dataStart > bytes.length) break; // Header cut off
+
+      const nameBytes = bytes.subarray(nameStart, nameStart + nameLength);
+      const name = new TextDecoder().decode(nameBytes);
+      const sizes =
+        flags & FLAG_DATA_DESCRIPTOR
+          ? this.findDataDescriptor(view, dataStart)
+          : {
+              crc32: view.getUint32(offset + 14, true),
+              compressedSize: view.getUint32(offset + 18, true),
+              size: view.getUint32(offset + 22, true),
+            };
+      const dataEnd = sizes ? dataStart + sizes.compressedSize : -1;
+      const complete = sizes !== null && dataEnd <= bytes.length;
+
+      if (!name.endsWith("/")) {
+        const entry: ZipEntry | null = complete
+          ? {
+              name,
+              nameBytes,
+              versionMadeBy: 20,
+              versionNeeded: view.getUint16(offset + 4, true),
+              flags,
+              method,
+              time: view.getUint16(offset + 10, true),
+              date: view.getUint16(offset + 12, true),
+              ...sizes,
+              extra: new Uint8Array(0),
+              comment: new Uint8Array(0),
+              internalAttributes: 0,
+              externalAttributes: 0,
+              localExtra: bytes.subarray(nameStart + nameLength, dataStart),
+              data: bytes.subarray(dataStart, dataEnd),
+            }
+          : null;
+        if (
+          entry &&
+          !(flags & FLAG_ENCRYPTED) &&
+          entry.compressedSize !== 0xffffffff &&
+          (await this.isReadable(entry))
+        ) {
+          recovered.delete(name); // A later copy of the same entry wins
+          recovered.set(name, entry);
+          damaged.delete(name);
+        } else if (!recovered.has(name)) {
+          damaged.add(name);
+        }
+      }
+
+      offset = this.findSignature(
+        view,
+        LOCAL_HEADER_SIGNATURE,
+        complete ? dataEnd : dataStart,
+      );
+    }
+
+    return {
+      bytes: this.write([...recovered.values()]),
+      recovered: [...recovered.keys()],
+      damaged: [...damaged],
+    };
+  }
+
+  private static findSignature(
+    view: DataView,
+    signature: number,
+    from: number,
+  ): number {
+    for (let i = from; i + 4 <= view.byteLength; i++) {
+      if (view.getUint32(i, true) === signature) return i;
+    }
+    return -1;
+  }
+
+  // Streamed entries store their sizes after the data, with or without a
+  // signature; the right one is the first whose size matches its position.
+  private static findDataDescriptor(
+    view: DataView,
+    dataStart: number,
+  ): { crc32: number; compressedSize: number; size: number } | null {
+    for (let i = dataStart; i + 16 <= view.byteLength; i++) {
+      const signature = view.getUint32(i, true);
+      if (
+        signature === DATA_DESCRIPTOR_SIGNATURE &&
+        view.getUint32(i + 8, true) === i - dataStart
+      ) {
+        return {
+          crc32: view.getUint32(i + 4, true),
+          compressedSize: i - dataStart,
+          size: view.getUint32(i + 12, true),
+        };
+      }
+      if (
+        (signature === LOCAL_HEADER_SIGNATURE ||
+          signature === CENTRAL_HEADER_SIGNATURE) &&
+        i - 12 >= dataStart &&
+        view.getUint32(i - 8, true) === i - 12 - dataStart
+      ) {
+        return {
+          crc32: view.getUint32(i - 12, true),
+          compressedSize: i - 12 - dataStart,
+          size: view.getUint32(i - 4, true),
+        };
+      }
+    }
+    return null;
+  }
+
+  // Lets JSZip inflate the entry on its own and check its CRC
+  private static async isReadable(entry: ZipEntry): Promise<boolean> {
+    try {
+      await new JSZip().loadAsync(this.write([entry]), { checkCRC32: true });
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private static readEntries(bytes: Uint8Array): ZipEntry[] | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+
+    // The end of central directory record sits before an optional comment
+    let eocd = -1;
+    for (
+      let i = bytes.length - 22;
+      i >= Math.max(0, bytes.length - 65557);
+      i--
+    ) {
+      if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) return null;
+    if (
+      eocd >= 20 &&
+      view.getUint32(eocd - 20, true) === ZIP64_LOCATOR_SIGNATURE
+    ) {
+      return null;
+    }
+
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const entries: ZipEntry[] = [];
+    try {
+      for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+          return null;
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const size = view.getUint32(offset + 24, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        if (
+          flags & FLAG_ENCRYPTED ||
+          compressedSize === 0xffffffff ||
+          size === 0xffffffff ||
+          localOffset === 0xffffffff
+        ) {
+          return null;
+        }
+
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const nameStart = offset + 46;
+        const nameBytes = bytes.subarray(nameStart, nameStart + nameLength);
+        const extraStart = nameStart + nameLength;
+
+        if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+          return null;
+        }
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const localExtraStart = localOffset + 30 + localNameLength;
+        const dataStart = localExtraStart + localExtraLength;
+        if (dataStart + compressedSize > bytes.length) return null;
+
+        entries.push({
+          name: new TextDecoder().decode(nameBytes),
+          nameBytes,
+          versionMadeBy: view.getUint16(offset + 4, true),
+          versionNeeded: view.getUint16(offset + 6, true),
+          flags,
+          method: view.getUint16(offset + 10, true),
+          time: view.getUint16(offset + 12, true),
+          date: view.getUint16(offset + 14, true),
+          crc32: view.getUint32(offset + 16, true),
+          compressedSize,
+          size,
+          extra: bytes.subarray(extraStart, extraStart + extraLength),
+          comment: bytes.subarray(
+            extraStart + extraLength,
+            extraStart + extraLength + commentLength,
+          ),
+          internalAttributes: view.getUint16(offset + 36, true),
+          externalAttributes: view.getUint32(offset + 38, true),
+          localExtra: bytes.subarray(localExtraStart, dataStart),
+          data: bytes.subarray(dataStart, dataStart + compressedSize),
+        });
+        offset = extraStart + extraLength + commentLength;
+      }
+    } catch (e) {
+      return null; // Offsets outside the archive
+    }
+    return entries;
+  }
+
+  private static write(entries: ZipEntry[]): Uint8Array {
+    const localSizes = entries.map(
+      (e) => 30 + e.nameBytes.length + e.localExtra.length + e.data.length,
+    );
+    const centralSize = entries.reduce(
+      (n, e) => n + 46 + e.nameBytes.length + e.extra.length + e.comment.length,
+      0,
+    );
+    const localTotal = localSizes.reduce((n, size) => n + size, 0);
+    const out = new Uint8Array(localTotal + centralSize + 22);
+    const view = new DataView(out.buffer);
+
+    // Sizes and CRC are known up front, so no data descriptors are written
+    const localOffsets: number[] = [];
+    let offset = 0;
+    for (const e of entries) {
+      localOffsets.push(offset);
+      view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+      view.setUint16(offset + 4, e.versionNeeded, true);
+      view.setUint16(offset + 6, e.flags & ~FLAG_DATA_DESCRIPTOR, true);
+      view.setUint16(offset + 8, e.method, true);
+      view.setUint16(offset + 10, e.time, true);
+      view.setUint16(offset + 12, e.date, true);
+      view.setUint32(offset + 14, e.crc32, true);
+      view.setUint32(offset + 18, e.compressedSize, true);
+      view.setUint32(offset + 22, e.size, true);
+      view.setUint16(offset + 26, e.nameBytes.length, true);
+      view.setUint16(offset + 28, e.localExtra.length, true);
+      offset += 30;
+      for (const part of [e.nameBytes, e.localExtra, e.data]) {
+        out.set(part, offset);
+        offset += part.length;
+      }
+    }
+
+    const centralOffset = offset;
+    entries.forEach((e, i) => {
+      view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(offset + 4, e.versionMadeBy, true);
+      view.setUint16(offset + 6, e.versionNeeded, true);
+      view.setUint16(offset + 8, e.flags & ~FLAG_DATA_DESCRIPTOR, true);
+      view.setUint16(offset + 10, e.method, true);
+      view.setUint16(offset + 12, e.time, true);
+      view.setUint16(offset + 14, e.date, true);
+      view.setUint32(offset + 16, e.crc32, true);
+      view.setUint32(offset + 20, e.compressedSize, true);
+      view.setUint32(offset + 24, e.size, true);
+      view.setUint16(offset + 28, e.nameBytes.length, true);
+      view.setUint16(offset + 30, e.extra.length, true);
+      view.setUint16(offset + 32, e.comment.length, true);
+      view.setUint16(offset + 34, 0, true); // Disk number
+      view.setUint16(offset + 36, e.internalAttributes, true);
+      view.setUint32(offset + 38, e.externalAttributes, true);
+      view.setUint32(offset + 42, localOffsets[i], true);
+      offset += 46;
+      for (const part of [e.nameBytes, e.extra, e.comment]) {
+        out.set(part, offset);
+        offset += part.length;
+      }
+    });
+
+    view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 8, entries.length, true);
+    view.setUint16(offset + 10, entries.length, true);
+    view.setUint32(offset + 12, offset - centralOffset, true);
+    view.setUint32(offset + 16, centralOffset, true);
+    return out;
+  }
+}
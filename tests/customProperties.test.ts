@@ -0,0 +1,38 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { InvalidPropertyError } from "../services/errors";
+import { ExcelService } from "../services/excelService";
+import { asFile, buildPackage } from "./fixtures/workbookPackage";
+
+describe("ExcelService.updateProperties custom properties", () => {
+  it("writes boolean text by its meaning", async () => {
+    const blob = await ExcelService.updateProperties(
+      asFile(await buildPackage()),
+      {
+        custom: [
+          { name: "Reviewed", type: "boolean", value: "false" },
+          { name: "Final", type: "boolean", value: "1" },
+        ],
+      },
+    );
+    const zip = await new JSZip().loadAsync(await blob.arrayBuffer());
+    const custom = await zip.file("docProps/custom.xml")!.async("string");
+    expect(custom).toContain('name="Reviewed"><vt:bool>false</vt:bool>');
+    expect(custom).toContain('name="Final"><vt:bool>true</vt:bool>');
+  });
+
+  it.each([
+    ["date", new Date("not a date"), "Invalid Date"],
+    ["number", "twelve", "twelve"],
+    ["number", Infinity, "Infinity"],
+    ["boolean", "maybe", "maybe"],
+  ] as const)("rejects an invalid %s value", async (type, value, shown) => {
+    const update = ExcelService.updateProperties(asFile(await buildPackage()), {
+      custom: [{ name: "Due", type, value }],
+    });
+    await expect(update).rejects.toBeInstanceOf(InvalidPropertyError);
+    await expect(update).rejects.toThrow(
+      `Custom property "Due" has an invalid ${type} value: ${shown}`,
+    );
+  });
+});
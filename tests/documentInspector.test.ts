@@ -0,0 +1,85 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { DocumentInspectorService } from "../services/documentInspector";
+import { PackageValidatorService } from "../services/packageValidator";
+import {
+  WORKBOOK_PARTS,
+  asFile,
+  buildPackage,
+} from "./fixtures/workbookPackage";
+
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+// "Calc" is hidden, used by a formula on "Input" and by a defined name, and
+// shares an image with "Input"
+const buildHiddenSheetWorkbook = () => {
+  const rels = (targets: Record<string, string>) =>
+    WORKBOOK_PARTS["_rels/.rels"].replace(
+      /<Relationship .*\/>/,
+      Object.entries(targets)
+        .map(
+          ([type, target], i) =>
+            `<Relationship Id="rId${i + 1}" Type="${REL_NS}/${type}" Target="${target}"/>`,
+        )
+        .join(""),
+    );
+  return buildPackage({
+    ...WORKBOOK_PARTS,
+    "[Content_Types].xml": WORKBOOK_PARTS["[Content_Types].xml"].replace(
+      "<Default ",
+      '<Default Extension="png" ContentType="image/png"/><Default ',
+    ),
+    "xl/workbook.xml": WORKBOOK_PARTS["xl/workbook.xml"]
+      .replace('sheetId="2"', 'sheetId="2" state="hidden"')
+      .replace(
+        "</definedNames>",
+        '<definedName name="Total">Calc!$A$1</definedName></definedNames>',
+      ),
+    "xl/worksheets/sheet1.xml": WORKBOOK_PARTS[
+      "xl/worksheets/sheet1.xml"
+    ].replace("</c></row>", '</c><c r="B1"><f>Calc!A1+1</f><v>3</v></c></row>'),
+    "xl/worksheets/_rels/sheet1.xml.rels": rels({
+      image: "../media/image1.png",
+    }),
+    "xl/worksheets/_rels/sheet2.xml.rels": rels({
+      comments: "../comments1.xml",
+      image: "../media/image1.png",
+    }),
+    "xl/comments1.xml":
+      '<comments xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><authors><author>Ann</author></authors><commentList/></comments>',
+    "xl/media/image1.png": "png",
+  });
+};
+
+describe("DocumentInspectorService", () => {
+  it("warns about what still uses a hidden sheet", async () => {
+    const findings = await DocumentInspectorService.inspect(
+      asFile(await buildHiddenSheetWorkbook()),
+    );
+    // The print area is local to "Calc" and goes with it
+    expect(
+      findings.filter((finding) => finding.category === "hiddenSheets"),
+    ).toEqual([
+      {
+        category: "hiddenSheets",
+        location: 'Sheet "Calc"',
+        detail: "Hidden",
+        warning: 'Still used by Input!B1 and name "Total"',
+      },
+    ]);
+  });
+
+  it("removes the parts only a deleted sheet used", async () => {
+    const file = asFile(await buildHiddenSheetWorkbook());
+    const { blob } = await DocumentInspectorService.clean(file, [
+      "hiddenSheets",
+    ]);
+    const zip = await new JSZip().loadAsync(await blob.arrayBuffer());
+    expect(zip.file("xl/worksheets/sheet2.xml")).toBeNull();
+    expect(zip.file("xl/worksheets/_rels/sheet2.xml.rels")).toBeNull();
+    expect(zip.file("xl/comments1.xml")).toBeNull();
+    expect(zip.file("xl/media/image1.png")).not.toBeNull();
+    expect(await PackageValidatorService.validate(file, blob)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { EncryptedPackageService } from "../services/encryptedPackage";
+import { IncorrectPasswordError } from "../services/errors";
+import { encryptAgile, encryptStandard } from "./fixtures/encryptPackage";
+import { WORKBOOK_PARTS, buildPackage } from "./fixtures/workbookPackage";
+
+// A sheet of pseudo-random numbers, so the package does not compress into
+// a single 4096 byte Agile segment
+const buildLargePackage = () => {
+  let seed = 1;
+  const rows = Array.from({ length: 600 }, (_, i) => {
+    seed = (seed * 48271) % 0x7fffffff;
+    return `<row r="${i + 1}"><c r="A${i + 1}"><v>${seed}</v></c></row>`;
+  });
+  return buildPackage({
+    ...WORKBOOK_PARTS,
+    "xl/worksheets/sheet2.xml": WORKBOOK_PARTS[
+      "xl/worksheets/sheet2.xml"
+    ].replace(
+      /<sheetData>.*<\/sheetData>/,
+      `<sheetData>${rows.join("")}</sheetData>`,
+    ),
+  });
+};
+
+describe.each([
+  ["Agile", encryptAgile],
+  ["Standard", encryptStandard],
+])("EncryptedPackageService (%s encryption)", (_, encrypt) => {
+  it("decrypts the package with the right password", async () => {
+    const pkg = await buildLargePackage();
+    expect(pkg.length).toBeGreaterThan(2 * 4096);
+    const encrypted = encrypt(pkg, "Sécret");
+    expect(EncryptedPackageService.isEncryptedPackage(encrypted)).toBe(true);
+    expect(EncryptedPackageService.isEncryptedPackage(pkg)).toBe(false);
+
+    expect(await EncryptedPackageService.decrypt(encrypted, "Sécret")).toEqual(
+      pkg,
+    );
+  });
+
+  it("rejects a wrong password", async () => {
+    const encrypted = encrypt(await buildPackage(), "Sécret");
+    await expect(
+      EncryptedPackageService.decrypt(encrypted, "secret"),
+    ).rejects.toBeInstanceOf(IncorrectPasswordError);
+  });
+});
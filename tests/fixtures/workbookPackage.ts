@@ -0,0 +1,72 @@
+import { readFileSync } from "fs";
+import JSZip from "jszip";
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const CONTENT_TYPE = "application/vnd.openxmlformats-officedocument";
+
+// A two-sheet workbook with the first sheet protected. Parts are written
+// in this order, so styles.xml is the last entry before the central
+// directory and the first one a truncated download loses.
+export const WORKBOOK_PARTS: Record<string, string> = {
+  "[Content_Types].xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPE}.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="${CONTENT_TYPE}.spreadsheetml.worksheet+xml"/><Override PartName="/xl/worksheets/sheet2.xml" ContentType="${CONTENT_TYPE}.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="${CONTENT_TYPE}.spreadsheetml.styles+xml"/></Types>`,
+  "_rels/.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+    `<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  "xl/workbook.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><bookViews><workbookView activeTab="1"/></bookViews><sheets><sheet name="Input" sheetId="1" r:id="rId1"/><sheet name="Calc" sheetId="2" r:id="rId2"/></sheets><definedNames><definedName name="_xlnm.Print_Area" localSheetId="1">Calc!$A$1:$B$2</definedName></definedNames><calcPr calcId="191029"/></workbook>`,
+  "xl/_rels/workbook.xml.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+    `<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${REL_NS}/worksheet" Target="worksheets/sheet2.xml"/><Relationship Id="rId3" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`,
+  "xl/worksheets/sheet1.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+    `<worksheet xmlns="${MAIN_NS}"><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData><sheetProtection password="CC3D" sheet="1" objects="1" scenarios="1"/><pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/></worksheet>`,
+  "xl/worksheets/sheet2.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n' +
+    `<worksheet xmlns="${MAIN_NS}"><sheetData><row r="1"><c r="A1"><f>Input!A1*2</f><v>2</v></c></row></sheetData><pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/></worksheet>`,
+  "xl/styles.xml": readFileSync(
+    new URL("./styles.xml", import.meta.url),
+    "utf8",
+  ),
+};
+
+/** Zips the parts as Excel does: deflated, in the order given. */
+export const buildPackage = (
+  parts: Record<string, string> = WORKBOOK_PARTS,
+  date = new Date("2024-05-01T12:00:00Z"),
+): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  for (const [path, text] of Object.entries(parts)) {
+    zip.file(path, text, { date });
+  }
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+};
+
+/** Cuts the archive off halfway through the data of one entry. */
+export const truncateInside = (bytes: Uint8Array, path: string) => {
+  const name = new TextEncoder().encode(path);
+  for (let i = 0; i + 30 + name.length <= bytes.length; i++) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + i);
+    if (
+      view.getUint32(0, true) === 0x04034b50 &&
+      view.getUint16(26, true) === name.length &&
+      name.every((byte, j) => bytes[i + 30 + j] === byte)
+    ) {
+      const dataStart = i + 30 + name.length + view.getUint16(28, true);
+      const compressedSize = view.getUint32(18, true);
+      return bytes.slice(0, dataStart + Math.floor(compressedSize / 2));
+    }
+  }
+  throw new Error(`${path} is not in the archive`);
+};
+
+export const asFile = (bytes: Uint8Array, name = "Budget.xlsx") =>
+  new File([bytes], name, {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
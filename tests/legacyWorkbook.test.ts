@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { CFB } from "xlsx";
+import { LegacyWorkbookService } from "../services/legacyWorkbook";
+
+// A BIFF8 Workbook stream built record by record, so every stream
+// position in it is known: globals with workbook protection and one
+// BoundSheet8, then a protected worksheet with an INDEX record.
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const u32 = (n: number) => [...u16(n & 0xffff), ...u16(n >>> 16)];
+const record = (type: number, data: number[]) => [
+  ...u16(type),
+  ...u16(data.length),
+  ...data,
+];
+const bof = (dt: number) =>
+  record(0x0809, [...u16(0x0600), ...u16(dt), ...new Array(12).fill(0)]);
+const eof = () => record(0x000a, []);
+const protect = () => record(0x0012, u16(1));
+const password = (hash: number) => record(0x0013, u16(hash));
+
+const ROW_MAC = 0xffff; // Above every stream position, so a shift shows
+
+const buildStream = () => {
+  const globals = (sheetBof: number) => [
+    ...bof(0x0005),
+    ...protect(),
+    ...password(0xcc3d),
+    ...record(0x0085, [
+      ...u32(sheetBof),
+      0, // Visible
+      0, // Worksheet
+      4,
+      0,
+      ..."Data".split("").map((c) => c.charCodeAt(0)),
+    ]),
+    ...eof(),
+  ];
+  const sheetBof = globals(0).length;
+
+  // Offsets within the sheet substream
+  const indexLength = 4 + 20;
+  const defColWidth = 20 + indexLength + 6 + 6; // After BOF, INDEX, PROTECT, PASSWORD
+  const dbCell = defColWidth + 6 + 20; // After DEFCOLWIDTH and one ROW
+  const sheet = [
+    ...bof(0x0010),
+    ...record(0x020b, [
+      ...u32(0),
+      ...u32(0),
+      ...u32(ROW_MAC),
+      ...u32(sheetBof + defColWidth),
+      ...u32(sheetBof + dbCell),
+    ]),
+    ...protect(),
+    ...password(0x83af),
+    ...record(0x0055, u16(8)),
+    ...record(0x0208, new Array(16).fill(0)),
+    ...record(0x00d7, u32(0)),
+    ...eof(),
+  ];
+  return Uint8Array.from([...globals(sheetBof), ...sheet]);
+};
+
+const buildXls = (stream: Uint8Array) => {
+  const cfb = CFB.utils.cfb_new();
+  CFB.utils.cfb_add(cfb, "/Workbook", stream);
+  return Uint8Array.from(CFB.write(cfb, { type: "array" }) as number[]);
+};
+
+const readStream = (xls: Uint8Array) => {
+  const entry = CFB.find(CFB.read(xls, { type: "array" }), "/Workbook")!;
+  return Uint8Array.from(entry.content as ArrayLike<number>);
+};
+
+const parseRecords = (stream: Uint8Array) => {
+  const view = new DataView(stream.buffer, stream.byteOffset);
+  const records: { type: number; pos: number; data: DataView }[] = [];
+  for (let pos = 0; pos + 4 <= stream.length;) {
+    const type = view.getUint16(pos, true);
+    const size = view.getUint16(pos + 2, true);
+    if (type === 0 && size === 0) break; // Padding
+    records.push({
+      type,
+      pos,
+      data: new DataView(stream.buffer, stream.byteOffset + pos + 4, size),
+    });
+    pos += 4 + size;
+  }
+  return records;
+};
+
+describe("LegacyWorkbookService", () => {
+  const xls = buildXls(buildStream());
+
+  it("reports the legacy protection records", () => {
+    const report = LegacyWorkbookService.inspect(xls);
+    expect(report.workbook).toMatchObject({
+      lockStructure: true,
+      legacyPassword: "CC3D",
+    });
+    expect(report.sheets).toHaveLength(1);
+    expect(report.sheets[0]).toMatchObject({
+      name: "Data",
+      kind: "worksheet",
+      protection: { legacyPassword: "83AF" },
+    });
+  });
+
+  it("strips the protection records and shifts every stream position", () => {
+    const { bytes } = LegacyWorkbookService.unprotect(xls, {}, () => {});
+    const stream = readStream(bytes);
+    expect(stream.length).toBe(buildStream().length);
+
+    const records = parseRecords(stream);
+    expect(records.map((r) => r.type)).not.toContain(0x0012);
+    expect(records.map((r) => r.type)).not.toContain(0x0013);
+
+    const positionOf = (type: number) =>
+      records.find((r) => r.type === type)!.pos;
+    const sheetBof = records.filter((r) => r.type === 0x0809)[1].pos;
+    const boundSheet = records.find((r) => r.type === 0x0085)!.data;
+    expect(boundSheet.getUint32(0, true)).toBe(sheetBof);
+
+    const index = records.find((r) => r.type === 0x020b)!.data;
+    expect(index.getUint32(8, true)).toBe(ROW_MAC); // rwMac is a row number
+    expect(index.getUint32(12, true)).toBe(positionOf(0x0055)); // ibXF
+    expect(index.getUint32(16, true)).toBe(positionOf(0x00d7)); // rgibRw
+
+    expect(LegacyWorkbookService.inspect(bytes)).toMatchObject({
+      workbook: null,
+      sheets: [{ protection: null }],
+    });
+  });
+
+  it("keeps the workbook protection when only sheets are selected", () => {
+    const { bytes } = LegacyWorkbookService.unprotect(
+      xls,
+      { workbook: false },
+      () => {},
+    );
+    const records = parseRecords(readStream(bytes));
+    const index = records.find((r) => r.type === 0x020b)!.data;
+    expect(index.getUint32(12, true)).toBe(
+      records.find((r) => r.type === 0x0055)!.pos,
+    );
+    expect(LegacyWorkbookService.inspect(bytes).workbook).not.toBeNull();
+  });
+});
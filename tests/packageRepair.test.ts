@@ -0,0 +1,131 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { PackageRepairService } from "../services/packageRepair";
+import { PackageValidatorService } from "../services/packageValidator";
+import { ZipPackage } from "../services/zipPackage";
+import {
+  WORKBOOK_PARTS,
+  asFile,
+  buildPackage,
+  truncateInside,
+} from "./fixtures/workbookPackage";
+
+const readPart = async (file: Blob, path: string) =>
+  (await new JSZip().loadAsync(await file.arrayBuffer()))
+    .file(path)
+    ?.async("string");
+
+describe("ZipPackage.salvage", () => {
+  it("keeps the entries before the cut and lists the cut one", async () => {
+    const truncated = truncateInside(await buildPackage(), "xl/styles.xml");
+    const salvaged = await ZipPackage.salvage(truncated);
+    expect(salvaged.recovered).toEqual(
+      Object.keys(WORKBOOK_PARTS).filter((path) => path !== "xl/styles.xml"),
+    );
+    expect(salvaged.damaged).toEqual(["xl/styles.xml"]);
+
+    const zip = await new JSZip().loadAsync(salvaged.bytes);
+    expect(await zip.file("xl/workbook.xml")!.async("string")).toBe(
+      WORKBOOK_PARTS["xl/workbook.xml"],
+    );
+  });
+});
+
+describe("PackageRepairService", () => {
+  it("drops the references to a lost part", async () => {
+    const truncated = truncateInside(await buildPackage(), "xl/styles.xml");
+    await expect(new JSZip().loadAsync(truncated)).rejects.toThrow();
+
+    const { file, report } = await PackageRepairService.repair(
+      asFile(truncated),
+    );
+    expect(report.lostParts).toEqual(["xl/styles.xml"]);
+    expect(report.rebuiltParts).toEqual([]);
+
+    expect(await readPart(file, "xl/_rels/workbook.xml.rels")).not.toContain(
+      "styles.xml",
+    );
+    expect(await readPart(file, "[Content_Types].xml")).not.toContain(
+      "/xl/styles.xml",
+    );
+    expect(await PackageValidatorService.validate(file, file)).toEqual([]);
+  });
+
+  it("removes the elements that referred to a lost part", async () => {
+    const rels = WORKBOOK_PARTS["_rels/.rels"].replace(
+      /<Relationship .*\/>/,
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing" Target="../drawings/drawing1.xml"/>',
+    );
+    const parts = {
+      ...WORKBOOK_PARTS,
+      "xl/worksheets/sheet1.xml": WORKBOOK_PARTS[
+        "xl/worksheets/sheet1.xml"
+      ].replace(
+        "<pageMargins",
+        '<drawing xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:id="rId1"/><pageMargins',
+      ),
+      "xl/worksheets/_rels/sheet1.xml.rels": rels,
+    };
+    const { file, report } = await PackageRepairService.repair(
+      asFile(await buildPackage(parts)),
+    );
+    expect(report.lostParts).toEqual(["xl/drawings/drawing1.xml"]);
+    expect(await readPart(file, "xl/worksheets/sheet1.xml")).toBe(
+      WORKBOOK_PARTS["xl/worksheets/sheet1.xml"],
+    );
+    expect(
+      await readPart(file, "xl/worksheets/_rels/sheet1.xml.rels"),
+    ).not.toContain("drawing1.xml");
+  });
+
+  it("removes a sheet whose part was lost", async () => {
+    const parts = { ...WORKBOOK_PARTS };
+    // Move the second sheet to the end, where the cut is
+    const sheet2 = parts["xl/worksheets/sheet2.xml"];
+    delete parts["xl/worksheets/sheet2.xml"];
+    parts["xl/worksheets/sheet2.xml"] = sheet2;
+    const truncated = truncateInside(
+      await buildPackage(parts),
+      "xl/worksheets/sheet2.xml",
+    );
+
+    const { file, report } = await PackageRepairService.repair(
+      asFile(truncated),
+    );
+    expect(report.lostParts).toEqual([
+      'Sheet "Calc"',
+      "xl/worksheets/sheet2.xml",
+    ]);
+
+    // Its print area went with it, and the active tab moved to a kept sheet
+    const workbook = await readPart(file, "xl/workbook.xml");
+    expect(workbook).toContain(
+      '<bookViews><workbookView activeTab="0"/></bookViews><sheets><sheet name="Input" sheetId="1" r:id="rId1"/></sheets><calcPr',
+    );
+    expect(await readPart(file, "xl/_rels/workbook.xml.rels")).not.toContain(
+      "sheet2.xml",
+    );
+    expect(await PackageValidatorService.validate(file, file)).toEqual([]);
+  });
+
+  it("rebuilds lost relationship and content type parts", async () => {
+    const parts = { ...WORKBOOK_PARTS };
+    delete parts["[Content_Types].xml"];
+    delete parts["xl/_rels/workbook.xml.rels"];
+    const bytes = await buildPackage(parts);
+    // Without its end of central directory record JSZip gives up
+    const truncated = truncateInside(bytes, "xl/styles.xml");
+
+    const { file, report } = await PackageRepairService.repair(
+      asFile(truncated),
+    );
+    expect(report.rebuiltParts).toEqual([
+      "xl/_rels/workbook.xml.rels",
+      "[Content_Types].xml",
+    ]);
+    const rels = await readPart(file, "xl/_rels/workbook.xml.rels");
+    expect(rels).toContain('Id="rId1"');
+    expect(rels).toContain('Target="worksheets/sheet2.xml"');
+    expect(await PackageValidatorService.validate(file, file)).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { PackageValidatorService } from "../services/packageValidator";
+import {
+  WORKBOOK_PARTS,
+  asFile,
+  buildPackage,
+  truncateInside,
+} from "./fixtures/workbookPackage";
+
+const SHEET_PATH = "xl/worksheets/sheet1.xml";
+const WORKBOOK_RELS_PATH = "xl/_rels/workbook.xml.rels";
+
+// A relationship to a part that is not in the package
+const withDanglingRelationship = (parts: Record<string, string>) => ({
+  ...parts,
+  [WORKBOOK_RELS_PATH]: parts[WORKBOOK_RELS_PATH].replace(
+    "</Relationships>",
+    '<Relationship Id="rId9" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme" Target="theme/theme1.xml"/></Relationships>',
+  ),
+});
+
+const validate = async (
+  output: Record<string, string>,
+  original: Record<string, string> = WORKBOOK_PARTS,
+) =>
+  PackageValidatorService.validate(
+    asFile(await buildPackage(original)),
+    asFile(await buildPackage(output)),
+  );
+
+describe("PackageValidatorService", () => {
+  it("accepts an unchanged package", async () => {
+    expect(await validate(WORKBOOK_PARTS)).toEqual([]);
+  });
+
+  it("reports an unreadable output", async () => {
+    const original = asFile(await buildPackage());
+    const output = asFile(
+      truncateInside(await buildPackage(), "xl/styles.xml"),
+    );
+    expect(await PackageValidatorService.validate(original, output)).toEqual([
+      {
+        severity: "error",
+        part: "",
+        message: "The output is not a readable ZIP package.",
+      },
+    ]);
+  });
+
+  it("reports a part without a content type", async () => {
+    const issues = await validate({
+      ...WORKBOOK_PARTS,
+      "xl/printerSettings/printerSettings1.bin": "\0",
+    });
+    expect(issues).toEqual([
+      {
+        severity: "error",
+        part: "xl/printerSettings/printerSettings1.bin",
+        message: "No content type is declared for this part.",
+      },
+    ]);
+  });
+
+  it("reports a relationship to a missing part", async () => {
+    const issues = await validate(withDanglingRelationship(WORKBOOK_PARTS));
+    expect(issues).toEqual([
+      {
+        severity: "error",
+        part: WORKBOOK_RELS_PATH,
+        message:
+          'Relationship "rId9" points to a missing part: xl/theme/theme1.xml',
+      },
+    ]);
+  });
+
+  it("reports malformed XML in a changed part", async () => {
+    const issues = await validate({
+      ...WORKBOOK_PARTS,
+      [SHEET_PATH]: WORKBOOK_PARTS[SHEET_PATH].replace("</sheetData>", ""),
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: "error", part: SHEET_PATH });
+    expect(issues[0].message).toMatch(/^Malformed XML: /);
+  });
+
+  it("reports elements out of schema order in a changed part", async () => {
+    const sheet = WORKBOOK_PARTS[SHEET_PATH];
+    const protection = sheet.match(/<sheetProtection [^>]*\/>/)![0];
+    const issues = await validate({
+      ...WORKBOOK_PARTS,
+      [SHEET_PATH]: sheet
+        .replace(protection, "")
+        .replace("<sheetData>", `${protection}<sheetData>`),
+    });
+    expect(issues).toEqual([
+      {
+        severity: "error",
+        part: SHEET_PATH,
+        message: "<sheetData> must come before <sheetProtection>.",
+      },
+    ]);
+  });
+
+  it("only warns about problems the original already had", async () => {
+    const original = withDanglingRelationship(WORKBOOK_PARTS);
+    const issues = await validate(
+      {
+        ...original,
+        [SHEET_PATH]: WORKBOOK_PARTS[SHEET_PATH].replace(
+          /<sheetProtection [^>]*\/>/,
+          "",
+        ),
+      },
+      original,
+    );
+    expect(issues).toEqual([
+      {
+        severity: "warning",
+        part: WORKBOOK_RELS_PATH,
+        message:
+          'Relationship "rId9" points to a missing part: xl/theme/theme1.xml',
+        preexisting: true,
+      },
+    ]);
+  });
+});
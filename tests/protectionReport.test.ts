@@ -0,0 +1,47 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { ExcelService } from "../services/excelService";
+import {
+  WORKBOOK_PARTS,
+  asFile,
+  buildPackage,
+} from "./fixtures/workbookPackage";
+
+// A macro-enabled workbook whose vbaProject.bin is not a compound file
+const buildMacroWorkbook = async () => {
+  const bytes = await buildPackage({
+    ...WORKBOOK_PARTS,
+    "xl/vbaProject.bin": "not a compound file",
+  });
+  return asFile(bytes, "Macros.xlsm");
+};
+
+describe("ExcelService protection report", () => {
+  it("reports a VBA project that cannot be read", async () => {
+    const report = await ExcelService.inspectFile(await buildMacroWorkbook());
+    expect(report.vbaProject).toEqual({
+      path: "xl/vbaProject.bin",
+      isLocked: false,
+      hasPassword: false,
+      error: "The VBA project (vbaProject.bin) could not be read.",
+    });
+  });
+
+  it("still unprotects the sheets and leaves the VBA project as it is", async () => {
+    const result = await ExcelService.unprotectFile(
+      await buildMacroWorkbook(),
+      () => {},
+      { vbaProject: true },
+    );
+    expect(result.report.vbaProject?.error).toBeDefined();
+    expect(result.vbaProjectUnlocked).toBe(false);
+    expect(result.changes.map((change) => change.kind)).toEqual([
+      "sheetProtectionRemoved",
+    ]);
+
+    const zip = await new JSZip().loadAsync(await result.blob.arrayBuffer());
+    expect(await zip.file("xl/vbaProject.bin")!.async("string")).toBe(
+      "not a compound file",
+    );
+  });
+});
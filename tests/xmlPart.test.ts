@@ -0,0 +1,291 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { XmlPart } from "../services/xmlPart";
+
+// Parts as Excel saves them: standalone declaration, CRLF after it, mc:
+// and x14ac: prefixes, attributes that are never re-serialised the same way
+const fixture = (name: string) =>
+  readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+
+// The text with [start, end) replaced, which must be the only difference
+const splice = (text: string, start: number, end: number, insert = "") =>
+  text.slice(0, start) + insert + text.slice(end);
+
+const rangeOf = (text: string, snippet: string) => {
+  const start = text.indexOf(snippet);
+  expect(start, `"${snippet}" in fixture`).toBeGreaterThan(-1);
+  expect(text.indexOf(snippet, start + 1)).toBe(-1);
+  return [start, start + snippet.length] as const;
+};
+
+describe("XmlPart on workbook.xml", () => {
+  const text = fixture("workbook.xml");
+
+  it("round-trips an unedited part byte for byte", () => {
+    const part = new XmlPart(text);
+    expect(part.changed).toBe(false);
+    expect(part.toString()).toBe(text);
+    expect(
+      part
+        .toString()
+        .startsWith(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n',
+        ),
+    ).toBe(true);
+  });
+
+  it("removes workbookProtection and nothing else", () => {
+    const part = new XmlPart(text);
+    expect(part.removeAll("workbookProtection")).toBe(1);
+
+    const [start] = rangeOf(text, "<workbookProtection ");
+    const end = text.indexOf("/>", start) + 2;
+    expect(part.toString()).toBe(splice(text, start, end));
+  });
+
+  it("inserts workbookProtection before bookViews", () => {
+    const part = new XmlPart(text);
+    part.removeAll("workbookProtection");
+    part.insertElement("workbookProtection", { lockStructure: "1" }, [
+      "bookViews",
+      "sheets",
+    ]);
+
+    const [start] = rangeOf(text, "<workbookProtection ");
+    const [bookViews] = rangeOf(text, "<bookViews>");
+    expect(part.toString()).toBe(
+      splice(text, start, bookViews, '<workbookProtection lockStructure="1"/>'),
+    );
+  });
+
+  it("rewrites one attribute of one sheet", () => {
+    const part = new XmlPart(text);
+    const calc = part.find("sheet")[1];
+    expect(part.getAttribute(calc, "name")).toBe("Calc");
+    part.setAttribute(calc, "state", "visible");
+
+    const [start, end] = rangeOf(text, ' state="hidden"');
+    expect(part.toString()).toBe(splice(text, start, end, ' state="visible"'));
+  });
+
+  it("does not mistake prefixed elements for their local name", () => {
+    // x15:workbookPr in extLst shares the local name of workbookPr
+    const part = new XmlPart(text);
+    expect(part.find("workbookPr").map((el) => el.name)).toEqual([
+      "workbookPr",
+      "x15:workbookPr",
+    ]);
+    expect(part.find("workbookPr")[1].depth).toBe(3);
+  });
+});
+
+describe("XmlPart on a worksheet", () => {
+  const text = fixture("sheet1.xml");
+
+  it("removes sheetProtection and protectedRanges only", () => {
+    const part = new XmlPart(text);
+    expect(part.removeAll("sheetProtection")).toBe(1);
+    expect(part.removeAll("protectedRanges")).toBe(1);
+
+    const [start] = rangeOf(text, "<sheetProtection ");
+    const [, end] = rangeOf(text, "</protectedRanges>");
+    expect(part.toString()).toBe(splice(text, start, end));
+    // The escaped text in the inline string cell is not an element
+    expect(part.toString()).toContain("&lt;sheetProtection/&gt; ");
+  });
+
+  it("changes a flag without touching the other attributes", () => {
+    const part = new XmlPart(text);
+    const [protection] = part.find("sheetProtection");
+    expect(part.getAttribute(protection, "spinCount")).toBe("100000");
+    part.setAttribute(protection, "formatColumns", "1");
+    part.removeAttribute(protection, "objects");
+
+    const [fcStart, fcEnd] = rangeOf(text, ' formatColumns="0"');
+    const [objStart, objEnd] = rangeOf(text, ' objects="1"');
+    expect(part.toString()).toBe(
+      splice(
+        splice(text, fcStart, fcEnd, ' formatColumns="1"'),
+        objStart,
+        objEnd,
+      ),
+    );
+  });
+
+  it("unhides a row through its prefixed sibling attributes", () => {
+    const part = new XmlPart(text);
+    const row = part.find("row")[3];
+    expect(part.getAttribute(row, "x14ac:dyDescent")).toBe("0.35");
+    part.removeAttribute(row, "hidden");
+
+    const [start] = rangeOf(text, ' hidden="1" x14ac');
+    expect(part.toString()).toBe(splice(text, start, start + 11));
+  });
+
+  it("drops edits inside a removed row", () => {
+    const part = new XmlPart(text);
+    const row = part.find("row")[3];
+    const [cell] = part.find("c").filter((c) => c.start > row.start);
+    part.removeAttribute(cell, "s");
+    part.remove(row);
+    part.remove(cell);
+    part.setAttribute(cell, "s", "1");
+    expect(part.isRemoved(cell)).toBe(true);
+
+    const [start] = rangeOf(text, '<row r="4"');
+    const end = text.indexOf("</row>", start) + "</row>".length;
+    expect(part.toString()).toBe(splice(text, start, end));
+  });
+
+  it("removes a parent left without children", () => {
+    const part = new XmlPart(text);
+    part.removeAll("protectedRange");
+    part.removeEmpty("protectedRanges");
+    part.removeEmpty("cols"); // Still has its columns
+
+    const [start] = rangeOf(text, "<protectedRanges>");
+    const [, end] = rangeOf(text, "</protectedRanges>");
+    expect(part.toString()).toBe(splice(text, start, end));
+  });
+
+  it("finds protection without scanning sheetData", () => {
+    const part = new XmlPart(text, ["sheetData"]);
+    expect(part.find("row")).toHaveLength(0);
+    expect(part.find("sheetData")).toHaveLength(1);
+    expect(part.find("protectedRange").map((el) => el.depth)).toEqual([2]);
+
+    const [protection] = part.find("sheetProtection");
+    expect(part.parseElement(protection).getAttribute("spinCount")).toBe(
+      "100000",
+    );
+    expect(part.removeAll("sheetProtection")).toBe(1);
+
+    const [start] = rangeOf(text, "<sheetProtection ");
+    const end = text.indexOf("/>", start) + 2;
+    expect(part.toString()).toBe(splice(text, start, end));
+  });
+});
+
+describe("XmlPart on styles.xml", () => {
+  const text = fixture("styles.xml");
+
+  it("opens a self-closing xf to add protection", () => {
+    const part = new XmlPart(text);
+    const [normal] = part
+      .find("xf")
+      .filter((el) => el.depth === 2)
+      .slice(1);
+    part.insertChild(normal, "protection", { locked: "0" }, ["extLst"]);
+
+    const start = normal.startTagEnd - 2;
+    expect(text.slice(start, normal.startTagEnd)).toBe("/>");
+    expect(part.toString()).toBe(
+      splice(text, start, normal.startTagEnd, '><protection locked="0"/></xf>'),
+    );
+  });
+
+  it("appends protection after an existing child", () => {
+    const part = new XmlPart(text);
+    const aligned = part.find("xf")[3];
+    part.insertChild(aligned, "protection", { hidden: "1" }, ["extLst"]);
+
+    const offset = aligned.end - "</xf>".length;
+    expect(part.toString()).toBe(
+      splice(text, offset, offset, '<protection hidden="1"/>'),
+    );
+  });
+
+  it("edits an existing protection element in place", () => {
+    const part = new XmlPart(text);
+    const [protection] = part.find("protection");
+    part.setAttribute(protection, "locked", "1");
+
+    const [start, end] = rangeOf(text, ' locked="0"');
+    expect(part.toString()).toBe(splice(text, start, end, ' locked="1"'));
+  });
+
+  it("leaves escaped attribute values alone", () => {
+    const part = new XmlPart(text);
+    expect(part.getAttribute(part.find("numFmt")[0], "formatCode")).toBe(
+      "&quot;$&quot;#,##0.00",
+    );
+    part.setAttribute(part.find("cellXfs")[0], "count", "4");
+    expect(part.toString()).toContain('formatCode="&quot;$&quot;#,##0.00"');
+  });
+});
+
+describe("XmlPart on unusual but valid markup", () => {
+  it("keeps a prefixed namespace for inserted elements", () => {
+    const text =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<x:worksheet xmlns:x="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><x:sheetData/><x:pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/></x:worksheet>';
+    const part = new XmlPart(text);
+    part.insertElement("sheetProtection", { sheet: "1" }, ["pageMargins"]);
+
+    const [margins] = rangeOf(text, "<x:pageMargins");
+    expect(part.toString()).toBe(
+      splice(text, margins, margins, '<x:sheetProtection sheet="1"/>'),
+    );
+  });
+
+  it("gives an inserted child the parent's prefix", () => {
+    const text =
+      '<x:styleSheet xmlns:x="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><x:cellXfs count="1"><x:xf numFmtId="0" xfId="0"/></x:cellXfs></x:styleSheet>';
+    const part = new XmlPart(text);
+    part.insertChild(part.find("xf")[0], "protection", { locked: "0" }, []);
+    expect(part.toString()).toBe(
+      '<x:styleSheet xmlns:x="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><x:cellXfs count="1"><x:xf numFmtId="0" xfId="0"><x:protection locked="0"/></x:xf></x:cellXfs></x:styleSheet>',
+    );
+  });
+
+  it("reads and replaces single-quoted attributes", () => {
+    const text =
+      "<worksheet xmlns='http://schemas.openxmlformats.org/spreadsheetml/2006/main'><sheetData/><sheetProtection password='CC3D' sheet='1' objects = '1'/></worksheet>";
+    const part = new XmlPart(text);
+    const [protection] = part.find("sheetProtection");
+    expect(part.getAttribute(protection, "password")).toBe("CC3D");
+    expect(part.getAttribute(protection, "objects")).toBe("1");
+    part.setAttribute(protection, "sheet", "0");
+    part.removeAttribute(protection, "password");
+
+    expect(part.toString()).toBe(
+      "<worksheet xmlns='http://schemas.openxmlformats.org/spreadsheetml/2006/main'><sheetData/><sheetProtection sheet=\"0\" objects = '1'/></worksheet>",
+    );
+  });
+
+  it("ignores elements inside comments and CDATA", () => {
+    const text =
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<!-- <sheetProtection sheet="1"/> kept for reference -->' +
+      '<sheetData><row r="1"><c r="A1" t="inlineStr"><is><t><![CDATA[<sheetProtection sheet="1"/>]]></t></is></c></row></sheetData>' +
+      '<sheetProtection sheet="1"/></worksheet>';
+    const part = new XmlPart(text);
+    expect(part.find("sheetProtection")).toHaveLength(1);
+    expect(part.removeAll("sheetProtection")).toBe(1);
+
+    const start = text.lastIndexOf('<sheetProtection sheet="1"/>');
+    expect(part.toString()).toBe(
+      splice(text, start, start + '<sheetProtection sheet="1"/>'.length),
+    );
+  });
+
+  it("does not insert into a self-closing root", () => {
+    const text =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"/>';
+    const part = new XmlPart(text);
+    part.insertElement("sheetProtection", { sheet: "1" }, []);
+    expect(part.changed).toBe(false);
+    expect(part.toString()).toBe(text);
+  });
+
+  it("removes a self-closing root's attribute", () => {
+    const text =
+      "<worksheet xmlns='http://schemas.openxmlformats.org/spreadsheetml/2006/main' xml:space='preserve'/>";
+    const part = new XmlPart(text);
+    const [root] = part.find("worksheet");
+    part.removeAttribute(root, "xml:space");
+    expect(part.toString()).toBe(
+      "<worksheet xmlns='http://schemas.openxmlformats.org/spreadsheetml/2006/main'/>",
+    );
+  });
+});
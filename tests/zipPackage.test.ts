@@ -0,0 +1,102 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { ZipPackage } from "../services/zipPackage";
+import {
+  WORKBOOK_PARTS,
+  buildPackage,
+  truncateInside,
+} from "./fixtures/workbookPackage";
+
+// Local file headers in archive order, with their stored (compressed) data.
+// The fixtures are written without data descriptors, so the sizes are there.
+const readLocalEntries = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const entries: {
+    name: string;
+    time: number;
+    date: number;
+    data: Uint8Array;
+  }[] = [];
+  for (let pos = 0; view.getUint32(pos, true) === 0x04034b50;) {
+    const nameLength = view.getUint16(pos + 26, true);
+    const dataStart = pos + 30 + nameLength + view.getUint16(pos + 28, true);
+    const dataEnd = dataStart + view.getUint32(pos + 18, true);
+    entries.push({
+      name: new TextDecoder().decode(
+        bytes.subarray(pos + 30, pos + 30 + nameLength),
+      ),
+      time: view.getUint16(pos + 10, true),
+      date: view.getUint16(pos + 12, true),
+      data: bytes.slice(dataStart, dataEnd),
+    });
+    pos = dataEnd;
+  }
+  return entries;
+};
+
+describe("ZipPackage.rebuild", () => {
+  const date = new Date("2019-03-04T05:06:08Z");
+
+  it("copies unchanged entries raw and recompresses changed ones", async () => {
+    const original = await buildPackage(WORKBOOK_PARTS, date);
+    const zip = await new JSZip().loadAsync(original);
+    const sheet = WORKBOOK_PARTS["xl/worksheets/sheet1.xml"].replace(
+      /<sheetProtection [^>]*\/>/,
+      "",
+    );
+    zip.file("xl/worksheets/sheet1.xml", sheet);
+
+    const rebuilt = await ZipPackage.rebuild(
+      original,
+      zip,
+      new Set(["xl/worksheets/sheet1.xml"]),
+    );
+    expect(rebuilt).not.toBeNull();
+
+    const before = readLocalEntries(original);
+    const after = readLocalEntries(rebuilt!);
+    expect(after.map((e) => e.name)).toEqual(before.map((e) => e.name));
+    after.forEach((entry, i) => {
+      // The changed part keeps the timestamp of the entry it replaces
+      expect([entry.time, entry.date]).toEqual([
+        before[i].time,
+        before[i].date,
+      ]);
+      if (entry.name === "xl/worksheets/sheet1.xml") {
+        expect(entry.data).not.toEqual(before[i].data);
+      } else {
+        expect(entry.data).toEqual(before[i].data);
+      }
+    });
+
+    const reloaded = await new JSZip().loadAsync(rebuilt!, {
+      checkCRC32: true,
+    });
+    expect(
+      await reloaded.file("xl/worksheets/sheet1.xml")!.async("string"),
+    ).toBe(sheet);
+  });
+
+  it("drops removed entries and appends new ones", async () => {
+    const original = await buildPackage(WORKBOOK_PARTS, date);
+    const zip = await new JSZip().loadAsync(original);
+    zip.remove("xl/worksheets/sheet2.xml");
+    zip.file("docProps/custom.xml", "<Properties/>");
+
+    const rebuilt = await ZipPackage.rebuild(original, zip, new Set());
+    const names = readLocalEntries(rebuilt!).map((e) => e.name);
+    expect(names).toEqual([
+      ...readLocalEntries(original)
+        .map((e) => e.name)
+        .filter((name) => name !== "xl/worksheets/sheet2.xml"),
+      "docProps/custom.xml",
+    ]);
+  });
+
+  it("returns null when the central directory cannot be read", async () => {
+    const truncated = truncateInside(await buildPackage(), "xl/styles.xml");
+    expect(await ZipPackage.rebuild(truncated, new JSZip(), new Set())).toBe(
+      null,
+    );
+  });
+});
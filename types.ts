@@ -10,6 +10,22 @@ export interface ProcessStep {
   status: "pending" | "processing" | "completed" | "error";
 }
 
+// Work done so far in a step, counted in parts or bytes
+export interface ProgressInfo {
+  done: number;
+  total: number;
+}
+
+export type ProgressCallback = (step: string, progress?: ProgressInfo) => void;
+
+export type CustomPropertyType = "text" | "number" | "date" | "boolean";
+
+export interface CustomProperty {
+  name: string;
+  type: CustomPropertyType;
+  value: string | number | boolean | Date;
+}
+
 export interface ExcelProperties {
   title?: string;
   subject?: string;
@@ -30,4 +46,238 @@ export interface ExcelProperties {
   scale?: boolean;
   linksDirty?: boolean;
   language?: string;
+  custom?: CustomProperty[]; // User-defined properties (docProps/custom.xml)
+}
+
+export interface ProtectionDetails {
+  algorithmName?: string;
+  spinCount?: number;
+  hasHash: boolean;
+  hasSalt: boolean;
+  legacyPassword?: string; // 16-bit verifier from the legacy `password` attribute
+}
+
+export interface WorkbookProtectionInfo extends ProtectionDetails {
+  lockStructure: boolean;
+  lockWindows: boolean;
+  lockRevision: boolean;
+}
+
+export interface SheetProtectionInfo extends ProtectionDetails {
+  allowedActions: string[]; // e.g. "formatCells", "insertRows", "sort"
+}
+
+export interface ProtectedRangeInfo extends ProtectionDetails {
+  name: string;
+  sqref: string; // Cell ranges covered, e.g. "A1:B5 D1"
+  hasSecurityDescriptor: boolean;
+}
+
+export type SheetKind =
+  "worksheet" | "chartsheet" | "dialogsheet" | "macrosheet";
+
+export type SheetState = "visible" | "hidden" | "veryHidden";
+
+export interface SheetReport {
+  name: string;
+  path: string; // Part path inside the package, e.g. xl/worksheets/sheet3.xml
+  kind: SheetKind;
+  state: SheetState;
+  protection: SheetProtectionInfo | null;
+  protectedRanges: ProtectedRangeInfo[];
+}
+
+export interface FileSharingInfo extends ProtectionDetails {
+  readOnlyRecommended: boolean;
+  userName?: string; // Who reserved the file
+}
+
+export interface VbaProjectInfo {
+  path: string; // Usually xl/vbaProject.bin
+  isLocked: boolean; // Locked for viewing or otherwise protected
+  hasPassword: boolean;
+  error?: string; // Why the project could not be read; its protection is then unknown
+}
+
+export interface CellProtectionInfo {
+  formats: number; // Cell formats (cellXfs entries, or cell XF records in .xls)
+  locked: number; // Formats that lock their cells; locking is the default
+  hidden: number; // Formats that hide formulas while the sheet is protected
+}
+
+export interface ProtectionReport {
+  workbook: WorkbookProtectionInfo | null;
+  sheets: SheetReport[];
+  fileSharing: FileSharingInfo | null; // Read-only / password to modify
+  vbaProject: VbaProjectInfo | null;
+  cellProtection: CellProtectionInfo | null; // null without a style part
+}
+
+export interface UnprotectOptions {
+  workbook?: boolean; // Remove workbook structure protection (default true)
+  sheets?: string[]; // Part paths of the sheets to unprotect (default: all)
+  protectedRanges?: boolean; // Strip allow-edit ranges of those sheets (default true)
+  unhideSheets?: string[]; // Part paths of hidden sheets to make visible
+  vbaProject?: boolean; // Unlock the VBA project of macro-enabled files
+  fileSharing?: boolean; // Remove read-only recommendation and password to modify (default true)
+  password?: string; // "Password to Open" of an encrypted package
+  unlockCells?: boolean; // Unlock every cell format, so re-protecting locks nothing
+  revealFormulas?: boolean; // Stop every cell format from hiding formulas
+}
+
+export type ProtectionChangeKind =
+  | "workbookProtectionRemoved"
+  | "sheetProtectionRemoved"
+  | "protectedRangeRemoved"
+  | "sheetUnhidden"
+  | "vbaProjectUnlocked"
+  | "fileSharingRemoved"
+  | "cellsUnlocked"
+  | "formulasRevealed";
+
+export interface ProtectionChange {
+  kind: ProtectionChangeKind;
+  sheet?: string; // Sheet name, for sheet-level changes
+  path?: string; // Part path of that sheet, or of the VBA project
+  detail?: string; // A range and its cells, e.g. "Budget (A1:B5)", or "3 cell formats"
+}
+
+export interface UnprotectResult {
+  blob: Blob;
+  wasProtected: boolean;
+  protectedRangesRemoved: number;
+  sheetsUnhidden: number;
+  vbaProjectUnlocked: boolean;
+  fileSharingRemoved: boolean;
+  cellFormatsUnlocked: number;
+  formulasRevealed: number; // Cell formats that no longer hide formulas
+  changes: ProtectionChange[]; // Each removal made, in package order
+  report: ProtectionReport;
+}
+
+export interface ProtectOptions {
+  password: string; // Empty applies protection without a password
+  workbook?: boolean; // Lock the workbook structure (default true)
+  sheets?: string[]; // Part paths of the sheets to protect (default: all)
+  allowedActions?: string[]; // sheetProtection actions left allowed, e.g. "formatCells"
+}
+
+export interface ProtectResult {
+  blob: Blob;
+  workbookProtected: boolean;
+  sheetsProtected: number;
+}
+
+// "noPassword": protected without a password, so any password unlocks it
+export type PasswordMatch = "match" | "noMatch" | "noPassword" | "unsupported";
+
+export interface PasswordCheck {
+  name: string;
+  path: string;
+  algorithmName?: string; // Missing for the legacy 16-bit verifier
+  result: PasswordMatch;
+}
+
+export interface PasswordCheckResult {
+  workbook: PasswordCheck | null;
+  sheets: PasswordCheck[];
+}
+
+export interface BatchFile {
+  file: File;
+  path: string; // Path inside a dropped folder, or just the file name
+}
+
+export type BatchStatus =
+  "queued" | "processing" | "unlocked" | "notProtected" | "failed";
+
+export interface BatchItem extends BatchFile {
+  status: BatchStatus;
+  blob?: Blob;
+  error?: string; // Reason shown for failed files
+  issues?: PackageIssue[]; // Validation warnings of the output
+  report?: ProtectionReport; // Protection found, for the audit report
+  changes?: ProtectionChange[]; // Protection removed
+}
+
+export interface DiffLine {
+  type: "context" | "removed" | "added" | "gap";
+  text: string; // One tag or text run; for "gap", what was left out
+}
+
+export interface PartDiff {
+  path: string; // e.g. xl/worksheets/sheet2.xml
+  status: "modified" | "added" | "removed";
+  isXml: boolean; // Other parts are only compared byte for byte
+  originalSize: number;
+  processedSize: number;
+  removed: number; // Tags and text runs removed
+  added: number;
+  lines: DiffLine[]; // Changes with a little context, in document order
+  truncated?: boolean; // Too many changes to list them
+}
+
+export interface AuditFileInfo {
+  name: string;
+  size: number; // Bytes
+  sha256: string; // Lowercase hex
+}
+
+export interface PropertyChange {
+  field: keyof ExcelProperties;
+  name?: string; // The custom property, when field is "custom"
+  before: string | null; // Dates as ISO 8601, null when unset
+  after: string | null;
+}
+
+export interface AuditReport {
+  generatedAt: string; // ISO 8601 timestamp
+  input: AuditFileInfo; // The file as uploaded, before any decryption
+  output: AuditFileInfo; // The file as downloaded
+  passwordToOpenRemoved: boolean;
+  protectionsFound: ProtectionReport | null;
+  protectionsRemoved: ProtectionChange[];
+  propertyChanges: PropertyChange[];
+}
+
+export interface PackageIssue {
+  severity: "error" | "warning"; // Errors block the download
+  part: string; // Package part the problem is in, "" for the whole package
+  message: string;
+  preexisting?: boolean; // The uploaded file has the same problem
+}
+
+export interface RepairReport {
+  recoveredParts: string[]; // Salvaged intact from the damaged file
+  rebuiltParts: string[]; // Regenerated because the original was lost
+  lostParts: string[]; // Damaged, truncated or referenced but missing
+}
+
+export interface RepairResult {
+  file: File;
+  report: RepairReport;
+}
+
+// Hidden and personal content found by the document inspector
+export type InspectorCategory =
+  | "comments"
+  | "hiddenRowsColumns"
+  | "hiddenSheets"
+  | "hiddenNames"
+  | "customXml"
+  | "externalLinks"
+  | "thumbnail"
+  | "printerSettings";
+
+export interface InspectorFinding {
+  category: InspectorCategory;
+  location: string; // Sheet, defined name or package part
+  detail: string; // e.g. "3 comments by Ann, Bob" or "Rows 4-6"
+  warning?: string; // What removing it breaks, e.g. formulas using a hidden sheet
+}
+
+export interface CleanResult {
+  blob: Blob;
+  cleaned: InspectorFinding[]; // Findings of the selected categories
+  formulasConverted: number; // Formulas with external links replaced by their values
 }
@@ -0,0 +1,20 @@
+import { defineConfig } from "vite";
+
+// Bundles the command-line interface (cli/main.ts) into a single Node script
+export default defineConfig({
+  build: {
+    ssr: "cli/main.ts",
+    outDir: "dist-cli",
+    target: "node20",
+    rollupOptions: {
+      output: {
+        entryFileNames: "excel-unprotect.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+  ssr: {
+    // Bundle JSZip and SheetJS too, so the script runs without node_modules
+    noExternal: true,
+  },
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from "vite";
+
+// Bundles the library entry point (lib/index.ts) as an ES module
+export default defineConfig({
+  build: {
+    outDir: "dist-lib",
+    target: "es2022",
+    lib: {
+      entry: "lib/index.ts",
+      formats: ["es"],
+      fileName: "excel-unprotect",
+    },
+    rollupOptions: {
+      // SheetJS stays bundled: its npm build is CommonJS without the named
+      // CFB export that Node's ES module loader would need.
+      external: ["jszip"],
+    },
+  },
+});